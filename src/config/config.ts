@@ -1,6 +1,15 @@
-import { existsSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import { resolve } from 'path';
-import type { AppConfig } from '../types/index.js';
+import type {
+  AppConfig,
+  ColumnRule,
+  CsvDialectRule,
+  OutputFormat,
+  RejectsFormat,
+  SchemaDriftPolicy,
+} from '../types/index.js';
+import { normalizeEncoding } from '../lib/encoding.js';
+import { isOutputFormat } from '../lib/outputFormat.js';
 
 function getEnv(key: string, defaultValue?: string): string {
   const value = process.env[key];
@@ -25,6 +34,18 @@ function getEnvNumber(key: string, defaultValue: number): number {
   return num;
 }
 
+function getEnvFloat(key: string, defaultValue: number): number {
+  const value = process.env[key];
+  if (value === undefined) {
+    return defaultValue;
+  }
+  const num = parseFloat(value);
+  if (isNaN(num)) {
+    throw new Error(`Environment variable ${key} must be a number, got: ${value}`);
+  }
+  return num;
+}
+
 function getEnvBoolean(key: string, defaultValue: boolean): boolean {
   const value = process.env[key];
   if (value === undefined) {
@@ -33,6 +54,111 @@ function getEnvBoolean(key: string, defaultValue: boolean): boolean {
   return value.toLowerCase() === 'true' || value === '1';
 }
 
+function getEnvGlobRules(key: string, valueName: string): Array<{ pattern: string; value: string }> {
+  return getEnv(key, '')
+    .split(',')
+    .filter((rule) => rule.trim() !== '')
+    .map((rule) => {
+      const separator = rule.lastIndexOf('=');
+      const pattern = rule.slice(0, separator).trim();
+      const value = rule.slice(separator + 1).trim();
+
+      if (separator === -1 || pattern === '' || value === '') {
+        throw new Error(`Invalid ${key} rule: ${rule}. Must be <glob>=<${valueName}>.`);
+      }
+
+      return { pattern, value };
+    });
+}
+
+function parseCsvDialectRules(value: string): CsvDialectRule[] {
+  let rules: unknown;
+  try {
+    rules = JSON.parse(value);
+  } catch {
+    throw new Error(`CSV_DIALECTS must be a JSON array, got: ${value}`);
+  }
+
+  if (!Array.isArray(rules)) {
+    throw new Error(`CSV_DIALECTS must be a JSON array, got: ${value}`);
+  }
+
+  return rules.map((rule) => {
+    const { pattern, delimiter, quote, escape, header, skipRows } = rule ?? {};
+    const isChar = (char: unknown) => char === undefined || (typeof char === 'string' && char.length === 1);
+
+    if (
+      typeof pattern !== 'string' || pattern === '' ||
+      !isChar(delimiter) || !isChar(quote) || !isChar(escape) ||
+      (header !== undefined && typeof header !== 'boolean') ||
+      (skipRows !== undefined && !(Number.isInteger(skipRows) && skipRows >= 0))
+    ) {
+      throw new Error(`Invalid CSV_DIALECTS rule: ${JSON.stringify(rule)}`);
+    }
+
+    return { pattern, delimiter, quote, escape, header, skipRows };
+  });
+}
+
+function parsePartitionColumns(value: string): Record<string, string[]> {
+  let datasets: unknown;
+  try {
+    datasets = JSON.parse(value);
+  } catch {
+    throw new Error(`PARTITION_COLUMNS must be a JSON object of <dataset>: [<column>...], got: ${value}`);
+  }
+
+  if (typeof datasets !== 'object' || datasets === null || Array.isArray(datasets)) {
+    throw new Error(`PARTITION_COLUMNS must be a JSON object of <dataset>: [<column>...], got: ${value}`);
+  }
+
+  for (const [dataset, columns] of Object.entries(datasets)) {
+    if (
+      !Array.isArray(columns) || columns.length === 0 ||
+      !columns.every((column) => typeof column === 'string' && column !== '') ||
+      new Set(columns).size !== columns.length
+    ) {
+      throw new Error(`Invalid PARTITION_COLUMNS columns for ${dataset}: ${JSON.stringify(columns)}`);
+    }
+  }
+
+  return datasets as Record<string, string[]>;
+}
+
+function parseColumnRules(filePath: string): ColumnRule[] {
+  let rules: unknown;
+  try {
+    rules = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`COLUMN_RULES_FILE must be a JSON object of <glob>: <rule>: ${(error as Error).message}`);
+  }
+
+  if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+    throw new Error('COLUMN_RULES_FILE must be a JSON object of <glob>: <rule>');
+  }
+
+  const isNameMap = (value: unknown) => value === undefined || (
+    typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.entries(value).every(([key, item]) => key !== '' && typeof item === 'string' && item.trim() !== '')
+  );
+  const isNameList = (value: unknown) => value === undefined || (
+    Array.isArray(value) && value.every((item) => typeof item === 'string' && item !== '')
+  );
+
+  return Object.entries(rules).map(([pattern, rule]) => {
+    const { cast, rename, derive, drop, order, ...unknown } = rule ?? {};
+
+    if (
+      typeof rule !== 'object' || Array.isArray(rule) || Object.keys(unknown).length > 0 ||
+      !isNameMap(cast) || !isNameMap(rename) || !isNameMap(derive) || !isNameList(drop) || !isNameList(order)
+    ) {
+      throw new Error(`Invalid COLUMN_RULES_FILE rule for ${pattern}: ${JSON.stringify(rule)}`);
+    }
+
+    return { pattern, cast, rename, derive, drop, order };
+  });
+}
+
 export function loadConfig(): AppConfig {
   // S3 Configuration
   const s3 = {
@@ -42,8 +168,19 @@ export function loadConfig(): AppConfig {
     accessKeyId: getEnv('S3_ACCESS_KEY'),
     secretAccessKey: getEnv('S3_SECRET_KEY'),
     forcePathStyle: getEnvBoolean('S3_FORCE_PATH_STYLE', true),
+    uploadPartSize: getEnvNumber('S3_UPLOAD_PART_SIZE', 8 * 1024 * 1024),
+    uploadQueueSize: getEnvNumber('S3_UPLOAD_QUEUE_SIZE', 4),
   };
 
+  // Validate multipart upload buffer (S3 rejects parts under 5 MiB)
+  if (s3.uploadPartSize < 5 * 1024 * 1024) {
+    throw new Error(`Invalid S3_UPLOAD_PART_SIZE: ${s3.uploadPartSize}. Must be at least 5242880 (5 MiB).`);
+  }
+
+  if (s3.uploadQueueSize < 1) {
+    throw new Error(`Invalid S3_UPLOAD_QUEUE_SIZE: ${s3.uploadQueueSize}. Must be at least 1.`);
+  }
+
   // Monitoring Configuration
   const watchPath = getEnv('WATCH_PATH');
   const watchPathResolved = resolve(watchPath);
@@ -57,12 +194,77 @@ export function loadConfig(): AppConfig {
     stabilityThreshold: getEnvNumber('STABILITY_THRESHOLD', 2000),
     pollInterval: getEnvNumber('POLL_INTERVAL', 100),
     ignoreInitial: getEnvBoolean('IGNORE_INITIAL', false),
+    volumeQuietPeriod: getEnvNumber('VOLUME_QUIET_PERIOD', 30000),
   };
 
   // Processing Configuration
   const errorDirectory = getEnv('ERROR_DIRECTORY', './errors');
   const errorDirectoryResolved = resolve(errorDirectory);
 
+  // ZIP passwords: ZIP_PASSWORDS (comma-separated) followed by ZIP_PASSWORD_FILE (one per line)
+  const zipPasswords = getEnv('ZIP_PASSWORDS', '').split(',').filter((password) => password !== '');
+  const zipPasswordFile = process.env.ZIP_PASSWORD_FILE;
+
+  if (zipPasswordFile) {
+    const zipPasswordFileResolved = resolve(zipPasswordFile);
+
+    if (!existsSync(zipPasswordFileResolved)) {
+      throw new Error(`ZIP password file does not exist: ${zipPasswordFileResolved}`);
+    }
+
+    zipPasswords.push(
+      ...readFileSync(zipPasswordFileResolved, 'utf8').split(/\r?\n/).filter((password) => password !== '')
+    );
+  }
+
+  // XML record elements: XML_RECORD_ELEMENTS as comma-separated <glob>=<element> rules
+  const xmlRecordElements = getEnvGlobRules('XML_RECORD_ELEMENTS', 'element')
+    .map(({ pattern, value }) => ({ pattern, element: value }));
+
+  // Source encodings: FILE_ENCODINGS as comma-separated <glob>=<encoding> rules
+  const fileEncodings = getEnvGlobRules('FILE_ENCODINGS', 'encoding').map(({ pattern, value }) => {
+    try {
+      return { pattern, encoding: normalizeEncoding(value) };
+    } catch {
+      throw new Error(`Invalid FILE_ENCODINGS encoding: ${value}. Must be a WHATWG encoding label.`);
+    }
+  });
+
+  // Datasets: DATASETS as comma-separated <glob>=<dataset> rules
+  const datasets = getEnvGlobRules('DATASETS', 'dataset')
+    .map(({ pattern, value }) => ({ pattern, dataset: value }));
+
+  // Output formats: OUTPUT_FORMAT, overridden per path by OUTPUT_FORMATS as comma-separated <glob>=<format> rules
+  const outputFormat = getEnv('OUTPUT_FORMAT', 'parquet');
+  const outputFormats = getEnvGlobRules('OUTPUT_FORMATS', 'format')
+    .map(({ pattern, value }) => ({ pattern, format: value as OutputFormat }));
+
+  for (const format of [outputFormat, ...outputFormats.map((rule) => rule.format)]) {
+    if (!isOutputFormat(format)) {
+      throw new Error(`Invalid output format: ${format}. Must be parquet, arrow, csv.gz or ndjson.`);
+    }
+  }
+
+  // Partitioning: PARTITION_COLUMNS as a JSON object of <dataset>: [<column>...]
+  const partitionColumns = parsePartitionColumns(getEnv('PARTITION_COLUMNS', '{}'));
+
+  // CSV dialect overrides: CSV_DIALECTS as a JSON array of {pattern, delimiter?, quote?, escape?, header?, skipRows?}
+  const csvDialects = parseCsvDialectRules(getEnv('CSV_DIALECTS', '[]'));
+
+  // Column rules: COLUMN_RULES_FILE, a JSON object of <glob>: {cast?, rename?, derive?, drop?, order?}
+  const columnRulesFile = process.env.COLUMN_RULES_FILE;
+  let columnRules: ColumnRule[] = [];
+
+  if (columnRulesFile) {
+    const columnRulesFileResolved = resolve(columnRulesFile);
+
+    if (!existsSync(columnRulesFileResolved)) {
+      throw new Error(`Column rules file does not exist: ${columnRulesFileResolved}`);
+    }
+
+    columnRules = parseColumnRules(columnRulesFileResolved);
+  }
+
   const processing = {
     maxConcurrency: getEnvNumber('MAX_CONCURRENCY', 4),
     maxRetries: getEnvNumber('MAX_RETRIES', 3),
@@ -70,6 +272,22 @@ export function loadConfig(): AppConfig {
     errorDirectory: errorDirectoryResolved,
     progressDbPath: getEnv('PROGRESS_DB_PATH', './progress.db'),
     parquetCompression: (getEnv('PARQUET_COMPRESSION', 'ZSTD') as 'ZSTD' | 'SNAPPY'),
+    rowGroupSize: getEnvNumber('ROW_GROUP_SIZE', 122880),
+    maxPartBytes: getEnvNumber('MAX_PART_BYTES', 0),
+    streamParquetOutput: getEnvBoolean('STREAM_PARQUET_OUTPUT', false),
+    outputFormat: outputFormat as OutputFormat,
+    outputFormats,
+    zipPasswords,
+    xmlRecordElements,
+    csvDialects,
+    fileEncodings,
+    quarantineMalformedRows: getEnvBoolean('QUARANTINE_MALFORMED_ROWS', false),
+    rejectsFormat: (getEnv('REJECTS_FORMAT', 'parquet') as RejectsFormat),
+    maxRejectRatio: getEnvFloat('MAX_REJECT_RATIO', 0.01),
+    datasets,
+    schemaDriftPolicy: (getEnv('SCHEMA_DRIFT_POLICY', 'accept') as SchemaDriftPolicy),
+    partitionColumns,
+    columnRules,
   };
 
   // Validate compression type
@@ -77,6 +295,50 @@ export function loadConfig(): AppConfig {
     throw new Error(`Invalid PARQUET_COMPRESSION: ${processing.parquetCompression}. Must be ZSTD or SNAPPY.`);
   }
 
+  // Validate Parquet sizing
+  if (processing.rowGroupSize < 1) {
+    throw new Error(`Invalid ROW_GROUP_SIZE: ${processing.rowGroupSize}. Must be at least 1.`);
+  }
+
+  if (processing.maxPartBytes < 0) {
+    throw new Error(`Invalid MAX_PART_BYTES: ${processing.maxPartBytes}. Must be 0 (no splitting) or more.`);
+  }
+
+  // Validate rejects settings
+  if (!['parquet', 'jsonl'].includes(processing.rejectsFormat)) {
+    throw new Error(`Invalid REJECTS_FORMAT: ${processing.rejectsFormat}. Must be parquet or jsonl.`);
+  }
+
+  if (processing.maxRejectRatio < 0 || processing.maxRejectRatio > 1) {
+    throw new Error(`Invalid MAX_REJECT_RATIO: ${processing.maxRejectRatio}. Must be between 0 and 1.`);
+  }
+
+  // Validate schema drift policy
+  if (!['accept', 'coerce', 'fail'].includes(processing.schemaDriftPolicy)) {
+    throw new Error(`Invalid SCHEMA_DRIFT_POLICY: ${processing.schemaDriftPolicy}. Must be accept, coerce or fail.`);
+  }
+
+  // Archive Configuration
+  const archive = {
+    sevenZipPath: getEnv('SEVEN_ZIP_PATH', '7z'),
+    unrarPath: getEnv('UNRAR_PATH', 'unrar'),
+    maxNestingDepth: getEnvNumber('MAX_ARCHIVE_DEPTH', 5),
+    maxEntries: getEnvNumber('MAX_ARCHIVE_ENTRIES', 100000),
+    maxTotalBytes: getEnvNumber('MAX_ARCHIVE_TOTAL_BYTES', 100 * 1024 ** 3),
+    maxEntryBytes: getEnvNumber('MAX_ARCHIVE_ENTRY_BYTES', 10 * 1024 ** 3),
+    maxCompressionRatio: getEnvNumber('MAX_COMPRESSION_RATIO', 500),
+    maxSpoolBytes: getEnvNumber('MAX_SPOOL_BYTES', 20 * 1024 ** 3),
+    entryConcurrency: getEnvNumber('ARCHIVE_ENTRY_CONCURRENCY', 2),
+  };
+
+  if (archive.maxSpoolBytes < 1) {
+    throw new Error(`Invalid MAX_SPOOL_BYTES: ${archive.maxSpoolBytes}. Must be at least 1.`);
+  }
+
+  if (archive.entryConcurrency < 1) {
+    throw new Error(`Invalid ARCHIVE_ENTRY_CONCURRENCY: ${archive.entryConcurrency}. Must be at least 1.`);
+  }
+
   // Logging Configuration
   const logging = {
     level: (getEnv('LOG_LEVEL', 'info') as 'debug' | 'info' | 'warn' | 'error'),
@@ -93,6 +355,7 @@ export function loadConfig(): AppConfig {
     s3,
     monitoring,
     processing,
+    archive,
     logging,
   };
 }
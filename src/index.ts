@@ -21,6 +21,9 @@ let archiveExtractor: ArchiveExtractor | null = null;
  * - Verify S3 completion markers
  * - Clean up incomplete uploads
  * - Mark incomplete records as pending for retry
+ *
+ * Completed archive entry records are kept, so a retried archive only uploads
+ * the entries that were not finished before the crash.
  */
 async function performStartupRecovery(
   s3Uploader: S3Uploader,
@@ -101,7 +104,8 @@ async function main() {
     const s3Uploader = new S3Uploader(config.s3);
     progressTracker = new ProgressTracker(config.processing.progressDbPath);
     parquetConverter = new ParquetConverter(config.processing);
-    archiveExtractor = new ArchiveExtractor();
+    await parquetConverter.validateConfig();
+    archiveExtractor = new ArchiveExtractor(config.archive, config.processing.zipPasswords);
 
     // Perform startup recovery
     await performStartupRecovery(s3Uploader, progressTracker, logger);
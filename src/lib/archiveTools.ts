@@ -0,0 +1,265 @@
+import { spawn, type ChildProcessByStdio } from 'child_process';
+import { Readable, Writable } from 'stream';
+import { ArchiveErrorCode } from '../types/index.js';
+import { ArchiveError } from './errors.js';
+
+export interface ToolEntry {
+  /** Entry path within archive */
+  path: string;
+
+  /** Uncompressed size in bytes */
+  size: number;
+
+  /** Whether this is a directory */
+  isDirectory: boolean;
+
+  /** Last modification time (if listed) */
+  modifiedAt?: Date;
+}
+
+export interface ToolOutput {
+  /** Concatenated contents of every file entry, in listing order */
+  stream: Readable;
+
+  /** Resolves when the tool exits successfully, rejects otherwise */
+  done: Promise<void>;
+}
+
+/**
+ * Spawn an archive tool with stdin closed, or holding only the given input, so it can never
+ * block on a prompt
+ * @param toolPath Executable name or path
+ * @param args Command-line arguments
+ * @param input Line answering the tool's prompt (e.g. a password, which must not appear in
+ *   the arguments, readable by every local user)
+ * @returns Child process and a promise settled by its exit
+ */
+function spawnTool(
+  toolPath: string,
+  args: string[],
+  input?: string
+): { child: ChildProcessByStdio<Writable, Readable, Readable>; done: Promise<void> } {
+  const child = spawn(toolPath, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+
+  // A tool that exits without prompting closes the pipe first
+  child.stdin.on('error', () => undefined);
+  child.stdin.end(input === undefined ? undefined : `${input}\n`);
+
+  let stderr = '';
+  child.stderr.setEncoding('utf8');
+  child.stderr.on('data', (data: string) => {
+    stderr += data;
+  });
+
+  const done = new Promise<void>((resolve, reject) => {
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        reject(new ArchiveError(
+          ArchiveErrorCode.TOOL_UNAVAILABLE,
+          `Archive tool not found: ${toolPath}. Install it or point the configuration at its location.`,
+          { cause: error }
+        ));
+        return;
+      }
+      reject(new ArchiveError(ArchiveErrorCode.TOOL_FAILED, `Failed to run ${toolPath}: ${error.message}`, { cause: error }));
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      reject(new ArchiveError(
+        ArchiveErrorCode.TOOL_FAILED,
+        `${toolPath} exited with code ${code}: ${stderr.trim() || 'no error output'}`
+      ));
+    });
+  });
+
+  return { child, done };
+}
+
+/**
+ * Run an archive tool to completion and collect its standard output
+ * @param toolPath Executable name or path
+ * @param args Command-line arguments
+ * @param input Line answering the tool's prompt
+ * @returns Standard output as text
+ */
+async function runTool(toolPath: string, args: string[], input?: string): Promise<string> {
+  const { child, done } = spawnTool(toolPath, args, input);
+
+  let stdout = '';
+  child.stdout.setEncoding('utf8');
+  child.stdout.on('data', (data: string) => {
+    stdout += data;
+  });
+
+  await done;
+  return stdout;
+}
+
+/**
+ * Split technical listing output into key/value blocks separated by blank lines
+ * @param output Listing output
+ * @param separator Character between key and value
+ * @returns One map per block
+ */
+function parseListingBlocks(output: string, separator: '=' | ':'): Map<string, string>[] {
+  const blocks: Map<string, string>[] = [];
+  let current = new Map<string, string>();
+
+  for (const line of output.split(/\r?\n/)) {
+    const index = line.indexOf(separator);
+
+    if (line.trim() === '' || index === -1) {
+      if (current.size > 0) {
+        blocks.push(current);
+        current = new Map();
+      }
+      continue;
+    }
+
+    current.set(line.slice(0, index).trim(), line.slice(index + 1).trim());
+  }
+
+  if (current.size > 0) {
+    blocks.push(current);
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse a listing timestamp such as `2025-11-15 10:30:00.1234567`
+ * @param value Timestamp in the tool's local time
+ * @returns Date, or undefined if absent or unrecognized
+ */
+function parseListingTimestamp(value: string | undefined): Date | undefined {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+
+  if (!match) {
+    return undefined;
+  }
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+}
+
+/**
+ * Parse the output of `7z l -slt`
+ * @param output Listing output
+ * @returns Archive entries in archive order
+ */
+export function parseSevenZipListing(output: string): ToolEntry[] {
+  // Archive-level properties precede the dashed separator line
+  const separatorIndex = output.search(/^-{10,}$/m);
+  const body = separatorIndex === -1 ? output : output.slice(separatorIndex).replace(/^-+/, '');
+
+  return parseListingBlocks(body, '=')
+    .filter((block) => block.has('Path'))
+    .map((block) => ({
+      path: block.get('Path')!,
+      size: parseInt(block.get('Size') ?? '0', 10) || 0,
+      isDirectory: block.get('Folder') === '+' || (block.get('Attributes') ?? '').startsWith('D'),
+      modifiedAt: parseListingTimestamp(block.get('Modified')),
+    }));
+}
+
+/**
+ * Parse the output of `unrar lt`
+ * @param output Listing output
+ * @returns Archive entries in archive order
+ */
+export function parseUnrarListing(output: string): ToolEntry[] {
+  return parseListingBlocks(output, ':')
+    .filter((block) => block.has('Name') && block.has('Type'))
+    .map((block) => ({
+      path: block.get('Name')!,
+      size: parseInt(block.get('Size') ?? '0', 10) || 0,
+      isDirectory: block.get('Type') !== 'File',
+      modifiedAt: parseListingTimestamp(block.get('mtime')),
+    }));
+}
+
+/**
+ * List the entries of an archive readable by 7-Zip
+ * @param toolPath 7-Zip executable
+ * @param filePath Archive file path
+ * @returns Archive entries
+ */
+export async function listSevenZipEntries(toolPath: string, filePath: string): Promise<ToolEntry[]> {
+  return parseSevenZipListing(await runTool(toolPath, ['l', '-slt', '-p', '--', filePath]));
+}
+
+/**
+ * Arguments and prompt answer passing a password to 7-Zip. A password is written to the
+ * tool's password prompt; without one, -p with no value keeps the tool from prompting.
+ * @param password Archive password (empty for unencrypted archives)
+ * @returns Password argument and stdin input
+ */
+function sevenZipPassword(password: string): { args: string[]; input?: string } {
+  return password === '' ? { args: ['-p'] } : { args: [], input: password };
+}
+
+/**
+ * Stream the contents of every file in an archive readable by 7-Zip
+ * @param toolPath 7-Zip executable
+ * @param filePath Archive file path
+ * @param password Archive password (empty for unencrypted archives), sent on stdin
+ * @returns Concatenated entry contents
+ */
+export function streamSevenZipContents(toolPath: string, filePath: string, password: string = ''): ToolOutput {
+  const { args, input } = sevenZipPassword(password);
+  const { child, done } = spawnTool(toolPath, ['x', '-so', '-y', ...args, '--', filePath], input);
+  return { stream: child.stdout, done };
+}
+
+/**
+ * Check whether a password decrypts an entry of an archive readable by 7-Zip
+ * @param toolPath 7-Zip executable
+ * @param filePath Archive file path
+ * @param password Candidate password, sent on stdin
+ * @param entryPath Entry to test (ideally a small one)
+ * @returns True if the entry tests successfully with the password
+ * @throws ArchiveError with code TOOL_UNAVAILABLE if the tool is missing
+ */
+export async function testSevenZipPassword(
+  toolPath: string,
+  filePath: string,
+  password: string,
+  entryPath: string
+): Promise<boolean> {
+  try {
+    // -spd: match the entry path literally rather than as a wildcard
+    const { args, input } = sevenZipPassword(password);
+    await runTool(toolPath, ['t', '-y', '-spd', ...args, '--', filePath, entryPath], input);
+    return true;
+  } catch (error) {
+    if (error instanceof ArchiveError && error.code === ArchiveErrorCode.TOOL_FAILED) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * List the entries of a RAR archive
+ * @param toolPath unrar executable
+ * @param filePath Archive file path
+ * @returns Archive entries
+ */
+export async function listRarEntries(toolPath: string, filePath: string): Promise<ToolEntry[]> {
+  return parseUnrarListing(await runTool(toolPath, ['lt', '-c-', '-p-', '--', filePath]));
+}
+
+/**
+ * Stream the contents of every file in a RAR archive
+ * @param toolPath unrar executable
+ * @param filePath Archive file path
+ * @returns Concatenated entry contents
+ */
+export function streamRarContents(toolPath: string, filePath: string): ToolOutput {
+  const { child, done } = spawnTool(toolPath, ['p', '-inul', '-c-', '-p-', '--', filePath]);
+  return { stream: child.stdout, done };
+}
@@ -1,6 +1,6 @@
 import { createHash } from 'crypto';
 import { createReadStream } from 'fs';
-import { Readable } from 'stream';
+import { Readable, Transform } from 'stream';
 import { getLogger } from './logger.js';
 
 /**
@@ -58,6 +58,58 @@ export async function calculateStreamChecksum(stream: Readable): Promise<string>
   });
 }
 
+/**
+ * Create a pass-through stream that calculates the SHA256 checksum of its content
+ * @returns Stream to pipe content through, and a function returning the hex-encoded
+ *   checksum and byte count once the stream has ended
+ */
+export function createChecksumStream(): {
+  stream: Transform;
+  digest: () => { checksum: string; sizeBytes: number };
+} {
+  const hash = createHash('sha256');
+  let sizeBytes = 0;
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      sizeBytes += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  return {
+    stream,
+    digest: () => ({ checksum: hash.digest('hex'), sizeBytes }),
+  };
+}
+
+// CRC-32 (IEEE 802.3) lookup table, as used by ZIP and gzip
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Calculate CRC-32 checksum from a readable stream
+ * @param stream Readable stream
+ * @returns Promise that resolves with the unsigned CRC-32 value
+ */
+export async function calculateStreamCrc32(stream: Readable): Promise<number> {
+  let crc = 0xffffffff;
+
+  for await (const chunk of stream) {
+    for (const byte of chunk as Buffer) {
+      crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
 /**
  * Calculate SHA256 checksum from a buffer
  * @param buffer Buffer to hash
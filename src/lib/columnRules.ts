@@ -0,0 +1,64 @@
+import type { ColumnRule } from '../types/index.js';
+import { sqlIdentifier } from './sql.js';
+
+/**
+ * Build the SELECT list applying a column rule to a table. Casts and renames refer to the
+ * columns as read, derived columns are appended, and drop and order refer to output names.
+ * @param columns Column names of the table, in order
+ * @param rule Column rule
+ * @returns Comma-separated select list
+ * @throws Error if the rule refers to a missing column or produces duplicate or no columns
+ */
+export function buildColumnProjection(columns: string[], rule: ColumnRule): string {
+  const cast = rule.cast ?? {};
+  const rename = rule.rename ?? {};
+  const known = new Set(columns);
+
+  for (const name of [...Object.keys(cast), ...Object.keys(rename)]) {
+    if (!known.has(name)) {
+      throw new Error(`Column rule ${rule.pattern} refers to missing column ${name}`);
+    }
+  }
+
+  let output = columns.map((name) => ({
+    name: rename[name] ?? name,
+    expression: cast[name] ? `CAST(${sqlIdentifier(name)} AS ${cast[name]})` : sqlIdentifier(name),
+  }));
+
+  for (const [name, expression] of Object.entries(rule.derive ?? {})) {
+    output.push({ name, expression: `(${expression})` });
+  }
+
+  const outputNames = new Set<string>();
+  for (const { name } of output) {
+    if (outputNames.has(name)) {
+      throw new Error(`Column rule ${rule.pattern} produces column ${name} more than once`);
+    }
+    outputNames.add(name);
+  }
+
+  for (const name of rule.drop ?? []) {
+    if (!outputNames.has(name)) {
+      throw new Error(`Column rule ${rule.pattern} drops missing column ${name}`);
+    }
+  }
+
+  const dropped = new Set(rule.drop ?? []);
+  output = output.filter((column) => !dropped.has(column.name));
+
+  const order = rule.order ?? [];
+  const ordered = order.map((name) => {
+    const column = output.find((column) => column.name === name);
+    if (!column) {
+      throw new Error(`Column rule ${rule.pattern} orders missing column ${name}`);
+    }
+    return column;
+  });
+  output = [...ordered, ...output.filter((column) => !order.includes(column.name))];
+
+  if (output.length === 0) {
+    throw new Error(`Column rule ${rule.pattern} drops every column`);
+  }
+
+  return output.map((column) => `${column.expression} AS ${sqlIdentifier(column.name)}`).join(', ');
+}
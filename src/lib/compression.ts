@@ -0,0 +1,288 @@
+import { Duplex, Transform } from 'stream';
+import { createGunzip } from 'zlib';
+import bz2 from 'unbzip2-stream';
+import * as xzDecompress from 'xz-decompress';
+import { Decompress as ZstdDecompress } from 'fzstd';
+import { decompressBlock } from 'lz4js';
+
+// xz-decompress is a CommonJS bundle flagged as __esModule: Node's ESM loader
+// only exposes it as the default export, while CommonJS interop does not
+const { XzReadableStream } =
+  (xzDecompress as { default?: typeof xzDecompress }).default ?? xzDecompress;
+
+export type CompressionType = 'gzip' | 'bzip2' | 'xz' | 'zstd' | 'lz4';
+
+const LZ4_FRAME_MAGIC = 0x184d2204;
+
+// Skippable frames use magic numbers 0x184D2A50 to 0x184D2A5F
+const LZ4_SKIPPABLE_MAGIC = 0x184d2a50;
+
+/** Maximum block size by the block descriptor's size code */
+const LZ4_BLOCK_MAX_SIZES: Record<number, number> = {
+  4: 64 * 1024,
+  5: 256 * 1024,
+  6: 1024 * 1024,
+  7: 4 * 1024 * 1024,
+};
+
+// Linked blocks may copy matches from the previous 64 KiB of output
+const LZ4_WINDOW_BYTES = 64 * 1024;
+
+interface Lz4Frame {
+  blockMaxSize: number;
+  linkedBlocks: boolean;
+  blockChecksums: boolean;
+  contentChecksum: boolean;
+}
+
+/**
+ * Create a streaming bzip2 decompressor
+ * @returns Transform stream that decodes bzip2 input
+ */
+function createBzip2Decompressor(): Transform {
+  const decoder = bz2();
+
+  // The decoder emits decoded blocks synchronously from write(), so pushing
+  // them before invoking the transform callback keeps Transform backpressure
+  const transform = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      decoder.write(chunk);
+      callback();
+    },
+    flush(callback) {
+      decoder.once('end', () => callback());
+      decoder.end();
+    },
+  });
+
+  decoder.on('data', (data: Buffer) => transform.push(data));
+  decoder.on('error', (error: Error) => transform.destroy(error));
+
+  return transform;
+}
+
+/**
+ * Create a streaming xz decompressor
+ * @returns Duplex stream that decodes xz input
+ */
+function createXzDecompressor(): Duplex {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const decoded = new XzReadableStream(readable);
+
+  return Duplex.fromWeb({ readable: decoded, writable });
+}
+
+/**
+ * Create a streaming Zstandard decompressor
+ * @returns Transform stream that decodes zstd input, including multi-frame files
+ */
+function createZstdDecompressor(): Transform {
+  const transform = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      try {
+        decoder.push(chunk);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        // Throws if the input ends mid-frame
+        decoder.push(new Uint8Array(0), true);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+
+  // Blocks are emitted synchronously from push(), like the bzip2 decoder's
+  const decoder = new ZstdDecompress((data) => {
+    if (data.length > 0) {
+      transform.push(Buffer.from(data));
+    }
+  });
+
+  return transform;
+}
+
+/**
+ * Create a streaming LZ4 frame decompressor
+ * @returns Transform stream that decodes LZ4 frames (the lz4 CLI format)
+ */
+function createLz4Decompressor(): Transform {
+  const chunks: Buffer[] = [];
+  let buffered = 0;
+  let needed = 4;
+  let frame: Lz4Frame | null = null;
+  let window = Buffer.alloc(0);
+
+  /**
+   * Decode every complete frame header and block at the start of the input
+   * @param input Buffered input
+   * @param push Receives decoded data
+   * @returns Bytes consumed, and bytes needed from the remainder to make progress
+   */
+  const decode = (input: Buffer, push: (data: Buffer) => void): { consumed: number; needed: number } => {
+    let offset = 0;
+
+    for (;;) {
+      const available = input.length - offset;
+      if (available < 4) {
+        return { consumed: offset, needed: 4 };
+      }
+
+      if (!frame) {
+        const magic = input.readUInt32LE(offset);
+
+        if ((magic & 0xfffffff0) === LZ4_SKIPPABLE_MAGIC) {
+          const length = available < 8 ? 8 : 8 + input.readUInt32LE(offset + 4);
+          if (available < length) {
+            return { consumed: offset, needed: length };
+          }
+          offset += length;
+          continue;
+        }
+
+        if (magic !== LZ4_FRAME_MAGIC) {
+          throw new Error('Invalid LZ4 frame: bad magic number');
+        }
+        if (available < 7) {
+          return { consumed: offset, needed: 7 };
+        }
+
+        const flags = input[offset + 4];
+        const blockMaxSize = LZ4_BLOCK_MAX_SIZES[(input[offset + 5] >> 4) & 0x07];
+        if (flags >> 6 !== 1 || !blockMaxSize) {
+          throw new Error('Invalid LZ4 frame: unsupported version or block size');
+        }
+
+        // Magic, flags, block descriptor and header checksum, plus optional
+        // content size and dictionary ID
+        const headerLength = 7 + (flags & 0x08 ? 8 : 0) + (flags & 0x01 ? 4 : 0);
+        if (available < headerLength) {
+          return { consumed: offset, needed: headerLength };
+        }
+
+        frame = {
+          blockMaxSize,
+          linkedBlocks: (flags & 0x20) === 0,
+          blockChecksums: (flags & 0x10) !== 0,
+          contentChecksum: (flags & 0x04) !== 0,
+        };
+        window = Buffer.alloc(0);
+        offset += headerLength;
+        continue;
+      }
+
+      const blockHeader = input.readUInt32LE(offset);
+
+      // End mark, followed by the optional content checksum
+      if (blockHeader === 0) {
+        const length = frame.contentChecksum ? 8 : 4;
+        if (available < length) {
+          return { consumed: offset, needed: length };
+        }
+        frame = null;
+        offset += length;
+        continue;
+      }
+
+      const blockSize = blockHeader & 0x7fffffff;
+      if (blockSize > frame.blockMaxSize) {
+        throw new Error('Invalid LZ4 frame: block exceeds the declared maximum size');
+      }
+
+      const length = 4 + blockSize + (frame.blockChecksums ? 4 : 0);
+      if (available < length) {
+        return { consumed: offset, needed: length };
+      }
+
+      const block = input.subarray(offset + 4, offset + 4 + blockSize);
+      let data: Buffer;
+
+      // The high bit marks a block stored uncompressed
+      if (blockHeader & 0x80000000) {
+        data = Buffer.from(block);
+      } else {
+        const output = Buffer.alloc(window.length + frame.blockMaxSize);
+        window.copy(output);
+        const end = decompressBlock(block, output, 0, blockSize, window.length);
+        if (end > output.length) {
+          throw new Error('Invalid LZ4 frame: block decodes past the maximum size');
+        }
+        data = output.subarray(window.length, end);
+      }
+
+      if (frame.linkedBlocks) {
+        const history = Buffer.concat([window, data]);
+        window = Buffer.from(history.subarray(Math.max(0, history.length - LZ4_WINDOW_BYTES)));
+      }
+
+      push(data);
+      offset += length;
+    }
+  };
+
+  const transform = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk);
+      buffered += chunk.length;
+
+      // Large blocks arrive over many chunks; only join them once complete
+      if (buffered < needed) {
+        callback();
+        return;
+      }
+
+      try {
+        const input = Buffer.concat(chunks);
+        const result = decode(input, (data) => transform.push(data));
+        const rest = input.subarray(result.consumed);
+
+        chunks.length = 0;
+        if (rest.length > 0) {
+          chunks.push(rest);
+        }
+        buffered = rest.length;
+        needed = result.needed;
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      callback(frame || buffered > 0 ? new Error('LZ4 input ended before the end of its frame') : null);
+    },
+  });
+
+  return transform;
+}
+
+/**
+ * Create a streaming decompressor for the given compression type
+ * @param compression Compression type
+ * @returns Duplex stream that decodes compressed input
+ */
+export function createDecompressor(compression: CompressionType): Duplex {
+  switch (compression) {
+    case 'gzip':
+      return createGunzip();
+
+    case 'bzip2':
+      return createBzip2Decompressor();
+
+    case 'xz':
+      return createXzDecompressor();
+
+    case 'zstd':
+      return createZstdDecompressor();
+
+    case 'lz4':
+      return createLz4Decompressor();
+
+    default:
+      throw new Error(`Unsupported compression type: ${compression}`);
+  }
+}
@@ -0,0 +1,276 @@
+import { open } from 'fs/promises';
+import type { CsvDialect } from '../types/index.js';
+
+// Bytes read from the start of a file to sniff its dialect
+const SAMPLE_BYTES = 64 * 1024;
+
+// Candidate delimiters; on equally consistent splits the earlier one wins, since
+// commas are common inside values (decimal commas, free text) and the others are not
+const DELIMITERS = ['\t', ';', '|', ','];
+
+const QUOTES = ['"', "'"];
+
+const NUMBER = /^[-+]?(?:\d+(?:[.,]\d*)?|[.,]\d+)(?:[eE][-+]?\d+)?$/;
+const DATE = /^(?:\d{4}-\d{2}-\d{2}|\d{1,2}[/.]\d{1,2}[/.]\d{2,4})(?:[ T].*)?$/;
+
+interface CsvRecord {
+  /** Field values, unquoted */
+  fields: string[];
+
+  /** Number of physical lines the record spans */
+  lines: number;
+}
+
+/**
+ * Split sample text into records, honouring quoted fields that span lines
+ * @param text Sample text
+ * @param delimiter Field delimiter
+ * @param quote Quote character
+ * @param escape Escape character inside quoted fields (the quote itself for doubled quotes)
+ * @returns Records in order
+ */
+function splitRecords(text: string, delimiter: string, quote: string, escape: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let lines = 1;
+  let quoted = false;
+
+  for (let pos = 0; pos < text.length; pos++) {
+    const char = text[pos];
+
+    if (quoted) {
+      if (char === escape && escape !== quote && text[pos + 1] === quote) {
+        field += quote;
+        pos++;
+      } else if (char === quote && text[pos + 1] === quote && escape === quote) {
+        field += quote;
+        pos++;
+      } else if (char === quote) {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          lines++;
+        }
+        field += char;
+      }
+    } else if (char === quote && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n') {
+      fields.push(field.replace(/\r$/, ''));
+      records.push({ fields, lines });
+      fields = [];
+      field = '';
+      lines = 1;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    fields.push(field.replace(/\r$/, ''));
+    records.push({ fields, lines });
+  }
+
+  // Blank lines are not records
+  return records.filter((record) => record.fields.length > 1 || record.fields[0] !== '');
+}
+
+/**
+ * Count matches of a pattern in text
+ * @param text Text to search
+ * @param pattern Global regular expression
+ * @returns Number of matches
+ */
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Escape a character for use in a regular expression
+ * @param char Character
+ * @returns Escaped character
+ */
+function escapeRegExp(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the quote character: the candidate that most often opens or closes a field
+ * @param text Sample text
+ * @returns Quote character, " when there is no evidence either way
+ */
+function sniffQuote(text: string): string {
+  const boundary = DELIMITERS.map(escapeRegExp).join('');
+  let best = QUOTES[0];
+  let bestCount = 0;
+
+  for (const quote of QUOTES) {
+    const q = escapeRegExp(quote);
+    const count = countMatches(text, new RegExp(`(?:^|[${boundary}])${q}[^${q}\\n]*${q}(?=[${boundary}]|\\r?$)`, 'gm'));
+    if (count > bestCount) {
+      best = quote;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find how quotes are escaped inside quoted fields
+ * @param text Sample text
+ * @param quote Quote character
+ * @returns Backslash if backslash-escaped quotes outnumber doubled ones, else the quote itself
+ */
+function sniffEscape(text: string, quote: string): string {
+  const q = escapeRegExp(quote);
+  const boundary = DELIMITERS.map(escapeRegExp).join('');
+
+  const backslashed = countMatches(text, new RegExp(`\\\\${q}(?![${boundary}]|\\r?$)`, 'gm'));
+  // Doubled quotes that are not an empty field
+  const doubled = countMatches(text, new RegExp(`[^${boundary}\\n]${q}${q}|${q}${q}[^${boundary}\\r\\n]`, 'g'));
+
+  return backslashed > doubled ? '\\' : quote;
+}
+
+/**
+ * Find the most common field count of a set of records
+ * @param records Records
+ * @returns Field count and the share of records that have it
+ */
+function modalFieldCount(records: CsvRecord[]): { fieldCount: number; consistency: number } {
+  const counts = new Map<number, number>();
+  for (const record of records) {
+    counts.set(record.fields.length, (counts.get(record.fields.length) ?? 0) + 1);
+  }
+
+  let fieldCount = 0;
+  let occurrences = 0;
+  for (const [count, times] of counts) {
+    if (times > occurrences || (times === occurrences && count > fieldCount)) {
+      fieldCount = count;
+      occurrences = times;
+    }
+  }
+
+  return { fieldCount, consistency: records.length === 0 ? 0 : occurrences / records.length };
+}
+
+/**
+ * Decide whether the first record is a header: it is if it has no numbers and its
+ * values differ in kind or length from the values below them
+ * @param header First record
+ * @param body Following records with the same field count
+ * @returns True if the first record looks like column names
+ */
+function sniffHeader(header: string[], body: string[][]): boolean {
+  if (header.some((value) => NUMBER.test(value.trim()) || DATE.test(value.trim()))) {
+    return false;
+  }
+
+  if (body.length === 0) {
+    return true;
+  }
+
+  let votes = 0;
+
+  for (const [column, name] of header.entries()) {
+    const values = body.map((row) => row[column].trim()).filter((value) => value !== '');
+    if (values.length === 0) {
+      continue;
+    }
+
+    if (values.every((value) => NUMBER.test(value)) || values.every((value) => DATE.test(value))) {
+      votes++;
+      continue;
+    }
+
+    const lengths = new Set(values.map((value) => value.length));
+    if (lengths.size === 1) {
+      votes += lengths.has(name.length) ? -1 : 1;
+    }
+  }
+
+  // All-text columns give no evidence either way; most exports have a header
+  return votes >= 0;
+}
+
+/**
+ * Sniff the CSV dialect of a text sample
+ * @param sample Text from the start of the file
+ * @param truncated Whether the file continues past the sample (the last record may be partial)
+ * @returns Delimiter, quote and escape characters, header presence and leading lines to skip
+ */
+export function sniffCsvDialect(sample: string, truncated: boolean = false): CsvDialect {
+  const text = sample.replace(/^\uFEFF/, '');
+  const quote = sniffQuote(text);
+  const escape = sniffEscape(text, quote);
+
+  let best: { delimiter: string; records: CsvRecord[]; fieldCount: number; consistency: number } | null = null;
+
+  for (const delimiter of DELIMITERS) {
+    const records = splitRecords(text, delimiter, quote, escape);
+    if (truncated && records.length > 1) {
+      records.pop();
+    }
+
+    const { fieldCount, consistency } = modalFieldCount(records);
+    if (fieldCount > 1 && (!best || consistency > best.consistency)) {
+      best = { delimiter, records, fieldCount, consistency };
+    }
+  }
+
+  // Single-column files split on nothing
+  if (!best) {
+    const records = splitRecords(text, ',', quote, escape);
+    return {
+      delimiter: ',',
+      quote,
+      escape,
+      header: records.length > 0 && sniffHeader(records[0].fields, records.slice(1).map((record) => record.fields)),
+      skipRows: 0,
+    };
+  }
+
+  // Title or comment lines before the table have a different field count
+  const start = best.records.findIndex((record) => record.fields.length === best!.fieldCount);
+  const skipRows = best.records.slice(0, start).reduce((lines, record) => lines + record.lines, 0);
+  const table = best.records.slice(start).filter((record) => record.fields.length === best!.fieldCount);
+
+  return {
+    delimiter: best.delimiter,
+    quote,
+    escape,
+    header: sniffHeader(table[0].fields, table.slice(1).map((record) => record.fields)),
+    skipRows,
+  };
+}
+
+/**
+ * Sniff the CSV dialect of a file from its first bytes
+ * @param filePath CSV or TSV file path
+ * @returns Sniffed dialect
+ */
+export async function sniffCsvFile(filePath: string): Promise<CsvDialect> {
+  const handle = await open(filePath, 'r');
+
+  try {
+    const buffer = Buffer.alloc(SAMPLE_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SAMPLE_BYTES, 0);
+    let sample = buffer.subarray(0, bytesRead).toString('utf8');
+
+    const truncated = bytesRead === SAMPLE_BYTES;
+    if (truncated) {
+      // Drop the partial last line (and any character split by the sample's end)
+      sample = sample.slice(0, sample.lastIndexOf('\n') + 1);
+    }
+
+    return sniffCsvDialect(sample, truncated);
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,142 @@
+import { open } from 'fs/promises';
+import { Transform } from 'stream';
+
+// Bytes read from the start of a file to detect its encoding
+const SAMPLE_BYTES = 64 * 1024;
+
+// Share of high bytes between ASCII bytes above which a single-byte Western text is assumed:
+// accented letters sit alone inside Latin words, while Cyrillic and Japanese come in runs
+const ISOLATED_HIGH_BYTES = 0.5;
+
+// Share of non-ASCII characters that must be Cyrillic letters for Windows-1251
+const CYRILLIC_LETTERS = 0.8;
+
+/**
+ * Normalize an encoding label to its canonical name
+ * @param label Encoding label (e.g. latin1, cp1251, sjis)
+ * @returns Canonical WHATWG name (e.g. windows-1252, windows-1251, shift_jis)
+ * @throws RangeError if the encoding is not supported
+ */
+export function normalizeEncoding(label: string): string {
+  return new TextDecoder(label).encoding;
+}
+
+/**
+ * Detect the encoding of the start of a text file
+ * @param sample Leading bytes of the file
+ * @param truncated Whether the file continues past the sample (the last character may be split)
+ * @returns utf-8, utf-16le or utf-16be (from a BOM or NUL byte pattern), or else utf-8 if the
+ *   sample is valid UTF-8, windows-1252 for isolated high bytes, windows-1251 for runs of
+ *   Cyrillic letters, and shift_jis for valid Shift-JIS
+ */
+export function detectEncoding(sample: Buffer, truncated: boolean = false): string {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (sample[0] === 0xff && sample[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (sample[0] === 0xfe && sample[1] === 0xff) {
+    return 'utf-16be';
+  }
+
+  // UTF-16 text without a BOM has a NUL in every other byte of its ASCII characters
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let index = 0; index < sample.length; index++) {
+    if (sample[index] === 0) {
+      if (index % 2 === 0) {
+        evenNuls++;
+      } else {
+        oddNuls++;
+      }
+    }
+  }
+  const pairs = sample.length / 2;
+  if (pairs > 0 && Math.max(evenNuls, oddNuls) / pairs > 0.3 && Math.min(evenNuls, oddNuls) / pairs < 0.05) {
+    return oddNuls > evenNuls ? 'utf-16le' : 'utf-16be';
+  }
+
+  if (decodes(sample, 'utf-8', truncated)) {
+    return 'utf-8';
+  }
+
+  let highBytes = 0;
+  let isolated = 0;
+  for (let index = 0; index < sample.length; index++) {
+    if (sample[index] >= 0x80) {
+      highBytes++;
+      if ((sample[index - 1] ?? 0) < 0x80 && (sample[index + 1] ?? 0) < 0x80) {
+        isolated++;
+      }
+    }
+  }
+
+  if (isolated / highBytes > ISOLATED_HIGH_BYTES) {
+    return 'windows-1252';
+  }
+
+  const nonAscii = [...new TextDecoder('windows-1251').decode(sample)].filter((char) => char > '\x7f');
+  const cyrillic = nonAscii.filter((char) => /[ЁА-яё]/.test(char));
+  if (cyrillic.length / nonAscii.length >= CYRILLIC_LETTERS) {
+    return 'windows-1251';
+  }
+
+  if (decodes(sample, 'shift_jis', truncated)) {
+    return 'shift_jis';
+  }
+
+  return 'windows-1252';
+}
+
+/**
+ * Check whether bytes are valid in an encoding
+ * @param sample Bytes to decode
+ * @param encoding Encoding
+ * @param truncated Whether a trailing partial character is allowed
+ * @returns True if the bytes decode without errors
+ */
+function decodes(sample: Buffer, encoding: string, truncated: boolean): boolean {
+  try {
+    // Streaming mode keeps an incomplete trailing sequence instead of rejecting it
+    new TextDecoder(encoding, { fatal: true }).decode(sample, { stream: truncated });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect the encoding of a file from its first bytes
+ * @param filePath File path
+ * @returns Canonical encoding name
+ */
+export async function detectFileEncoding(filePath: string): Promise<string> {
+  const handle = await open(filePath, 'r');
+
+  try {
+    const buffer = Buffer.alloc(SAMPLE_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SAMPLE_BYTES, 0);
+    return detectEncoding(buffer.subarray(0, bytesRead), bytesRead === SAMPLE_BYTES);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Create a transform stream that transcodes text to UTF-8, dropping any byte order mark
+ * @param encoding Source encoding
+ * @returns Transform stream of UTF-8 bytes
+ */
+export function createUtf8Transcoder(encoding: string): Transform {
+  const decoder = new TextDecoder(encoding);
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, Buffer.from(decoder.decode(chunk, { stream: true })));
+    },
+    flush(callback) {
+      callback(null, Buffer.from(decoder.decode()));
+    },
+  });
+}
@@ -0,0 +1,27 @@
+import type { ArchiveErrorCode, ConversionErrorCode } from '../types/index.js';
+
+/**
+ * Error raised while reading an archive, classified by cause
+ */
+export class ArchiveError extends Error {
+  readonly code: ArchiveErrorCode;
+
+  constructor(code: ArchiveErrorCode, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ArchiveError';
+    this.code = code;
+  }
+}
+
+/**
+ * Error raised while converting a database file, classified by cause
+ */
+export class ConversionError extends Error {
+  readonly code: ConversionErrorCode;
+
+  constructor(code: ConversionErrorCode, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ConversionError';
+    this.code = code;
+  }
+}
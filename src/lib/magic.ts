@@ -0,0 +1,262 @@
+import { open } from 'fs/promises';
+import { FileFormat, TEXT_FORMATS, isZipContainerFile } from '../types/index.js';
+
+/** Bytes needed to recognize every supported signature (tar's is at offset 257) */
+export const SIGNATURE_BYTES = 512;
+
+interface Signature {
+  format: FileFormat;
+  offset: number;
+  bytes: Buffer;
+}
+
+const SIGNATURES: Signature[] = [
+  { format: FileFormat.ZIP, offset: 0, bytes: Buffer.from('PK\x03\x04', 'latin1') },
+  { format: FileFormat.ZIP, offset: 0, bytes: Buffer.from('PK\x05\x06', 'latin1') }, // Empty archive
+  { format: FileFormat.ZIP, offset: 0, bytes: Buffer.from('PK\x07\x08', 'latin1') }, // Spanned archive
+  { format: FileFormat.GZIP, offset: 0, bytes: Buffer.from([0x1f, 0x8b]) },
+  { format: FileFormat.XZ, offset: 0, bytes: Buffer.from([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]) },
+  { format: FileFormat.ZSTD, offset: 0, bytes: Buffer.from([0x28, 0xb5, 0x2f, 0xfd]) },
+  { format: FileFormat.LZ4, offset: 0, bytes: Buffer.from([0x04, 0x22, 0x4d, 0x18]) },
+  { format: FileFormat.SEVEN_ZIP, offset: 0, bytes: Buffer.from([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]) },
+  { format: FileFormat.RAR, offset: 0, bytes: Buffer.from('Rar!\x1a\x07', 'latin1') },
+  { format: FileFormat.PARQUET, offset: 0, bytes: Buffer.from('PAR1', 'latin1') },
+  { format: FileFormat.SQLITE, offset: 0, bytes: Buffer.from('SQLite format 3\0', 'latin1') },
+  { format: FileFormat.TAR, offset: 257, bytes: Buffer.from('ustar', 'latin1') },
+];
+
+const FORMAT_CONTENT_TYPES: Record<FileFormat, string | null> = {
+  [FileFormat.ZIP]: 'application/zip',
+  [FileFormat.GZIP]: 'application/gzip',
+  [FileFormat.BZIP2]: 'application/x-bzip2',
+  [FileFormat.XZ]: 'application/x-xz',
+  [FileFormat.ZSTD]: 'application/zstd',
+  [FileFormat.LZ4]: 'application/x-lz4',
+  [FileFormat.SEVEN_ZIP]: 'application/x-7z-compressed',
+  [FileFormat.RAR]: 'application/vnd.rar',
+  [FileFormat.TAR]: 'application/x-tar',
+  [FileFormat.PARQUET]: 'application/vnd.apache.parquet',
+  [FileFormat.SQLITE]: 'application/vnd.sqlite3',
+  // Text could be CSV, JSON, XML... the extension is more specific
+  [FileFormat.UTF16LE]: null,
+  [FileFormat.UTF16BE]: null,
+  [FileFormat.UTF8]: null,
+};
+
+/**
+ * Check whether a sample starts with a pre-POSIX (v7) tar header, which has no magic string
+ * @param header Leading bytes
+ * @returns True if the header checksum field matches the header bytes
+ */
+function looksLikeTarHeader(header: Buffer): boolean {
+  if (header.length < 512 || header[0] === 0) {
+    return false;
+  }
+
+  const recorded = parseInt(header.toString('latin1', 148, 156).replace(/[\0 ]+$/, ''), 8);
+  if (Number.isNaN(recorded)) {
+    return false;
+  }
+
+  // The checksum is computed with its own field filled with spaces
+  let sum = 8 * 0x20;
+  for (let i = 0; i < 512; i++) {
+    if (i < 148 || i >= 156) {
+      sum += header[i];
+    }
+  }
+
+  return sum === recorded;
+}
+
+/**
+ * Check whether a sample looks like UTF-16 text without a byte order mark
+ * @param header Leading bytes
+ * @param nulParity Index parity where NUL high bytes appear (1 for LE, 0 for BE)
+ * @returns True if most code units are ASCII characters in that byte order
+ */
+function looksLikeUtf16(header: Buffer, nulParity: 0 | 1): boolean {
+  const units = Math.floor(header.length / 2);
+  if (units < 4) {
+    return false;
+  }
+
+  let asciiUnits = 0;
+  for (let i = 0; i < units * 2; i += 2) {
+    const high = header[i + nulParity];
+    const low = header[i + 1 - nulParity];
+    if (high === 0 && low !== 0) {
+      asciiUnits++;
+    }
+  }
+
+  return asciiUnits / units >= 0.9;
+}
+
+/**
+ * Check whether a sample is valid UTF-8 without binary control characters
+ * @param header Leading bytes
+ * @returns True if the sample is text
+ */
+function looksLikeUtf8(header: Buffer): boolean {
+  if (header.length === 0) {
+    return false;
+  }
+
+  for (const byte of header) {
+    // Allow tab, line feed, form feed and carriage return
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d) {
+      return false;
+    }
+  }
+
+  try {
+    // stream: true tolerates a multi-byte character cut off by the sample end
+    new TextDecoder('utf-8', { fatal: true }).decode(header, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect a file format from its leading bytes
+ * @param header Leading bytes (ideally SIGNATURE_BYTES long)
+ * @returns Detected format, or null if unrecognized
+ */
+export function detectFormat(header: Buffer): FileFormat | null {
+  for (const signature of SIGNATURES) {
+    const end = signature.offset + signature.bytes.length;
+    if (header.length >= end && header.subarray(signature.offset, end).equals(signature.bytes)) {
+      return signature.format;
+    }
+  }
+
+  // bzip2: "BZh" followed by the block size digit
+  if (header.length >= 4 && header.toString('latin1', 0, 3) === 'BZh' && header[3] >= 0x31 && header[3] <= 0x39) {
+    return FileFormat.BZIP2;
+  }
+
+  if (looksLikeTarHeader(header)) {
+    return FileFormat.TAR;
+  }
+
+  if (header.length >= 2 && header[0] === 0xff && header[1] === 0xfe) {
+    return FileFormat.UTF16LE;
+  }
+  if (header.length >= 2 && header[0] === 0xfe && header[1] === 0xff) {
+    return FileFormat.UTF16BE;
+  }
+  if (header.length >= 3 && header[0] === 0xef && header[1] === 0xbb && header[2] === 0xbf) {
+    return FileFormat.UTF8;
+  }
+
+  if (looksLikeUtf16(header, 1)) {
+    return FileFormat.UTF16LE;
+  }
+  if (looksLikeUtf16(header, 0)) {
+    return FileFormat.UTF16BE;
+  }
+  if (looksLikeUtf8(header)) {
+    return FileFormat.UTF8;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a ZIP archive's first entry is encrypted (ZipCrypto or AES)
+ * @param header Leading bytes
+ * @returns True if the header is a ZIP local file header with the encryption flag set
+ */
+export function isEncryptedZipHeader(header: Buffer): boolean {
+  return header.length >= 8 &&
+    header.readUInt32LE(0) === 0x04034b50 &&
+    (header.readUInt16LE(6) & 0x01) !== 0;
+}
+
+/**
+ * Check whether a ZIP archive starts with the spanning marker of a split archive
+ * @param header Leading bytes
+ * @returns True if the header is the data descriptor signature written before
+ *   the first local file header of a spanned ZIP
+ */
+export function isSpannedZipHeader(header: Buffer): boolean {
+  return header.length >= 4 && header.readUInt32LE(0) === 0x08074b50;
+}
+
+/**
+ * Read the leading bytes of a file
+ * @param filePath File path
+ * @param length Number of bytes to read
+ * @returns Leading bytes (shorter if the file is smaller)
+ */
+export async function readFileHeader(filePath: string, length: number = SIGNATURE_BYTES): Promise<Buffer> {
+  const handle = await open(filePath, 'r');
+
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Check whether a Parquet file is complete: its footer ends with the PAR1 magic
+ * @param filePath Parquet file path
+ * @returns True if the file ends with PAR1 (false while a writer has yet to close it)
+ */
+export async function hasParquetFooter(filePath: string): Promise<boolean> {
+  const handle = await open(filePath, 'r');
+
+  try {
+    const { size } = await handle.stat();
+    // The smallest complete file is its leading magic, a footer length and the trailing magic
+    if (size < 12) {
+      return false;
+    }
+
+    const buffer = Buffer.alloc(4);
+    await handle.read(buffer, 0, 4, size - 4);
+    return buffer.toString('latin1') === 'PAR1';
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Detect a file's format from its leading bytes
+ * @param filePath File path
+ * @returns Detected format, or null if unrecognized
+ */
+export async function detectFileFormat(filePath: string): Promise<FileFormat | null> {
+  return detectFormat(await readFileHeader(filePath));
+}
+
+/**
+ * Resolve the content type of a file, preferring its detected format
+ * @param filePath File name or path
+ * @param format Detected format, if any
+ * @param fallback Content type guessed from the extension
+ * @returns MIME type
+ */
+export function resolveContentType(
+  filePath: string,
+  format: FileFormat | null | undefined,
+  fallback: string
+): string {
+  // A .docx is a ZIP container, but application/zip would be wrong for it
+  const formatType = format && !isZipContainerFile(filePath) ? FORMAT_CONTENT_TYPES[format] : null;
+
+  if (formatType) {
+    return formatType;
+  }
+
+  if (format && TEXT_FORMATS.includes(format) && fallback === 'application/octet-stream') {
+    return 'text/plain';
+  }
+
+  return fallback;
+}
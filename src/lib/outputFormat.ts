@@ -0,0 +1,46 @@
+import type { OutputFormat, OutputFormatRule } from '../types/index.js';
+import { matchesGlob } from './paths.js';
+
+/** S3 key extension and content type of each output format */
+export const OUTPUT_FORMATS: Record<OutputFormat, { extension: string; contentType: string }> = {
+  parquet: { extension: '.parquet', contentType: 'application/vnd.apache.parquet' },
+  // Arrow IPC stream format, as written by DuckDB's nanoarrow extension
+  arrow: { extension: '.arrows', contentType: 'application/vnd.apache.arrow.stream' },
+  'csv.gz': { extension: '.csv.gz', contentType: 'application/gzip' },
+  ndjson: { extension: '.ndjson', contentType: 'application/x-ndjson' },
+};
+
+/**
+ * Check whether a value names an output format
+ * @param value Value to check (e.g. from the environment)
+ * @returns True if the value is an output format
+ */
+export function isOutputFormat(value: string): value is OutputFormat {
+  return Object.hasOwn(OUTPUT_FORMATS, value);
+}
+
+/**
+ * Find the format a database file is converted to
+ * @param relativePath Path relative to the watch directory
+ * @param rules Output format rules, first match wins
+ * @param defaultFormat Format used when no rule matches
+ * @returns Output format
+ */
+export function resolveOutputFormat(
+  relativePath: string,
+  rules: OutputFormatRule[],
+  defaultFormat: OutputFormat
+): OutputFormat {
+  return rules.find((rule) => matchesGlob(relativePath, rule.pattern))?.format ?? defaultFormat;
+}
+
+/**
+ * Find the output format of a converted object from its S3 key
+ * @param s3Key S3 object key or file path
+ * @returns Output format, or null if the key has none of their extensions
+ */
+export function detectOutputFormat(s3Key: string): OutputFormat | null {
+  const lower = s3Key.toLowerCase();
+  const formats = Object.keys(OUTPUT_FORMATS) as OutputFormat[];
+  return formats.find((format) => lower.endsWith(OUTPUT_FORMATS[format].extension)) ?? null;
+}
@@ -0,0 +1,123 @@
+import { readdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { hasParquetFooter } from './magic.js';
+
+export interface ParquetPart {
+  /** Zero-based part number */
+  index: number;
+
+  /** Object name under the output's prefix (e.g. part-00001.parquet or year=2026/month=10/part-0.parquet) */
+  name: string;
+
+  /** Temporary Parquet file, removed once the callback returns */
+  tempFilePath: string;
+}
+
+// Names DuckDB gives the parts of a split output (FILENAME_PATTERN 'part-{i}')
+const PART_FILE_NAME = /^part-(\d+)\.parquet$/;
+
+// How often the parts directory of a running conversion is checked for finished parts (ms)
+const PART_POLL_INTERVAL = 1000;
+
+/**
+ * Hand the parts of a split conversion to a callback while it is running, deleting each
+ * part once the callback returns. DuckDB starts the next part when one is full, and a
+ * part is finished once its footer is written.
+ * @param conversion Running conversion writing parts into the directory
+ * @param directory Parts directory
+ * @param onPart Callback receiving each finished part, in order
+ * @param pollInterval How often the directory is checked for finished parts (ms)
+ * @returns Number of parts, or 0 if the conversion wrote a single part (left in the directory)
+ */
+export async function handOffParts(
+  conversion: Promise<void>,
+  directory: string,
+  onPart: (part: ParquetPart) => Promise<void>,
+  pollInterval: number = PART_POLL_INTERVAL
+): Promise<number> {
+  let done = false;
+  const finished = conversion.finally(() => {
+    done = true;
+  });
+  const partPath = (index: number) => join(directory, `part-${index}.parquet`);
+  let handedOff = 0;
+
+  const countParts = async (): Promise<number> => {
+    const indexes = (await readdir(directory))
+      .map((name) => PART_FILE_NAME.exec(name))
+      .filter((match) => match !== null)
+      .map((match) => Number(match[1]) + 1);
+    return Math.max(handedOff, ...indexes);
+  };
+
+  const handOff = async (count: number): Promise<void> => {
+    for (; handedOff < count; handedOff++) {
+      const name = `part-${String(handedOff).padStart(5, '0')}.parquet`;
+      await onPart({ index: handedOff, name, tempFilePath: partPath(handedOff) });
+      await rm(partPath(handedOff), { force: true });
+    }
+  };
+
+  try {
+    while (!done) {
+      await Promise.race([
+        finished.catch(() => undefined),
+        new Promise((resolve) => setTimeout(resolve, pollInterval)),
+      ]);
+
+      const count = await countParts();
+      let ready = handedOff;
+      while (ready < count - 1 && await hasParquetFooter(partPath(ready))) {
+        ready++;
+      }
+      await handOff(ready);
+    }
+
+    await finished;
+
+    const count = await countParts();
+    if (handedOff === 0 && count === 1) {
+      return 0;
+    }
+
+    await handOff(count);
+    return count;
+  } catch (error) {
+    // Let DuckDB stop writing before the caller removes the directory
+    await finished.catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Hand the files of a partitioned conversion to a callback, deleting each file once the callback returns
+ * @param directory Directory of column=value/... partition directories
+ * @param onPart Callback receiving each partition file, in path order
+ * @returns Number of partition files
+ */
+export async function handOffPartitions(
+  directory: string,
+  onPart: (part: ParquetPart) => Promise<void>
+): Promise<number> {
+  const names: string[] = [];
+  const walk = async (relativeDirectory: string): Promise<void> => {
+    for (const entry of await readdir(join(directory, relativeDirectory), { withFileTypes: true })) {
+      const name = relativeDirectory ? `${relativeDirectory}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await walk(name);
+      } else if (entry.name.endsWith('.parquet')) {
+        names.push(name);
+      }
+    }
+  };
+  await walk('');
+  names.sort();
+
+  for (const [index, name] of names.entries()) {
+    const tempFilePath = join(directory, name);
+    await onPart({ index, name, tempFilePath });
+    await rm(tempFilePath, { force: true });
+  }
+
+  return names.length;
+}
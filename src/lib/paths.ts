@@ -0,0 +1,79 @@
+import { posix } from 'path';
+import { ArchiveErrorCode } from '../types/index.js';
+import { ArchiveError } from './errors.js';
+
+/**
+ * Normalize an archive entry path and reject paths that could escape the archive's prefix
+ * @param entryPath Entry path as stored in the archive
+ * @returns Normalized relative POSIX path
+ * @throws ArchiveError with code UNSAFE_PATH for absolute, drive-qualified,
+ *   parent-traversing, empty or NUL-containing paths
+ */
+export function normalizeEntryPath(entryPath: string): string {
+  if (entryPath.includes('\0')) {
+    throw new ArchiveError(ArchiveErrorCode.UNSAFE_PATH, `Archive entry path contains a NUL byte: ${JSON.stringify(entryPath)}`);
+  }
+
+  // Archives created on Windows may use backslash separators
+  const slashed = entryPath.replace(/\\/g, '/');
+
+  if (slashed.startsWith('/') || /^[a-zA-Z]:/.test(slashed)) {
+    throw new ArchiveError(ArchiveErrorCode.UNSAFE_PATH, `Archive entry path is absolute: ${entryPath}`);
+  }
+
+  if (slashed.split('/').includes('..')) {
+    throw new ArchiveError(ArchiveErrorCode.UNSAFE_PATH, `Archive entry path traverses to a parent directory: ${entryPath}`);
+  }
+
+  const normalized = posix.normalize(slashed).replace(/\/+$/, '');
+
+  if (normalized === '' || normalized === '.') {
+    throw new ArchiveError(ArchiveErrorCode.UNSAFE_PATH, `Archive entry path is empty: ${JSON.stringify(entryPath)}`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Check whether a relative path matches a glob pattern
+ * @param filePath Path relative to the watch directory, with / or \ separators
+ * @param pattern Glob where * and ? match within a path segment and ** across
+ *   segments; patterns without a / are matched against the file name only
+ * @returns True if the path matches
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  const slashed = filePath.replace(/\\/g, '/');
+  const subject = pattern.includes('/') ? slashed : posix.basename(slashed);
+
+  const source = pattern
+    .split(/(\*\*\/?|\*|\?)/)
+    .map((part) => {
+      switch (part) {
+        case '**/':
+          return '(?:.*/)?';
+        case '**':
+          return '.*';
+        case '*':
+          return '[^/]*';
+        case '?':
+          return '[^/]';
+        default:
+          return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`).test(subject);
+}
+
+/**
+ * Get the path a single compressed file decompresses to
+ * @param filePath Compressed file path (e.g. users.csv.gz)
+ * @returns Path without the compression extension (e.g. users.csv); .tgz, .tbz2,
+ *   .txz and .tzst become .tar, and paths without a compression extension are unchanged
+ */
+export function getDecompressedPath(filePath: string): string {
+  return filePath
+    .replace(/\.(tgz|tbz2|txz|tzst)$/i, '.tar')
+    .replace(/\.(gz|bz2|xz|zst|lz4)$/i, '');
+}
@@ -0,0 +1,59 @@
+import type { DatasetRule, SchemaChange, SchemaColumn } from '../types/index.js';
+import { matchesGlob } from './paths.js';
+
+/**
+ * Find the dataset a file belongs to
+ * @param relativePath Path relative to the watch directory
+ * @param rules Dataset rules, first match wins
+ * @returns Dataset of the first matching rule, or else the path without its extension,
+ *   so a file delivered again under the same name is compared with its earlier version
+ */
+export function resolveDataset(relativePath: string, rules: DatasetRule[]): string {
+  const rule = rules.find((rule) => matchesGlob(relativePath, rule.pattern));
+  return rule?.dataset ?? relativePath.replace(/\\/g, '/').replace(/\.[^./]+$/, '');
+}
+
+/**
+ * Compare a schema with the previous schema of its dataset; column order is ignored
+ * @param previous Previous schema
+ * @param current New schema
+ * @returns Added, removed and retyped columns, in the order they appear in the schemas
+ */
+export function compareSchemas(previous: SchemaColumn[], current: SchemaColumn[]): SchemaChange[] {
+  const previousTypes = new Map(previous.map((column) => [column.name, column.type]));
+  const currentNames = new Set(current.map((column) => column.name));
+  const changes: SchemaChange[] = [];
+
+  for (const { name, type } of current) {
+    const previousType = previousTypes.get(name);
+    if (previousType === undefined) {
+      changes.push({ kind: 'added', column: name, type });
+    } else if (previousType !== type) {
+      changes.push({ kind: 'retyped', column: name, previousType, type });
+    }
+  }
+
+  for (const { name, type } of previous) {
+    if (!currentNames.has(name)) {
+      changes.push({ kind: 'removed', column: name, previousType: type });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Describe a schema change for logs and error messages
+ * @param change Schema change
+ * @returns Description (e.g. "price retyped from BIGINT to DOUBLE")
+ */
+export function describeSchemaChange(change: SchemaChange): string {
+  switch (change.kind) {
+    case 'added':
+      return `${change.column} added as ${change.type}`;
+    case 'removed':
+      return `${change.column} (${change.previousType}) removed`;
+    case 'retyped':
+      return `${change.column} retyped from ${change.previousType} to ${change.type}`;
+  }
+}
@@ -0,0 +1,63 @@
+import { ArchiveErrorCode } from '../types/index.js';
+import { ArchiveError } from './errors.js';
+
+/**
+ * Temporary space shared by every job spooling content to disk. Reservations are granted in
+ * the order they were asked for, so a large entry is not starved by a stream of small ones.
+ */
+export class SpoolBudget {
+  private readonly capacity: number;
+  private available: number;
+  private waiters: { bytes: number; grant: () => void }[] = [];
+
+  /**
+   * @param capacity Bytes that may be spooled at once
+   */
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.available = capacity;
+  }
+
+  /**
+   * Reserve temporary space, waiting until earlier reservations are released
+   * @param bytes Bytes to reserve
+   * @param description What is spooled, for the error message
+   * @returns Function releasing the reservation (later calls are ignored)
+   * @throws ArchiveError with code LIMIT_EXCEEDED if the content could never fit
+   */
+  async reserve(bytes: number, description: string): Promise<() => void> {
+    if (bytes > this.capacity) {
+      throw new ArchiveError(
+        ArchiveErrorCode.LIMIT_EXCEEDED,
+        `${description} needs ${bytes} bytes of temporary space, more than MAX_SPOOL_BYTES (${this.capacity})`
+      );
+    }
+
+    if (this.waiters.length > 0 || bytes > this.available) {
+      await new Promise<void>((grant) => this.waiters.push({ bytes, grant }));
+    } else {
+      this.available -= bytes;
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.available += bytes;
+      this.grantWaiting();
+    };
+  }
+
+  /**
+   * Grant waiting reservations, in order, while they fit
+   */
+  private grantWaiting(): void {
+    while (this.waiters.length > 0 && this.waiters[0].bytes <= this.available) {
+      const waiter = this.waiters.shift()!;
+      this.available -= waiter.bytes;
+      waiter.grant();
+    }
+  }
+}
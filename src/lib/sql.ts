@@ -0,0 +1,17 @@
+/**
+ * Quote a value as a SQL string literal
+ * @param value Value
+ * @returns Literal with embedded quotes doubled
+ */
+export function sqlLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Quote a name as a SQL identifier
+ * @param value Name
+ * @returns Identifier with embedded quotes doubled
+ */
+export function sqlIdentifier(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
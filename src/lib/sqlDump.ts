@@ -0,0 +1,769 @@
+import { createWriteStream, type WriteStream } from 'fs';
+import { once } from 'events';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+
+/** A value from a dump: literal text, or null for SQL NULL */
+export type SqlValue = string | null;
+
+export interface SqlColumn {
+  /** Column name */
+  name: string;
+
+  /** DuckDB type mapped from the column definition, or null if the table has no DDL */
+  type: string | null;
+}
+
+export interface SqlTable {
+  /** Table name, schema-qualified unless in the default schema */
+  name: string;
+
+  /** Columns in definition order */
+  columns: SqlColumn[];
+}
+
+export type SqlDumpEvent =
+  | { kind: 'table'; table: SqlTable }
+  | { kind: 'rows'; table: string; columns: string[] | null; rows: SqlValue[][] };
+
+export interface SpooledSqlTable extends SqlTable {
+  /** CSV file holding the table's rows (NULL written as an unquoted \N) */
+  csvPath: string;
+
+  /** Number of rows written */
+  rowCount: number;
+}
+
+type ScanState =
+  | { kind: 'none' }
+  | { kind: 'quote'; char: string; escapes: boolean }
+  | { kind: 'dollar'; tag: string }
+  | { kind: 'block' };
+
+// COPY data arrives one row per line; rows are handed on in batches of this size
+const COPY_BATCH_ROWS = 1000;
+
+// Keywords that start a table constraint rather than a column definition
+const CONSTRAINT_KEYWORDS = /^(primary|key|unique|index|constraint|foreign|check|fulltext|spatial|exclude|like|period)\b/i;
+
+const IDENTIFIER_CHAR = /[A-Za-z0-9_$]/;
+
+// Schemas whose tables are named without a prefix
+const DEFAULT_SCHEMAS = ['public', 'dbo'];
+
+const MYSQL_ESCAPES: Record<string, string> = {
+  '0': '\0',
+  b: '\b',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  Z: '\x1a',
+  // LIKE wildcards keep their backslash
+  '%': '\\%',
+  _: '\\_',
+};
+
+const COPY_ESCAPES: Record<string, string> = {
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+};
+
+/**
+ * Map a column definition from MySQL or PostgreSQL DDL to a DuckDB type
+ * @param definition Column type and constraints (e.g. "int(11) unsigned NOT NULL")
+ * @returns DuckDB type; VARCHAR for anything without a closer match
+ */
+export function mapSqlType(definition: string): string {
+  const type = definition.trim().toLowerCase();
+  const match = /^([a-z_][a-z0-9_]*)\s*(?:\(\s*([^)]*)\))?/.exec(type);
+
+  if (!match || /^[^\s(]+(?:\s*\([^)]*\))?\s*\[/.test(type)) {
+    return 'VARCHAR'; // Unknown syntax or an array type
+  }
+
+  const [, name, args] = match;
+  const unsigned = /\bunsigned\b/.test(type);
+  const [precision, scale] = (args ?? '').split(',').map((arg) => parseInt(arg, 10));
+
+  switch (name) {
+    case 'bool':
+    case 'boolean':
+      return 'BOOLEAN';
+    case 'tinyint':
+      // MySQL spells BOOLEAN as tinyint(1)
+      if (precision === 1) {
+        return 'BOOLEAN';
+      }
+      return unsigned ? 'UTINYINT' : 'TINYINT';
+    case 'smallint':
+    case 'int2':
+    case 'smallserial':
+    case 'year':
+      return unsigned ? 'USMALLINT' : 'SMALLINT';
+    case 'mediumint':
+    case 'int':
+    case 'integer':
+    case 'int4':
+    case 'serial':
+      return unsigned ? 'UINTEGER' : 'INTEGER';
+    case 'bigint':
+    case 'int8':
+    case 'bigserial':
+      return unsigned ? 'UBIGINT' : 'BIGINT';
+    case 'decimal':
+    case 'numeric':
+    case 'dec':
+    case 'fixed':
+      if (precision > 0 && precision <= 38) {
+        return `DECIMAL(${precision},${Number.isNaN(scale) ? 0 : scale})`;
+      }
+      return 'DOUBLE';
+    case 'float':
+      // FLOAT(p) holds a double beyond 24 bits of precision
+      return precision > 24 ? 'DOUBLE' : 'FLOAT';
+    case 'real':
+    case 'float4':
+      return 'FLOAT';
+    case 'double':
+    case 'float8':
+      return 'DOUBLE';
+    case 'date':
+      return 'DATE';
+    case 'datetime':
+      return 'TIMESTAMP';
+    case 'timestamp':
+      return /\bwith time zone\b/.test(type) ? 'TIMESTAMPTZ' : 'TIMESTAMP';
+    case 'timestamptz':
+      return 'TIMESTAMPTZ';
+    case 'time':
+      return /\bwith time zone\b/.test(type) ? 'VARCHAR' : 'TIME';
+    case 'uuid':
+      return 'UUID';
+    default:
+      return 'VARCHAR';
+  }
+}
+
+/**
+ * Read an identifier, possibly qualified and quoted with backticks or double quotes
+ * @param text Statement text
+ * @param start Position to read from
+ * @returns Unquoted name parts and the position after the identifier, or null if none
+ */
+function readIdentifier(text: string, start: number): { parts: string[]; end: number } | null {
+  const parts: string[] = [];
+  let pos = start;
+
+  for (;;) {
+    while (/\s/.test(text[pos] ?? '')) pos++;
+
+    const char = text[pos];
+    if (char === '`' || char === '"') {
+      let name = '';
+      pos++;
+      while (pos < text.length) {
+        if (text[pos] === char) {
+          if (text[pos + 1] === char) {
+            name += char;
+            pos += 2;
+            continue;
+          }
+          break;
+        }
+        name += text[pos++];
+      }
+      parts.push(name);
+      pos++;
+    } else {
+      const match = /^[A-Za-z0-9_$]+/.exec(text.slice(pos, pos + 256));
+      if (!match) {
+        break;
+      }
+      parts.push(match[0]);
+      pos += match[0].length;
+    }
+
+    let next = pos;
+    while (/\s/.test(text[next] ?? '')) next++;
+    if (text[next] !== '.') {
+      break;
+    }
+    pos = next + 1;
+  }
+
+  return parts.length > 0 ? { parts, end: pos } : null;
+}
+
+/**
+ * Name a table from its identifier parts, dropping the default schema
+ * @param parts Identifier parts (e.g. ['public', 'users'])
+ * @returns Table name (e.g. users, or sales.orders)
+ */
+function tableName(parts: string[]): string {
+  return parts.length > 1 && DEFAULT_SCHEMAS.includes(parts[0].toLowerCase())
+    ? parts.slice(1).join('.')
+    : parts.join('.');
+}
+
+/**
+ * Split text at commas outside parentheses and quotes
+ * @param text Text to split (e.g. a CREATE TABLE body)
+ * @returns Trimmed parts
+ */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === '\\' && quote === "'") {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  parts.push(text.slice(start).trim());
+  return parts.filter((part) => part !== '');
+}
+
+/**
+ * Find the parenthesis closing the one at a position
+ * @param text Statement text
+ * @param open Position of the opening parenthesis
+ * @returns Position of the closing parenthesis, or -1 if unbalanced
+ */
+function findClosingParen(text: string, open: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === '\\' && quote === "'") {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Parse a parenthesized, comma-separated column name list
+ * @param text Statement text
+ * @param start Position to read from
+ * @returns Column names and the position after the list, or null if there is no list
+ */
+function readColumnList(text: string, start: number): { columns: string[]; end: number } | null {
+  let pos = start;
+  while (/\s/.test(text[pos] ?? '')) pos++;
+
+  if (text[pos] !== '(') {
+    return null;
+  }
+
+  const close = findClosingParen(text, pos);
+  const columns = splitTopLevel(text.slice(pos + 1, close))
+    .map((column) => readIdentifier(column, 0)?.parts.at(-1) ?? column);
+
+  return { columns, end: close + 1 };
+}
+
+/**
+ * Parse a CREATE TABLE statement
+ * @param statement Statement text, starting at CREATE
+ * @returns Table definition, or null if the statement has no column list
+ */
+function parseCreateTable(statement: string): SqlTable | null {
+  const header = /^CREATE\s+(?:(?:GLOBAL\s+|LOCAL\s+)?(?:TEMPORARY|TEMP|UNLOGGED)\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?/i.exec(statement);
+  const identifier = header && readIdentifier(statement, header[0].length);
+  if (!identifier) {
+    return null;
+  }
+
+  const open = statement.indexOf('(', identifier.end);
+  const close = open === -1 ? -1 : findClosingParen(statement, open);
+  if (close === -1 || statement.slice(identifier.end, open).trim() !== '') {
+    return null; // CREATE TABLE ... AS SELECT, PARTITION OF and the like
+  }
+
+  const columns: SqlColumn[] = [];
+
+  for (const definition of splitTopLevel(statement.slice(open + 1, close))) {
+    if (CONSTRAINT_KEYWORDS.test(definition)) {
+      continue;
+    }
+
+    const column = readIdentifier(definition, 0);
+    if (column) {
+      columns.push({ name: column.parts[0], type: mapSqlType(definition.slice(column.end)) });
+    }
+  }
+
+  return { name: tableName(identifier.parts), columns };
+}
+
+/**
+ * Parse the row tuples of an INSERT statement
+ * @param text Statement text
+ * @param start Position of the first tuple
+ * @param backslashEscapes Whether plain string literals use backslash escapes (MySQL)
+ * @returns Rows of values
+ */
+function parseTuples(text: string, start: number, backslashEscapes: boolean): SqlValue[][] {
+  const rows: SqlValue[][] = [];
+  let pos = start;
+
+  const skipSpace = () => {
+    while (/\s/.test(text[pos] ?? '')) pos++;
+  };
+
+  // Skip an expression up to the next comma or closing parenthesis at this level
+  const skipExpression = (): string => {
+    const from = pos;
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (; pos < text.length; pos++) {
+      const char = text[pos];
+      if (quote) {
+        if (char === '\\' && backslashEscapes) {
+          pos++;
+        } else if (char === quote) {
+          quote = null;
+        }
+      } else if (char === "'" || char === '"') {
+        quote = char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')' || char === ',') {
+        if (depth === 0) {
+          break;
+        }
+        if (char === ')') {
+          depth--;
+        }
+      }
+    }
+
+    return text.slice(from, pos).trim();
+  };
+
+  const readString = (escapes: boolean): string => {
+    let value = '';
+    pos++; // Opening quote
+
+    while (pos < text.length) {
+      const char = text[pos];
+
+      if (char === '\\' && escapes) {
+        const next = text[pos + 1];
+        value += MYSQL_ESCAPES[next] ?? next;
+        pos += 2;
+      } else if (char === "'") {
+        if (text[pos + 1] === "'") {
+          value += "'";
+          pos += 2;
+        } else {
+          pos++;
+          break;
+        }
+      } else {
+        value += char;
+        pos++;
+      }
+    }
+
+    return value;
+  };
+
+  const readValue = (): SqlValue => {
+    skipSpace();
+
+    // Character set introducers (_binary, _utf8mb4) and E'' escape strings
+    const prefix = /^(?:_[A-Za-z0-9]+\s*|[Ee](?='))/.exec(text.slice(pos, pos + 32));
+    const escapes = backslashEscapes || (prefix !== null && /^[Ee]$/.test(prefix[0]));
+    if (prefix && text[pos + prefix[0].length] === "'") {
+      pos += prefix[0].length;
+    }
+
+    if (text[pos] === "'") {
+      const value = readString(escapes);
+      skipExpression(); // PostgreSQL casts such as '2024-01-01'::date
+      return value;
+    }
+
+    const expression = skipExpression();
+    return /^null$/i.test(expression) ? null : expression;
+  };
+
+  for (;;) {
+    skipSpace();
+    if (text[pos] !== '(') {
+      break;
+    }
+    pos++;
+
+    const row: SqlValue[] = [];
+    for (;;) {
+      row.push(readValue());
+      skipSpace();
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      pos++; // Closing parenthesis
+      break;
+    }
+    rows.push(row);
+
+    skipSpace();
+    if (text[pos] !== ',') {
+      break; // End of VALUES, or ON DUPLICATE KEY UPDATE and the like
+    }
+    pos++;
+  }
+
+  return rows;
+}
+
+/**
+ * Decode one field of PostgreSQL COPY text format
+ * @param field Raw field
+ * @returns Decoded value, or null for \N
+ */
+function decodeCopyField(field: string): SqlValue {
+  if (field === '\\N') {
+    return null;
+  }
+
+  return field.replace(/\\(x[0-9a-fA-F]{1,2}|[0-7]{1,3}|.)/g, (_match, escape: string) => {
+    if (escape[0] === 'x' && escape.length > 1) {
+      return String.fromCharCode(parseInt(escape.slice(1), 16));
+    }
+    if (/^[0-7]/.test(escape)) {
+      return String.fromCharCode(parseInt(escape, 8));
+    }
+    return COPY_ESCAPES[escape] ?? escape;
+  });
+}
+
+/**
+ * Parse a MySQL or PostgreSQL plain-text dump as a stream, one line at a time.
+ * Only one statement (for INSERT, typically up to a few MB) is held in memory;
+ * COPY data is handed on in batches as it is read.
+ * @param source Dump content
+ * @yields Table definitions from CREATE TABLE, and rows from INSERT and COPY
+ */
+export async function* parseSqlDump(source: Readable): AsyncGenerator<SqlDumpEvent> {
+  const lines = createInterface({ input: source, crlfDelay: Infinity });
+  const events: SqlDumpEvent[] = [];
+
+  // MySQL escapes with backslashes; pg_dump turns standard_conforming_strings on
+  let backslashEscapes = true;
+  let state: ScanState = { kind: 'none' };
+  let statement = '';
+  // Assigned from the scanning callbacks, so the type is spelled out for the loop below
+  let copy = null as { table: string; columns: string[] | null; rows: SqlValue[][] } | null;
+
+  const handleStatement = (text: string): void => {
+    const trimmed = text.trim();
+
+    if (/^SET\s+standard_conforming_strings\s*=\s*'?on'?$/i.test(trimmed)) {
+      backslashEscapes = false;
+      return;
+    }
+
+    if (/^CREATE\s/i.test(trimmed)) {
+      const table = parseCreateTable(trimmed);
+      if (table) {
+        events.push({ kind: 'table', table });
+      }
+      return;
+    }
+
+    const insert = /^(?:INSERT|REPLACE)\s+(?:(?:LOW_PRIORITY|DELAYED|HIGH_PRIORITY|IGNORE)\s+)*INTO\s+/i.exec(trimmed);
+    if (insert) {
+      const identifier = readIdentifier(trimmed, insert[0].length);
+      if (!identifier) {
+        return;
+      }
+
+      const columnList = readColumnList(trimmed, identifier.end);
+      const values = /^\s*(?:OVERRIDING\s+\w+\s+VALUE\s+)?VALUES?\s*/i.exec(trimmed.slice(columnList?.end ?? identifier.end));
+      if (!values) {
+        return; // INSERT ... SELECT has no literal rows
+      }
+
+      const start = (columnList?.end ?? identifier.end) + values[0].length;
+      events.push({
+        kind: 'rows',
+        table: tableName(identifier.parts),
+        columns: columnList?.columns ?? null,
+        rows: parseTuples(trimmed, start, backslashEscapes),
+      });
+      return;
+    }
+
+    const copyHeader = /^COPY\s+/i.exec(trimmed);
+    if (copyHeader && /\bFROM\s+stdin\b/i.test(trimmed)) {
+      const identifier = readIdentifier(trimmed, copyHeader[0].length);
+      if (identifier) {
+        const columnList = readColumnList(trimmed, identifier.end);
+        copy = { table: tableName(identifier.parts), columns: columnList?.columns ?? null, rows: [] };
+      }
+    }
+  };
+
+  const flushCopy = (): void => {
+    if (copy && copy.rows.length > 0) {
+      events.push({ kind: 'rows', table: copy.table, columns: copy.columns, rows: copy.rows });
+      copy.rows = [];
+    }
+  };
+
+  const scanLine = (line: string): void => {
+    let pos = 0;
+    let sliceStart = 0;
+
+    while (pos < line.length) {
+      if (state.kind === 'quote') {
+        const { char, escapes } = state;
+        while (pos < line.length && line[pos] !== char) {
+          pos += line[pos] === '\\' && escapes ? 2 : 1;
+        }
+        if (pos < line.length) {
+          state = { kind: 'none' };
+          pos++;
+        }
+        continue;
+      }
+
+      if (state.kind === 'dollar') {
+        const end = line.indexOf(state.tag, pos);
+        if (end === -1) {
+          pos = line.length;
+        } else {
+          pos = end + state.tag.length;
+          state = { kind: 'none' };
+        }
+        continue;
+      }
+
+      if (state.kind === 'block') {
+        const end = line.indexOf('*/', pos);
+        pos = end === -1 ? line.length : end + 2;
+        sliceStart = pos;
+        if (end !== -1) {
+          state = { kind: 'none' };
+        }
+        continue;
+      }
+
+      const char = line[pos];
+
+      if (char === "'") {
+        const previous = line[pos - 1] ?? '';
+        const escapeString = /[Ee]/.test(previous) && !IDENTIFIER_CHAR.test(line[pos - 2] ?? '');
+        state = { kind: 'quote', char, escapes: backslashEscapes || escapeString };
+        pos++;
+      } else if (char === '"' || char === '`') {
+        state = { kind: 'quote', char, escapes: false };
+        pos++;
+      } else if (char === '-' && line[pos + 1] === '-') {
+        statement += line.slice(sliceStart, pos);
+        sliceStart = pos = line.length;
+      } else if (char === '/' && line[pos + 1] === '*') {
+        // Also drops MySQL's /*!40101 ... */ version comments
+        statement += line.slice(sliceStart, pos);
+        state = { kind: 'block' };
+        pos += 2;
+      } else if (char === '$' && !IDENTIFIER_CHAR.test(line[pos - 1] ?? '')) {
+        const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(line.slice(pos, pos + 64));
+        if (tag) {
+          state = { kind: 'dollar', tag: tag[0] };
+          pos += tag[0].length;
+        } else {
+          pos++;
+        }
+      } else if (char === ';') {
+        handleStatement(statement + line.slice(sliceStart, pos));
+        statement = '';
+        sliceStart = ++pos;
+
+        // COPY data starts on the next line
+        if (copy) {
+          return;
+        }
+      } else {
+        pos++;
+      }
+    }
+
+    if (state.kind !== 'block') {
+      statement += line.slice(sliceStart);
+    }
+    if (statement !== '' || state.kind === 'quote' || state.kind === 'dollar') {
+      statement += '\n';
+    }
+  };
+
+  for await (const line of lines) {
+    if (copy) {
+      if (line === '\\.') {
+        flushCopy();
+        copy = null;
+      } else {
+        copy.rows.push(line.split('\t').map(decodeCopyField));
+        if (copy.rows.length >= COPY_BATCH_ROWS) {
+          flushCopy();
+        }
+      }
+    } else {
+      scanLine(line);
+    }
+
+    yield* events;
+    events.length = 0;
+  }
+}
+
+/**
+ * Encode a row as a CSV line, quoting every value so only NULL appears unquoted
+ * @param row Values
+ * @returns CSV line including the line break
+ */
+function toCsvLine(row: SqlValue[]): string {
+  return row
+    .map((value) => (value === null ? '\\N' : `"${value.replace(/"/g, '""')}"`))
+    .join(',') + '\n';
+}
+
+/**
+ * Adapt a dump value to the column's DuckDB type
+ * @param value Dump value
+ * @param type DuckDB type, if known
+ * @returns Value DuckDB can cast to the type
+ */
+function normalizeValue(value: SqlValue, type: string | null): SqlValue {
+  if (value === null) {
+    return null;
+  }
+
+  switch (type) {
+    case 'BOOLEAN':
+      return value === '1' ? 'true' : value === '0' ? 'false' : value;
+    case 'DATE':
+    case 'TIMESTAMP':
+    case 'TIMESTAMPTZ':
+      // MySQL's zero dates have no calendar equivalent
+      return value.startsWith('0000-00-00') ? null : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parse a dump and write each table's rows to its own CSV file, so tables can be
+ * converted one at a time without holding the dump in memory
+ * @param source Dump content
+ * @param directory Directory for the CSV files
+ * @returns Tables in order of first appearance, with their CSV files
+ */
+export async function spoolSqlDump(source: Readable, directory: string): Promise<SpooledSqlTable[]> {
+  const tables = new Map<string, SpooledSqlTable>();
+  let writer = null as { table: string; stream: WriteStream } | null;
+
+  const closeWriter = async (): Promise<void> => {
+    if (writer) {
+      const { stream } = writer;
+      writer = null;
+      stream.end();
+      await once(stream, 'finish');
+    }
+  };
+
+  const getTable = (name: string, columns: SqlColumn[]): SpooledSqlTable => {
+    let table = tables.get(name);
+    if (!table) {
+      table = { name, columns, csvPath: join(directory, `${tables.size}.csv`), rowCount: 0 };
+      tables.set(name, table);
+    }
+    return table;
+  };
+
+  try {
+    for await (const event of parseSqlDump(source)) {
+      if (event.kind === 'table') {
+        const table = getTable(event.table.name, event.table.columns);
+        // A later definition (DROP and re-CREATE) replaces the column list
+        if (table.rowCount === 0) {
+          table.columns = event.table.columns;
+        }
+        continue;
+      }
+
+      // Data without DDL: column names from the statement, types inferred later
+      const width = event.rows[0]?.length ?? 0;
+      const table = getTable(
+        event.table,
+        (event.columns ?? Array.from({ length: width }, (_, index) => `column${index}`))
+          .map((name) => ({ name, type: null }))
+      );
+
+      // Rows follow the table's column order, whatever order the statement lists
+      const positions = event.columns
+        ? table.columns.map((column) => event.columns!.indexOf(column.name))
+        : table.columns.map((_, index) => index);
+
+      if (writer?.table !== table.name) {
+        await closeWriter();
+        writer = { table: table.name, stream: createWriteStream(table.csvPath, { flags: 'a' }) };
+      }
+
+      const csv = event.rows
+        .map((row) => toCsvLine(positions.map((position, index) =>
+          normalizeValue(position === -1 ? null : row[position] ?? null, table.columns[index].type)
+        )))
+        .join('');
+
+      table.rowCount += event.rows.length;
+      if (!writer.stream.write(csv)) {
+        await once(writer.stream, 'drain');
+      }
+    }
+  } finally {
+    await closeWriter();
+  }
+
+  return [...tables.values()];
+}
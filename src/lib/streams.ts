@@ -1,8 +1,14 @@
-import { pipeline, Readable, Writable, Transform } from 'stream';
+import { createReadStream, open, constants } from 'fs';
+import { execFile } from 'child_process';
+import { Socket } from 'net';
+import { pipeline, Readable, Writable, Transform, PassThrough } from 'stream';
+import { finished } from 'stream/promises';
 import { promisify } from 'util';
 import { getLogger } from './logger.js';
 
 const pipelineAsync = promisify(pipeline);
+const execFileAsync = promisify(execFile);
+const openAsync = promisify(open);
 
 /**
  * Pipe streams with proper error handling
@@ -64,6 +70,208 @@ export async function streamToBuffer(stream: Readable): Promise<Buffer> {
   return Buffer.concat(chunks);
 }
 
+/**
+ * Read several files as one continuous stream
+ * @param filePaths File paths, in order
+ * @param start Byte offset to start reading the first file at
+ * @returns Readable stream of the files' concatenated content
+ */
+export function concatenateFiles(filePaths: string[], start: number = 0): Readable {
+  async function* read(): AsyncGenerator<Buffer> {
+    for (const [index, filePath] of filePaths.entries()) {
+      yield* createReadStream(filePath, { start: index === 0 ? start : 0 });
+    }
+  }
+
+  return Readable.from(read(), { objectMode: false });
+}
+
+/**
+ * Read the first bytes of a stream without losing them
+ * @param stream Readable stream
+ * @param length Number of bytes to peek
+ * @returns Leading bytes (shorter if the stream is) and a stream replaying the full content
+ */
+export async function peekStream(
+  stream: Readable,
+  length: number
+): Promise<{ header: Buffer; stream: Readable }> {
+  const iterator = stream[Symbol.asyncIterator]();
+  const chunks: Buffer[] = [];
+  let bytesRead = 0;
+  let ended = false;
+
+  while (bytesRead < length) {
+    const { value, done } = await iterator.next();
+    if (done) {
+      ended = true;
+      break;
+    }
+    const chunk = Buffer.isBuffer(value) ? value : Buffer.from(value);
+    chunks.push(chunk);
+    bytesRead += chunk.length;
+  }
+
+  const head = Buffer.concat(chunks);
+
+  async function* replay(): AsyncGenerator<Buffer> {
+    if (head.length > 0) {
+      yield head;
+    }
+    if (!ended) {
+      yield* { [Symbol.asyncIterator]: () => iterator };
+    }
+  }
+
+  return {
+    header: head.subarray(0, length),
+    stream: Readable.from(replay(), { objectMode: false }),
+  };
+}
+
+/**
+ * Split a stream of concatenated payloads into one stream per payload
+ * @param source Readable stream (or async iterable of chunks) of concatenated payloads
+ * @param sizes Byte length of each payload, in order
+ * @yields Readable stream per payload; any unread remainder is drained when the next one is requested
+ */
+export async function* splitStream(
+  source: AsyncIterable<Buffer | Uint8Array>,
+  sizes: number[]
+): AsyncGenerator<Readable> {
+  const iterator = source[Symbol.asyncIterator]();
+  let leftover: Buffer | null = null;
+
+  const nextChunk = async (): Promise<Buffer> => {
+    if (leftover) {
+      const chunk = leftover;
+      leftover = null;
+      return chunk;
+    }
+
+    const { value, done } = await iterator.next();
+    if (done) {
+      throw new Error('Stream ended before all payloads were read');
+    }
+    return Buffer.isBuffer(value) ? value : Buffer.from(value);
+  };
+
+  // Set when the consumer stops iterating; the source is torn down then and
+  // the in-flight part must not turn that into an unhandled stream error
+  let abandoned = false;
+
+  try {
+    for (const size of sizes) {
+      const part = new PassThrough();
+
+      const pump = (async () => {
+        let remaining = size;
+
+        while (remaining > 0) {
+          let chunk = await nextChunk();
+          if (chunk.length > remaining) {
+            leftover = chunk.subarray(remaining);
+            chunk = chunk.subarray(0, remaining);
+          }
+          remaining -= chunk.length;
+
+          // Keep reading the source even if the consumer gave up on this part,
+          // otherwise the following payloads would be misaligned
+          if (!part.destroyed && !part.write(chunk)) {
+            await new Promise<void>((resolve) => {
+              const done = () => {
+                part.off('drain', done);
+                part.off('close', done);
+                resolve();
+              };
+              part.on('drain', done);
+              part.on('close', done);
+            });
+          }
+        }
+
+        part.end();
+      })();
+
+      pump.catch((error: Error) => part.destroy(abandoned ? undefined : error));
+
+      yield part;
+
+      if (!part.readableEnded) {
+        part.resume();
+      }
+      await pump;
+    }
+  } finally {
+    abandoned = true;
+  }
+}
+
+/**
+ * Create a named pipe (FIFO), through which another writer, e.g. DuckDB, can hand over a file
+ * without it ever being written to disk
+ * @param path Path of the pipe
+ */
+export async function createFifo(path: string): Promise<void> {
+  await execFileAsync('mkfifo', ['-m', '600', path]);
+}
+
+/**
+ * Open the read side of a named pipe. The pipe is opened non-blocking, so no thread waits
+ * for the writer, and the stream ends once the writer closes its side.
+ * @param path Path of the pipe
+ * @returns Readable stream of what is written to the pipe; destroying it closes the pipe,
+ *   failing further writes with EPIPE
+ */
+export async function openFifo(path: string): Promise<Readable> {
+  const fd = await openAsync(path, constants.O_RDONLY | constants.O_NONBLOCK);
+  return new Socket({ fd, readable: true, writable: false });
+}
+
+/**
+ * Run a writer, e.g. a DuckDB COPY, writing into a named pipe while a consumer reads what is
+ * written. The consumer's stream only ends once the writer succeeded; if the writer fails the
+ * stream is destroyed with its error, so a multipart upload reading it is aborted rather than
+ * completed. If the consumer fails the pipe is closed, which fails the writer with EPIPE.
+ * @param write Starts the writer and resolves once it has finished
+ * @param path Path of the pipe (see createFifo)
+ * @param consume Consumer of the pipe's content, e.g. an upload
+ * @throws The first error of the writer or the consumer
+ */
+export async function streamThroughFifo(
+  write: () => Promise<void>,
+  path: string,
+  consume: (stream: Readable) => Promise<void>
+): Promise<void> {
+  const pipe = await openFifo(path);
+  const output = new PassThrough();
+  pipe.on('error', (error) => output.destroy(error));
+  pipe.pipe(output, { end: false });
+
+  let failure = null as unknown;
+  const consuming = consume(output).catch((error) => {
+    failure ??= error;
+    pipe.destroy();
+    // Nobody reads the stream any more, so a later writer error must not be emitted on it
+    output.destroy();
+  });
+
+  try {
+    await write();
+    await finished(pipe);
+    output.end();
+  } catch (error) {
+    failure ??= error;
+    pipe.destroy();
+    output.destroy(error as Error);
+  }
+
+  await consuming;
+  if (failure) {
+    throw failure;
+  }
+}
+
 /**
  * Create a pass-through stream that logs data flow
  * @param label Label for logging
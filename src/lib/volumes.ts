@@ -0,0 +1,130 @@
+import { open } from 'fs/promises';
+import { isArchiveFile } from '../types/index.js';
+
+/**
+ * How an archive was split into volumes:
+ * - numbered: dump.zip.001, dump.zip.002... (7-Zip, split -d)
+ * - lettered: dump.tar.gz.aa, dump.tar.gz.ab... (split -b)
+ * - zip-split: dump.z01, dump.z02... dump.zip (spanned ZIP, the .zip is last)
+ * - rar-parts: dump.part1.rar, dump.part2.rar...
+ */
+export type VolumeScheme = 'numbered' | 'lettered' | 'zip-split' | 'rar-parts';
+
+export interface VolumeName {
+  /** Path of the logical archive the volume belongs to (e.g. /data/dump.zip) */
+  setPath: string;
+
+  /** How the archive was split */
+  scheme: VolumeScheme;
+
+  /** Position of the volume within its set */
+  number: number;
+}
+
+// Bytes searched from the end of a ZIP for its end of central directory record
+const EOCD_SEARCH_BYTES = 22 + 0xffff;
+
+/**
+ * Recognize a volume of a split archive from its file name
+ * @param filePath File path
+ * @returns Set path, scheme and volume number, or null if the name is not a
+ *   volume of a split archive. The last volume of a spanned ZIP is named like
+ *   any other ZIP; see readZipDiskNumber.
+ */
+export function parseVolumeName(filePath: string): VolumeName | null {
+  const rarPart = /^(.*)\.part(\d+)\.rar$/i.exec(filePath);
+  if (rarPart) {
+    return { setPath: `${rarPart[1]}.rar`, scheme: 'rar-parts', number: parseInt(rarPart[2], 10) };
+  }
+
+  // dump.tar.gz would otherwise read as piece "gz" of dump.tar
+  if (isArchiveFile(filePath)) {
+    return null;
+  }
+
+  const zipSplit = /^(.*)\.z(\d{2,})$/i.exec(filePath);
+  if (zipSplit) {
+    return { setPath: `${zipSplit[1]}.zip`, scheme: 'zip-split', number: parseInt(zipSplit[2], 10) };
+  }
+
+  // Only pieces of archives are grouped; report.001 is left alone. split -d
+  // and 7-Zip number with two and three digits, so backup.tar.2024 is not a piece
+  const numbered = /^(.*)\.(\d{2,3})$/.exec(filePath);
+  if (numbered && isArchiveFile(numbered[1])) {
+    return { setPath: numbered[1], scheme: 'numbered', number: parseInt(numbered[2], 10) };
+  }
+
+  // Any two-letter extension matches (data.zip.js); FileMonitor only treats the
+  // pieces as a set once they run from .aa without gaps
+  const lettered = /^(.*)\.([a-z])([a-z])$/.exec(filePath);
+  if (lettered && isArchiveFile(lettered[1])) {
+    const number = (lettered[2].charCodeAt(0) - 0x61) * 26 + (lettered[3].charCodeAt(0) - 0x61);
+    return { setPath: lettered[1], scheme: 'lettered', number };
+  }
+
+  return null;
+}
+
+/**
+ * Find the volumes still missing from a split archive
+ * @param scheme How the archive was split
+ * @param numbers Numbers of the volumes present
+ * @param lastNumber Number of the last volume, if known
+ * @returns Missing volume numbers, in order; empty if the present volumes are contiguous
+ */
+export function findMissingVolumes(scheme: VolumeScheme, numbers: number[], lastNumber?: number): number[] {
+  if (numbers.length === 0) {
+    return [];
+  }
+
+  // split -d counts from 0, 7-Zip from 001
+  const first = scheme === 'lettered' || (scheme === 'numbered' && numbers.includes(0)) ? 0 : 1;
+  const last = lastNumber ?? Math.max(...numbers);
+  const present = new Set(numbers);
+  const missing: number[] = [];
+
+  for (let number = first; number <= last; number++) {
+    if (!present.has(number)) {
+      missing.push(number);
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Read the disk number of a ZIP file's end of central directory record
+ * @param filePath ZIP file path
+ * @returns Zero-based number of the disk holding the record (0 for an
+ *   unsplit ZIP, the .zip's volume number for a spanned one), or null if no
+ *   record is found
+ */
+export async function readZipDiskNumber(filePath: string): Promise<number | null> {
+  const handle = await open(filePath, 'r');
+
+  try {
+    const { size } = await handle.stat();
+    const length = Math.min(size, EOCD_SEARCH_BYTES);
+    const tail = Buffer.alloc(length);
+    await handle.read(tail, 0, length, size - length);
+
+    for (let i = length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) !== 0x06054b50) {
+        continue;
+      }
+
+      const diskNumber = tail.readUInt16LE(i + 4);
+
+      // ZIP64 keeps the real value in the locator that precedes the record
+      if (diskNumber === 0xffff && i >= 20 && tail.readUInt32LE(i - 20) === 0x07064b50) {
+        return tail.readUInt32LE(i - 20 + 16) - 1;
+      }
+
+      return diskNumber;
+    }
+
+    return null;
+  } finally {
+    await handle.close();
+  }
+}
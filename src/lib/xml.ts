@@ -0,0 +1,340 @@
+import { createWriteStream } from 'fs';
+import { once } from 'events';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import sax from 'sax';
+import { ConversionErrorCode } from '../types/index.js';
+import { ConversionError } from './errors.js';
+
+export interface XmlPathStats {
+  /** Number of elements at this path */
+  count: number;
+
+  /** Whether a single parent ever holds more than one element at this path */
+  repeats: boolean;
+
+  /** Whether an element at this path ever has attributes or child elements */
+  structured: boolean;
+}
+
+/** Element statistics keyed by slash-separated path of local names (e.g. /orders/order/item) */
+export type XmlStructure = Map<string, XmlPathStats>;
+
+/** A flattened record: scalars, lists of scalars, or lists of flattened items */
+type XmlRecord = { [key: string]: XmlRecordValue };
+type XmlRecordValue = string | null | XmlRecord | XmlRecordValue[];
+
+interface RecordFrame {
+  /** Element path */
+  path: string;
+
+  /** Object receiving this element's attributes, text and single children */
+  target: XmlRecord;
+
+  /** Column name prefix for attributes and single children */
+  prefix: string;
+
+  /** Column name for the element's text */
+  textKey: string;
+
+  /** List receiving the element's text, for repeated elements without structure */
+  list: XmlRecordValue[] | null;
+
+  /** Text content collected so far */
+  text: string;
+}
+
+// Text that is written to the JSON records as a number rather than a string;
+// leading zeros are kept as strings so identifiers like 007 survive
+const JSON_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/**
+ * Strip the namespace prefix from an element or attribute name
+ * @param name Qualified name
+ * @returns Local name
+ */
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+/**
+ * Check whether an attribute declares a namespace rather than holding data
+ * @param name Attribute name
+ * @returns True for xmlns and xmlns:prefix
+ */
+function isNamespaceDeclaration(name: string): boolean {
+  return name === 'xmlns' || name.startsWith('xmlns:');
+}
+
+/**
+ * Join a column prefix and a name
+ * @param prefix Column prefix, empty at the top of a record or list item
+ * @param name Element or attribute name
+ * @returns Column name
+ */
+function columnName(prefix: string, name: string): string {
+  return prefix === '' ? name : `${prefix}_${name}`;
+}
+
+/**
+ * Feed a stream through a SAX parser
+ * @param source XML content (UTF-8)
+ * @param parser Parser with its handlers set
+ * @param afterChunk Called after each chunk is parsed, before the next one is read
+ */
+async function feedParser(
+  source: Readable,
+  parser: sax.SAXParser,
+  afterChunk?: () => Promise<void>
+): Promise<void> {
+  // Chunks can split multi-byte characters
+  const decoder = new StringDecoder('utf8');
+
+  for await (const chunk of source) {
+    parser.write(decoder.write(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)));
+    await afterChunk?.();
+  }
+
+  parser.write(decoder.end());
+  parser.close();
+}
+
+/**
+ * Walk an XML document and collect statistics for every element path
+ * @param source XML content (UTF-8)
+ * @returns Statistics per element path, in document order of first appearance
+ * @throws Error if the document is not well-formed
+ */
+export async function analyzeXml(source: Readable): Promise<XmlStructure> {
+  const structure: XmlStructure = new Map();
+  const stack: Array<{ path: string; childCounts: Map<string, number> }> = [];
+  const parser = sax.parser(true);
+
+  parser.onopentag = (tag) => {
+    const name = localName(tag.name);
+    const parent = stack[stack.length - 1];
+    const path = `${parent?.path ?? ''}/${name}`;
+
+    let stats = structure.get(path);
+    if (!stats) {
+      stats = { count: 0, repeats: false, structured: false };
+      structure.set(path, stats);
+    }
+
+    stats.count++;
+    if (Object.keys(tag.attributes).some((attribute) => !isNamespaceDeclaration(attribute))) {
+      stats.structured = true;
+    }
+
+    if (parent) {
+      structure.get(parent.path)!.structured = true;
+
+      const siblings = (parent.childCounts.get(name) ?? 0) + 1;
+      parent.childCounts.set(name, siblings);
+      if (siblings > 1) {
+        stats.repeats = true;
+      }
+    }
+
+    stack.push({ path, childCounts: new Map() });
+  };
+
+  parser.onclosetag = () => {
+    stack.pop();
+  };
+
+  await feedParser(source, parser);
+  return structure;
+}
+
+/**
+ * Choose the path of the element that holds one record each
+ * @param structure Statistics from analyzeXml
+ * @param recordElement Configured record element name; auto-detected when omitted
+ * @returns Record element path: the shallowest path with the configured name, or else
+ *   the shallowest repeating path (most frequent on ties)
+ * @throws Error if the configured element does not occur or the document is empty
+ * @throws ConversionError with code NO_RECORD_ELEMENT if no element repeats, as reading the
+ *   document element as the only record would hold the whole document in memory
+ */
+export function findRecordPath(structure: XmlStructure, recordElement?: string): string {
+  const depth = (path: string) => path.split('/').length;
+  let best: [string, XmlPathStats] | null = null;
+
+  for (const [path, stats] of structure) {
+    const candidate = recordElement !== undefined
+      ? path.slice(path.lastIndexOf('/') + 1) === localName(recordElement)
+      : stats.repeats;
+
+    if (candidate && (
+      !best ||
+      depth(path) < depth(best[0]) ||
+      (depth(path) === depth(best[0]) && stats.count > best[1].count)
+    )) {
+      best = [path, stats];
+    }
+  }
+
+  if (best) {
+    return best[0];
+  }
+
+  if (recordElement !== undefined) {
+    throw new Error(`XML record element <${recordElement}> not found`);
+  }
+
+  const [root] = structure.keys();
+  if (root === undefined) {
+    throw new Error('XML document has no elements');
+  }
+  throw new ConversionError(
+    ConversionErrorCode.NO_RECORD_ELEMENT,
+    `XML document <${root.slice(1)}> has no repeating element to read as records; name one in XML_RECORD_ELEMENTS`
+  );
+}
+
+/**
+ * Encode a record value as JSON, writing numeric and boolean text unquoted so the
+ * reader can infer column types; the text is copied as-is, so large integers keep
+ * their precision
+ * @param value Record value
+ * @returns JSON text
+ */
+function toJson(value: XmlRecordValue): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'string') {
+    return JSON_NUMBER.test(value) || value === 'true' || value === 'false' ? value : JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(toJson).join(',')}]`;
+  }
+  return `{${Object.entries(value).map(([key, item]) => `${JSON.stringify(key)}:${toJson(item)}`).join(',')}}`;
+}
+
+/**
+ * Flatten each record element into a JSON line. Attributes and single child elements
+ * become columns named by their path below the record (address_city, price_currency);
+ * elements that repeat within a parent become list columns, of scalars or of
+ * flattened items (whose own text is stored as "value")
+ * @param source XML content (UTF-8)
+ * @param structure Statistics from analyzeXml for the same content
+ * @param recordPath Record element path from findRecordPath
+ * @param outputPath Newline-delimited JSON file to write
+ * @returns Number of records written
+ */
+export async function spoolXmlRecords(
+  source: Readable,
+  structure: XmlStructure,
+  recordPath: string,
+  outputPath: string
+): Promise<number> {
+  const output = createWriteStream(outputPath);
+  const parser = sax.parser(true);
+  const pending: string[] = [];
+  const frames: RecordFrame[] = [];
+  let path = '';
+  let recordCount = 0;
+
+  const setAttributes = (frame: RecordFrame, attributes: Record<string, string | sax.QualifiedAttribute>) => {
+    for (const [name, attribute] of Object.entries(attributes)) {
+      if (isNamespaceDeclaration(name)) {
+        continue;
+      }
+      frame.target[columnName(frame.prefix, localName(name))] =
+        typeof attribute === 'string' ? attribute : attribute.value;
+    }
+  };
+
+  parser.onopentag = (tag) => {
+    path = `${path}/${localName(tag.name)}`;
+
+    if (frames.length === 0) {
+      if (path !== recordPath) {
+        return;
+      }
+      const record: XmlRecord = {};
+      frames.push({ path, target: record, prefix: '', textKey: 'value', list: null, text: '' });
+      setAttributes(frames[0], tag.attributes);
+      return;
+    }
+
+    const parent = frames[frames.length - 1];
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    const stats = structure.get(path)!;
+    const key = columnName(parent.prefix, name);
+
+    if (!stats.repeats) {
+      const frame: RecordFrame = { path, target: parent.target, prefix: key, textKey: key, list: null, text: '' };
+      frames.push(frame);
+      setAttributes(frame, tag.attributes);
+      return;
+    }
+
+    if (!Array.isArray(parent.target[key])) {
+      parent.target[key] = [];
+    }
+    const list = parent.target[key] as XmlRecordValue[];
+
+    if (stats.structured) {
+      const item: XmlRecord = {};
+      list.push(item);
+      const frame: RecordFrame = { path, target: item, prefix: '', textKey: 'value', list: null, text: '' };
+      frames.push(frame);
+      setAttributes(frame, tag.attributes);
+    } else {
+      frames.push({ path, target: parent.target, prefix: key, textKey: key, list, text: '' });
+    }
+  };
+
+  const ontext = (text: string) => {
+    if (frames.length > 0) {
+      frames[frames.length - 1].text += text;
+    }
+  };
+  parser.ontext = ontext;
+  parser.oncdata = ontext;
+
+  parser.onclosetag = () => {
+    path = path.slice(0, path.lastIndexOf('/'));
+
+    // Every element inside a record has a frame, so an empty stack means outside any record
+    const frame = frames.pop();
+    if (!frame) {
+      return;
+    }
+
+    const text = frame.text.trim();
+
+    if (frame.list) {
+      frame.list.push(text === '' ? null : text);
+    } else if (text !== '') {
+      frame.target[frame.textKey] = text;
+    } else if (!structure.get(frame.path)!.structured && !(frame.textKey in frame.target)) {
+      // Empty leaf elements still produce their column
+      frame.target[frame.textKey] = null;
+    }
+
+    if (frames.length === 0) {
+      pending.push(`${toJson(frame.target)}\n`);
+      recordCount++;
+    }
+  };
+
+  const flush = async () => {
+    if (pending.length > 0 && !output.write(pending.splice(0).join(''))) {
+      await once(output, 'drain');
+    }
+  };
+
+  try {
+    await feedParser(source, parser, flush);
+    await flush();
+  } finally {
+    output.end();
+    await once(output, 'close');
+  }
+
+  return recordCount;
+}
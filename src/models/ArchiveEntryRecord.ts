@@ -0,0 +1,96 @@
+import { ProcessingStatus } from '../types/index.js';
+
+export interface ArchiveEntryRecord {
+  /** Auto-increment primary key */
+  id?: number;
+
+  /** Absolute path of the archive containing the entry */
+  archivePath: string;
+
+  /** SHA256 hash of the archive (entries of a modified archive are not reused) */
+  archiveChecksum: string;
+
+  /** Normalized entry path within the archive (UNIQUE per archive) */
+  entryPath: string;
+
+  /** Current processing state */
+  status: ProcessingStatus;
+
+  /** Uploaded size in bytes */
+  sizeBytes: number | null;
+
+  /** SHA256 hash of the uploaded content */
+  checksum: string | null;
+
+  /** S3 object key where the entry was uploaded */
+  s3Key: string | null;
+
+  /** S3 keys of every object uploaded for the entry (e.g. the parts of a split output) */
+  s3Keys: string[] | null;
+
+  /** ETag returned by S3 for the upload */
+  etag: string | null;
+
+  /** Unix timestamp when record created */
+  createdAt: number;
+
+  /** Unix timestamp of last update */
+  updatedAt: number;
+}
+
+export function createArchiveEntryRecord(
+  archivePath: string,
+  archiveChecksum: string,
+  entryPath: string,
+  status: ProcessingStatus = ProcessingStatus.PENDING
+): ArchiveEntryRecord {
+  const now = Math.floor(Date.now() / 1000);
+
+  return {
+    archivePath,
+    archiveChecksum,
+    entryPath,
+    status,
+    sizeBytes: null,
+    checksum: null,
+    s3Key: null,
+    s3Keys: null,
+    etag: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Database row type (from SQLite)
+export interface ArchiveEntryRecordRow {
+  id: number;
+  archive_path: string;
+  archive_checksum: string;
+  entry_path: string;
+  status: string;
+  size_bytes: number | null;
+  checksum: string | null;
+  s3_key: string | null;
+  s3_keys: string | null;
+  etag: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+// Convert database row to model
+export function rowToArchiveEntryRecord(row: ArchiveEntryRecordRow): ArchiveEntryRecord {
+  return {
+    id: row.id,
+    archivePath: row.archive_path,
+    archiveChecksum: row.archive_checksum,
+    entryPath: row.entry_path,
+    status: row.status as ProcessingStatus,
+    sizeBytes: row.size_bytes,
+    checksum: row.checksum,
+    s3Key: row.s3_key,
+    s3Keys: row.s3_keys ? JSON.parse(row.s3_keys) as string[] : null,
+    etag: row.etag,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,71 @@
+/** Object name of the manifest under an archive's S3 prefix */
+export const MANIFEST_FILE_NAME = '_manifest.json';
+
+export type ManifestEntryStatus = 'uploaded' | 'converted' | 'skipped' | 'failed';
+
+export interface ManifestEntry {
+  /** Entry path within the archive (nested entries include their archive's prefix) */
+  path: string;
+
+  /** Uncompressed size in bytes (null if the entry failed before it was read) */
+  size: number | null;
+
+  /** SHA256 of the uncompressed entry content */
+  checksum: string | null;
+
+  /** Modification time recorded in the archive (ISO 8601) */
+  modifiedAt: string | null;
+
+  /** S3 object key the entry was uploaded to */
+  s3Key: string | null;
+
+  /**
+   * uploaded: uploaded as-is; converted: uploaded as Parquet; skipped: already
+   * uploaded by an earlier attempt; failed: processing failed
+   */
+  status: ManifestEntryStatus;
+
+  /** Error message if status is 'failed' */
+  error?: string;
+}
+
+export interface ArchiveManifest {
+  /** Archive path relative to the monitored directory */
+  archive: string;
+
+  /** SHA256 of the archive file */
+  archiveChecksum: string | null;
+
+  /** Archive size in bytes */
+  archiveSize: number;
+
+  /** False if processing stopped before every entry was read */
+  complete: boolean;
+
+  /** Number of entries listed below */
+  entryCount: number;
+
+  /** Entries in archive order */
+  entries: ManifestEntry[];
+
+  /** When the manifest was written (ISO 8601) */
+  createdAt: string;
+}
+
+export function createArchiveManifest(
+  archive: string,
+  archiveChecksum: string | null,
+  archiveSize: number,
+  entries: ManifestEntry[],
+  complete: boolean
+): ArchiveManifest {
+  return {
+    archive,
+    archiveChecksum,
+    archiveSize,
+    complete,
+    entryCount: entries.length,
+    entries,
+    createdAt: new Date().toISOString(),
+  };
+}
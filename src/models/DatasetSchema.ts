@@ -0,0 +1,47 @@
+import type { SchemaColumn } from '../types/index.js';
+
+export interface DatasetSchema {
+  /** Auto-increment primary key */
+  id?: number;
+
+  /** Dataset the file belongs to */
+  dataset: string;
+
+  /** Path of the converted file relative to the watch directory */
+  sourcePath: string;
+
+  /** Columns of the uploaded Parquet file */
+  columns: SchemaColumn[];
+
+  /** Unix timestamp when record created */
+  createdAt: number;
+}
+
+export function createDatasetSchema(dataset: string, sourcePath: string, columns: SchemaColumn[]): DatasetSchema {
+  return {
+    dataset,
+    sourcePath,
+    columns,
+    createdAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+// Database row type (from SQLite)
+export interface DatasetSchemaRow {
+  id: number;
+  dataset: string;
+  source_path: string;
+  columns: string;
+  created_at: number;
+}
+
+// Convert database row to model
+export function rowToDatasetSchema(row: DatasetSchemaRow): DatasetSchema {
+  return {
+    id: row.id,
+    dataset: row.dataset,
+    sourcePath: row.source_path,
+    columns: JSON.parse(row.columns) as SchemaColumn[],
+    createdAt: row.created_at,
+  };
+}
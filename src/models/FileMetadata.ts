@@ -1,4 +1,4 @@
-import { FileType } from '../types/index.js';
+import { FileType, FileFormat } from '../types/index.js';
 
 export interface FileMetadata {
   /** Absolute file path */
@@ -16,6 +16,9 @@ export interface FileMetadata {
   /** File extension (e.g., '.csv', '.zip') */
   extension: string;
 
+  /** Format detected from the file's leading bytes (null if unrecognized) */
+  format: FileFormat | null;
+
   /** SHA256 hash of file contents (calculated lazily) */
   checksum?: string;
 
@@ -24,6 +27,9 @@ export interface FileMetadata {
 
   /** When file was detected by monitor */
   detectedAt: Date;
+
+  /** Volume paths, in order, when the file is a split archive reassembled from several pieces */
+  volumes?: string[];
 }
 
 export function createFileMetadata(
@@ -32,7 +38,9 @@ export function createFileMetadata(
   size: number,
   type: FileType,
   extension: string,
-  modifiedAt: Date
+  modifiedAt: Date,
+  format: FileFormat | null = null,
+  volumes?: string[]
 ): FileMetadata {
   return {
     path,
@@ -40,7 +48,9 @@ export function createFileMetadata(
     size,
     type,
     extension,
+    format,
     modifiedAt,
     detectedAt: new Date(),
+    ...(volumes ? { volumes } : {}),
   };
 }
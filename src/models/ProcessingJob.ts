@@ -29,6 +29,9 @@ export interface ProcessingJob {
 
   /** Error if processing failed */
   error: Error | null;
+
+  /** S3 keys of every object uploaded for the file */
+  s3Keys: string[];
 }
 
 export function createProcessingJob(file: FileMetadata): ProcessingJob {
@@ -42,6 +45,7 @@ export function createProcessingJob(file: FileMetadata): ProcessingJob {
     startTime: new Date(),
     endTime: null,
     error: null,
+    s3Keys: [],
   };
 }
 
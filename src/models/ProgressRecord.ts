@@ -1,4 +1,4 @@
-import { ProcessingStatus } from '../types/index.js';
+import { ProcessingStatus, type ColumnRule, type CsvDialect } from '../types/index.js';
 
 export interface ProgressRecord {
   /** Auto-increment primary key */
@@ -19,12 +19,27 @@ export interface ProgressRecord {
   /** SHA256 hash (for change detection) */
   checksum: string | null;
 
-  /** S3 object key where file was uploaded */
+  /** S3 object key where file was uploaded (the prefix, ending in /, of a file uploaded as several objects) */
   s3Key: string | null;
 
+  /** S3 keys of every object uploaded for the file (parts, partitions, tables, rejects, manifest...) */
+  s3Keys: string[] | null;
+
   /** Error details if status is 'failed' */
   errorMessage: string | null;
 
+  /** Error classification if status is 'failed' (e.g. 'unsafe_path') */
+  errorCode: string | null;
+
+  /** Index of the configured ZIP password that decrypted the file (never the password itself) */
+  passwordIndex: number | null;
+
+  /** CSV dialect the file was converted with (sniffed, then overridden by config) */
+  csvDialect: CsvDialect | null;
+
+  /** Column rule the file was converted with (see COLUMN_RULES_FILE) */
+  columnRule: ColumnRule | null;
+
   /** Unix timestamp when record created */
   createdAt: number;
 
@@ -45,7 +60,12 @@ export function createProgressRecord(
     processedBytes: null,
     checksum: null,
     s3Key: null,
+    s3Keys: null,
     errorMessage: null,
+    errorCode: null,
+    passwordIndex: null,
+    csvDialect: null,
+    columnRule: null,
     createdAt: now,
     updatedAt: now,
   };
@@ -60,7 +80,12 @@ export interface ProgressRecordRow {
   processed_bytes: number | null;
   checksum: string | null;
   s3_key: string | null;
+  s3_keys: string | null;
   error_message: string | null;
+  error_code: string | null;
+  password_index: number | null;
+  csv_dialect: string | null;
+  column_rule: string | null;
   created_at: number;
   updated_at: number;
 }
@@ -75,7 +100,12 @@ export function rowToProgressRecord(row: ProgressRecordRow): ProgressRecord {
     processedBytes: row.processed_bytes,
     checksum: row.checksum,
     s3Key: row.s3_key,
+    s3Keys: row.s3_keys ? JSON.parse(row.s3_keys) as string[] : null,
     errorMessage: row.error_message,
+    errorCode: row.error_code,
+    passwordIndex: row.password_index,
+    csvDialect: row.csv_dialect ? JSON.parse(row.csv_dialect) as CsvDialect : null,
+    columnRule: row.column_rule ? JSON.parse(row.column_rule) as ColumnRule : null,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -0,0 +1,58 @@
+import type { SchemaChange, SchemaDriftPolicy } from '../types/index.js';
+
+export interface SchemaDriftEvent {
+  /** Auto-increment primary key */
+  id?: number;
+
+  /** Dataset the file belongs to */
+  dataset: string;
+
+  /** Path of the drifting file relative to the watch directory */
+  sourcePath: string;
+
+  /** Differences from the dataset's previous schema */
+  changes: SchemaChange[];
+
+  /** Policy applied to the file */
+  policy: SchemaDriftPolicy;
+
+  /** Unix timestamp when record created */
+  createdAt: number;
+}
+
+export function createSchemaDriftEvent(
+  dataset: string,
+  sourcePath: string,
+  changes: SchemaChange[],
+  policy: SchemaDriftPolicy
+): SchemaDriftEvent {
+  return {
+    dataset,
+    sourcePath,
+    changes,
+    policy,
+    createdAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+// Database row type (from SQLite)
+export interface SchemaDriftEventRow {
+  id: number;
+  dataset: string;
+  source_path: string;
+  changes: string;
+  policy: string;
+  created_at: number;
+}
+
+// Convert database row to model
+export function rowToSchemaDriftEvent(row: SchemaDriftEventRow): SchemaDriftEvent {
+  return {
+    id: row.id,
+    dataset: row.dataset,
+    sourcePath: row.source_path,
+    changes: JSON.parse(row.changes) as SchemaChange[],
+    policy: row.policy as SchemaDriftPolicy,
+    createdAt: row.created_at,
+  };
+}
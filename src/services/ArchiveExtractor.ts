@@ -1,8 +1,36 @@
-import { createReadStream } from 'fs';
-import { Readable } from 'stream';
+import { createReadStream, createWriteStream } from 'fs';
+import { rm, stat } from 'fs/promises';
+import { Readable, Duplex, Transform, pipeline } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import { join, extname, basename } from 'path';
+import { tmpdir } from 'os';
+import { randomUUID } from 'crypto';
 import * as unzipper from 'unzipper';
 import * as tar from 'tar-stream';
-import { createGunzip, createBrotliDecompress } from 'zlib';
+import type { ArchiveConfig } from '../types/index.js';
+import { ArchiveErrorCode, FileFormat, FileType, getFileType } from '../types/index.js';
+import { ArchiveError } from '../lib/errors.js';
+import { normalizeEntryPath, getDecompressedPath } from '../lib/paths.js';
+import { createDecompressor, type CompressionType } from '../lib/compression.js';
+import {
+  listSevenZipEntries,
+  streamSevenZipContents,
+  testSevenZipPassword,
+  listRarEntries,
+  streamRarContents,
+  type ToolEntry,
+  type ToolOutput,
+} from '../lib/archiveTools.js';
+import { splitStream, peekStream, concatenateFiles } from '../lib/streams.js';
+import {
+  detectFormat,
+  detectFileFormat,
+  readFileHeader,
+  isEncryptedZipHeader,
+  isSpannedZipHeader,
+  SIGNATURE_BYTES,
+} from '../lib/magic.js';
+import { calculateStreamCrc32 } from '../lib/checksum.js';
 import { createChildLogger } from '../lib/logger.js';
 
 export interface ArchiveEntry {
@@ -17,30 +45,121 @@ export interface ArchiveEntry {
 
   /** Whether this is a directory */
   isDirectory: boolean;
+
+  /** Last modification time recorded in the archive (if known) */
+  modifiedAt?: Date;
+
+  /** Format detected from the entry's leading bytes (null if unrecognized) */
+  format?: FileFormat | null;
+
+  /** Whether this entry is the decompressed content of a single compressed file (.gz, .bz2, .xz, .zst, .lz4) */
+  compressedFile?: boolean;
+
+  /** Index of the configured password that decrypted the entry's archive (if encrypted) */
+  passwordIndex?: number;
+
+  /**
+   * Whether the entry's stream reads independently of the archive's other
+   * entries, so several entries may be consumed at once. Streamed entries
+   * must be consumed before the next entry is requested.
+   */
+  randomAccess?: boolean;
 }
 
+type ArchiveType = 'zip' | 'tar' | CompressionType | '7z' | 'rar';
+
+interface ExtractionState {
+  /** Size of the top-level archive on disk */
+  archiveBytes: number;
+
+  /** Entries seen across all nesting levels */
+  entryCount: number;
+
+  /** Decompressed bytes of non-archive entries across all nesting levels */
+  totalBytes: number;
+
+  /** First limit violation, re-thrown even if the consumer swallowed it */
+  violation: ArchiveError | null;
+}
+
+// Tiny archives legitimately reach extreme ratios (a few hundred bytes of
+// repetitive text), so the ratio limit only applies past this volume
+const RATIO_CHECK_MIN_BYTES = 1024 * 1024;
+
+// ZIP compression method marking WinZip AES encryption
+const AES_COMPRESSION_METHOD = 99;
+
 export class ArchiveExtractor {
+  private config: ArchiveConfig;
+  private passwords: string[];
+
+  /**
+   * @param config Archive configuration
+   * @param passwords Candidate passwords for encrypted ZIP archives, tried in order
+   */
+  constructor(config: ArchiveConfig, passwords: string[] = []) {
+    this.config = config;
+    this.passwords = passwords;
+  }
+
   /**
-   * Detect archive type from file extension
+   * Detect archive type from detected format, falling back to file extension
    * @param filePath File path
+   * @param format Format detected from the file's leading bytes, if any
    * @returns Archive type or null if not recognized
    */
-  private detectArchiveType(filePath: string): 'zip' | 'tar' | 'tar.gz' | 'tgz' | 'tar.bz2' | 'tar.xz' | null {
+  private detectArchiveType(
+    filePath: string,
+    format: FileFormat | null = null
+  ): ArchiveType | null {
+    if (format !== null) {
+      if (getFileType(filePath, format) !== FileType.ARCHIVE) {
+        return null;
+      }
+
+      switch (format) {
+        case FileFormat.ZIP:
+          return 'zip';
+        case FileFormat.GZIP:
+          return 'gzip';
+        case FileFormat.BZIP2:
+          return 'bzip2';
+        case FileFormat.XZ:
+          return 'xz';
+        case FileFormat.ZSTD:
+          return 'zstd';
+        case FileFormat.LZ4:
+          return 'lz4';
+        case FileFormat.SEVEN_ZIP:
+          return '7z';
+        case FileFormat.RAR:
+          return 'rar';
+        case FileFormat.TAR:
+          return 'tar';
+      }
+    }
+
     const lower = filePath.toLowerCase();
 
     if (lower.endsWith('.zip')) {
       return 'zip';
-    } else if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) {
-      return 'tar.gz';
-    } else if (lower.endsWith('.tar.bz2')) {
-      return 'tar.bz2';
-    } else if (lower.endsWith('.tar.xz')) {
-      return 'tar.xz';
+    } else if (lower.endsWith('.7z')) {
+      return '7z';
+    } else if (lower.endsWith('.rar')) {
+      return 'rar';
     } else if (lower.endsWith('.tar')) {
       return 'tar';
-    } else if (lower.endsWith('.gz')) {
-      // Treat standalone .gz as tar.gz
-      return 'tar.gz';
+    } else if (lower.endsWith('.gz') || lower.endsWith('.tgz')) {
+      // Compressed TARs and single compressed files are told apart after decompression
+      return 'gzip';
+    } else if (lower.endsWith('.bz2') || lower.endsWith('.tbz2')) {
+      return 'bzip2';
+    } else if (lower.endsWith('.xz') || lower.endsWith('.txz')) {
+      return 'xz';
+    } else if (lower.endsWith('.zst') || lower.endsWith('.tzst')) {
+      return 'zstd';
+    } else if (lower.endsWith('.lz4')) {
+      return 'lz4';
     }
 
     return null;
@@ -48,34 +167,56 @@ export class ArchiveExtractor {
 
   /**
    * Extract ZIP archive and yield entries
-   * @param filePath Archive file path
+   * @param filePath Archive file path (or entry path when nested)
+   * @param source Archive content, read from filePath by default
    * @yields Archive entries
    */
-  async *extractZip(filePath: string): AsyncGenerator<ArchiveEntry> {
+  async *extractZip(
+    filePath: string,
+    source: Readable = createReadStream(filePath)
+  ): AsyncGenerator<ArchiveEntry> {
     const logger = createChildLogger({ filePath, archiveType: 'zip' });
     logger.info('Extracting ZIP archive');
 
-    const stream = createReadStream(filePath);
-    const directory = stream.pipe(unzipper.Parse({ forceStream: true }));
+    const directory = unzipper.Parse({ forceStream: true });
+
+    pipeline(source, directory, (error) => {
+      if (error) {
+        logger.error({ error }, 'ZIP extraction error');
+      }
+    });
 
     let entryCount = 0;
 
     for await (const entry of directory) {
-      const typedEntry = entry as unzipper.Entry;
+      // The typings omit uncompressedSize, which the parser does provide
+      const typedEntry = entry as unzipper.Entry & { vars: { uncompressedSize: number; lastModifiedDateTime: Date } };
 
       if (typedEntry.type === 'Directory') {
         typedEntry.autodrain();
         continue;
       }
 
+      // Encrypted archives are routed to extractEncryptedZip by their central
+      // directory, which a streamed archive lacks; its entry would yield ciphertext
+      if (typedEntry.vars.flags & 0x01) {
+        typedEntry.autodrain();
+        throw new ArchiveError(
+          ArchiveErrorCode.ENCRYPTED,
+          `ZIP entry ${typedEntry.path} is encrypted and cannot be decrypted while the archive is streamed`
+        );
+      }
+
       entryCount++;
       logger.debug({ path: typedEntry.path }, 'Extracting ZIP entry');
 
       yield {
         path: typedEntry.path,
         stream: typedEntry,
-        size: typedEntry.vars?.compressedSize,
+        // Sizes follow the data when the local header sets the data descriptor flag
+        size: typedEntry.vars.flags & 0x08 ? undefined : typedEntry.vars.uncompressedSize,
         isDirectory: false,
+        modifiedAt: typedEntry.vars.lastModifiedDateTime,
       };
     }
 
@@ -83,93 +224,603 @@ export class ArchiveExtractor {
   }
 
   /**
-   * Extract TAR archive and yield entries
+   * Extract ZIP archive from its central directory and yield entries that can
+   * be read in parallel
    * @param filePath Archive file path
-   * @param compressed Compression type (null, 'gzip', 'bzip2', 'xz')
+   * @param directory Central directory, if already read
+   * @yields Archive entries with uncompressed sizes from the central directory
+   */
+  async *extractZipDirectory(
+    filePath: string,
+    directory?: unzipper.CentralDirectory
+  ): AsyncGenerator<ArchiveEntry> {
+    const logger = createChildLogger({ filePath, archiveType: 'zip', mode: 'directory' });
+    logger.info('Extracting ZIP archive from its central directory');
+
+    directory ??= await unzipper.Open.file(filePath);
+    const files = directory.files.filter((file) => file.type === 'File');
+
+    logger.info({ entryCount: files.length }, 'ZIP central directory read');
+
+    for (const file of files) {
+      // Encrypted archives are routed to extractEncryptedZip by extractZipFile
+      if (file.flags & 0x01) {
+        throw new ArchiveError(
+          ArchiveErrorCode.ENCRYPTED,
+          `ZIP entry ${file.path} is encrypted`
+        );
+      }
+
+      logger.debug({ path: file.path }, 'Extracting ZIP entry');
+
+      yield {
+        path: file.path,
+        stream: file.stream(),
+        size: file.uncompressedSize,
+        isDirectory: false,
+        modifiedAt: file.lastModifiedDateTime,
+        randomAccess: true,
+      };
+    }
+
+    logger.info({ entryCount: files.length }, 'ZIP extraction complete');
+  }
+
+  /**
+   * Extract TAR archive and yield entries
+   * @param filePath Archive file path (or entry path when nested)
+   * @param compressed Compression type (null, 'gzip', 'bzip2', 'xz', 'zstd', 'lz4')
+   * @param source Archive content, read from filePath by default
    * @yields Archive entries
    */
   async *extractTar(
     filePath: string,
-    compressed: 'gzip' | 'bzip2' | 'xz' | null = null
+    compressed: CompressionType | null = null,
+    source: Readable = createReadStream(filePath)
   ): AsyncGenerator<ArchiveEntry> {
     const logger = createChildLogger({ filePath, archiveType: 'tar', compressed });
     logger.info('Extracting TAR archive');
 
-    let sourceStream: Readable = createReadStream(filePath);
+    const streams: (Readable | Duplex)[] = [source];
 
     // Apply decompression if needed
-    if (compressed === 'gzip') {
-      sourceStream = sourceStream.pipe(createGunzip());
-    } else if (compressed === 'bzip2') {
-      sourceStream = sourceStream.pipe(createBrotliDecompress());
-    } else if (compressed === 'xz') {
-      // xz compression not natively supported in Node.js
-      throw new Error('XZ compression not supported');
+    if (compressed) {
+      streams.push(createDecompressor(compressed));
     }
 
     const extract = tar.extract();
+
+    // pipeline() destroys every stream with the first error, so a corrupt
+    // source or decompressor surfaces through the iterator below
+    pipeline([...streams, extract], (error) => {
+      if (error) {
+        logger.error({ error }, 'TAR extraction error');
+      }
+    });
+
     let entryCount = 0;
 
-    new Promise<void>((resolve, reject) => {
-      extract.on('entry', async (header: tar.Headers, stream: Readable, next: () => void) => {
-        if (header.type === 'directory') {
-          stream.resume(); // Drain directory entries
-          next();
-          return;
-        }
+    // tar-stream only parses the next header once the current entry has been
+    // consumed, which gives us backpressure for free
+    for await (const entry of extract) {
+      const header = entry.header;
 
-        entryCount++;
-        logger.debug({ path: header.name }, 'Extracting TAR entry');
+      if (header.type !== 'file' && header.type !== 'contiguous-file') {
+        entry.resume(); // Drain directories, links and metadata entries
+        continue;
+      }
 
-        // We cannot directly yield from inside the event handler,
-        // so we'll collect entries and yield them
-        const chunks: Buffer[] = [];
+      entryCount++;
+      logger.debug({ path: header.name }, 'Extracting TAR entry');
 
-        stream.on('data', (chunk: Buffer) => {
-          chunks.push(chunk);
-        });
+      yield {
+        path: header.name,
+        stream: entry,
+        size: header.size,
+        isDirectory: false,
+        modifiedAt: header.mtime,
+      };
+    }
 
-        stream.on('end', () => {
-          // Create readable stream from collected chunks
-          Readable.from(Buffer.concat(chunks));
-          next();
-        });
+    logger.info({ entryCount }, 'TAR extraction complete');
+  }
 
-        stream.on('error', (error: Error) => {
-          logger.error({ error, path: header.name }, 'Error reading TAR entry');
-          next();
-        });
-      });
+  /**
+   * Extract an encrypted ZIP archive with the first configured password that
+   * decrypts it. ZipCrypto is decrypted in-process; AES needs the 7-Zip tool.
+   * Entries stored without encryption are extracted as they are.
+   * @param filePath Archive file path
+   * @param directory Central directory, if already read
+   * @yields Archive entries, tagged with the index of the password used
+   * @throws ArchiveError with code ENCRYPTED if no configured password works
+   */
+  async *extractEncryptedZip(
+    filePath: string,
+    directory?: unzipper.CentralDirectory
+  ): AsyncGenerator<ArchiveEntry> {
+    const logger = createChildLogger({ filePath, archiveType: 'zip', encrypted: true });
+    logger.info('Extracting encrypted ZIP archive');
 
-      extract.on('finish', () => {
-        logger.info({ entryCount }, 'TAR extraction complete');
-        resolve();
-      });
+    directory ??= await unzipper.Open.file(filePath);
+    const files = directory.files.filter((file) => file.type === 'File');
+    const encrypted = files.filter((file) => file.flags & 0x01);
+    const usesAes = encrypted.some((file) => file.compressionMethod === AES_COMPRESSION_METHOD);
 
-      extract.on('error', (error: Error) => {
-        logger.error({ error }, 'TAR extraction error');
-        reject(error);
-      });
+    const passwordIndex = await this.findZipPassword(filePath, encrypted, usesAes);
+    const password = this.passwords[passwordIndex];
+
+    // Only the index is logged; passwords never leave the configuration
+    logger.info({ passwordIndex, usesAes }, 'ZIP password found');
+
+    if (usesAes) {
+      const entries = await listSevenZipEntries(this.config.sevenZipPath, filePath);
+      const tool = this.extractWithTool(
+        entries,
+        () => streamSevenZipContents(this.config.sevenZipPath, filePath, password)
+      );
+
+      for await (const entry of tool) {
+        yield { ...entry, passwordIndex };
+      }
+    } else {
+      for (const file of files) {
+        logger.debug({ path: file.path }, 'Extracting ZIP entry');
+
+        yield {
+          path: file.path,
+          stream: file.stream(password),
+          size: file.uncompressedSize,
+          isDirectory: false,
+          modifiedAt: file.lastModifiedDateTime,
+          passwordIndex,
+        };
+      }
+    }
+
+    logger.info({ entryCount: files.length }, 'Encrypted ZIP extraction complete');
+  }
+
+  /**
+   * Find the first configured password that decrypts a ZIP archive
+   * @param filePath Archive file path
+   * @param encrypted Encrypted entries of the archive
+   * @param usesAes Whether any entry uses AES encryption
+   * @returns Index of the matching password
+   * @throws ArchiveError with code ENCRYPTED if no configured password works
+   */
+  private async findZipPassword(
+    filePath: string,
+    encrypted: unzipper.File[],
+    usesAes: boolean
+  ): Promise<number> {
+    if (this.passwords.length === 0) {
+      throw new ArchiveError(ArchiveErrorCode.ENCRYPTED, 'Encrypted archive: no ZIP passwords are configured');
+    }
+
+    // Decrypting the smallest entry is the cheapest conclusive test
+    const probe = encrypted.reduce((smallest, file) =>
+      file.uncompressedSize < smallest.uncompressedSize ? file : smallest
+    );
+
+    for (let index = 0; index < this.passwords.length; index++) {
+      const password = this.passwords[index];
+      const matches = usesAes
+        ? await testSevenZipPassword(this.config.sevenZipPath, filePath, password, probe.path)
+        : await this.testZipCryptoPassword(probe, password);
+
+      if (matches) {
+        return index;
+      }
+    }
+
+    throw new ArchiveError(
+      ArchiveErrorCode.ENCRYPTED,
+      `Encrypted archive: none of the ${this.passwords.length} configured ZIP passwords matched`
+    );
+  }
+
+  /**
+   * Check whether a password decrypts a ZipCrypto entry
+   * @param file Encrypted entry
+   * @param password Candidate password
+   * @returns True if the decrypted content matches the entry's CRC-32
+   */
+  private async testZipCryptoPassword(file: unzipper.File, password: string): Promise<boolean> {
+    // unzipper deducts the encryption header from the entry's size each time it
+    // is decrypted, which would truncate the entry when it is extracted
+    const { compressedSize } = file;
+
+    // The header check byte alone lets 1 in 256 wrong passwords through
+    try {
+      return (await calculateStreamCrc32(file.stream(password))) === file.crc32;
+    } catch {
+      return false;
+    } finally {
+      file.compressedSize = compressedSize;
+    }
+  }
+
+  /**
+   * Extract a compressed stream: a compressed TAR yields its entries, anything
+   * else yields a single entry named after the file minus its compression extension
+   * @param filePath Compressed file path (or entry path when nested)
+   * @param compression Compression type
+   * @param source Compressed content, read from filePath by default
+   * @yields Archive entries
+   */
+  async *extractCompressed(
+    filePath: string,
+    compression: CompressionType,
+    source: Readable = createReadStream(filePath)
+  ): AsyncGenerator<ArchiveEntry> {
+    const logger = createChildLogger({ filePath, compression });
+    const { header, stream } = await peekStream(this.decompress(filePath, compression, source), SIGNATURE_BYTES);
+
+    if (detectFormat(header) === FileFormat.TAR) {
+      yield* this.extractTar(filePath, null, stream);
+      return;
+    }
+
+    const path = getDecompressedPath(basename(filePath));
+    logger.info({ path }, 'Decompressing single compressed file');
+
+    yield {
+      path,
+      stream,
+      isDirectory: false,
+      compressedFile: true,
+    };
+  }
+
+  /**
+   * Check whether a file is a single compressed file rather than a compressed archive
+   * @param filePath File path (the set's logical path for a split archive)
+   * @param volumes Volume paths of a split archive, in order
+   * @returns True for e.g. users.csv.gz, false for TAR.GZ files, compressed
+   *   archives of other types and anything that is not compressed
+   */
+  async isSingleCompressedFile(filePath: string, volumes?: string[]): Promise<boolean> {
+    const archiveType = this.detectArchiveType(filePath, await detectFileFormat(volumes?.[0] ?? filePath));
+
+    if (!this.isCompression(archiveType)) {
+      return false;
+    }
+
+    const source = volumes ? concatenateFiles(volumes) : createReadStream(filePath);
+    const decompressed = this.decompress(filePath, archiveType, source);
+
+    try {
+      const { header } = await peekStream(decompressed, SIGNATURE_BYTES);
+      return !this.isArchive(getDecompressedPath(filePath), detectFormat(header));
+    } finally {
+      decompressed.destroy();
+    }
+  }
+
+  /**
+   * Check whether an archive type is a compression format rather than a container
+   * @param archiveType Archive type
+   * @returns True for gzip, bzip2, xz, zstd and lz4
+   */
+  private isCompression(archiveType: ArchiveType | null): archiveType is CompressionType {
+    return archiveType === 'gzip' ||
+      archiveType === 'bzip2' ||
+      archiveType === 'xz' ||
+      archiveType === 'zstd' ||
+      archiveType === 'lz4';
+  }
+
+  /**
+   * Pipe compressed content through a decompressor
+   * @param filePath File path, for logging
+   * @param compression Compression type
+   * @param source Compressed content
+   * @returns Decompressed content; source errors surface through it
+   */
+  private decompress(filePath: string, compression: CompressionType, source: Readable): Duplex {
+    const decompressor = createDecompressor(compression);
+
+    pipeline(source, decompressor, (error) => {
+      if (error && error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+        createChildLogger({ filePath, compression }).error({ error }, 'Decompression error');
+      }
     });
 
-    // Pipe source to extract
-    sourceStream.pipe(extract);
+    return decompressor;
+  }
+
+  /**
+   * Extract 7Z archive through the 7-Zip command-line tool and yield entries
+   * @param filePath Archive file path
+   * @yields Archive entries
+   */
+  async *extractSevenZip(filePath: string): AsyncGenerator<ArchiveEntry> {
+    const logger = createChildLogger({ filePath, archiveType: '7z' });
+    logger.info({ tool: this.config.sevenZipPath }, 'Extracting 7Z archive');
 
-    // Note: This implementation has a limitation - we can't easily yield entries
-    // from the event-based TAR API in an async generator.
-    // For a complete implementation, we would need to refactor this to use a different approach.
+    const entries = await listSevenZipEntries(this.config.sevenZipPath, filePath);
+    const entryCount = yield* this.extractWithTool(
+      entries,
+      () => streamSevenZipContents(this.config.sevenZipPath, filePath)
+    );
 
-    // For now, we'll throw an error indicating TAR extraction needs refactoring
-    throw new Error('TAR extraction via async generator not yet fully implemented. Use extractArchiveToDirectory instead.');
+    logger.info({ entryCount }, '7Z extraction complete');
   }
 
   /**
-   * Extract archive and yield all entries
+   * Extract RAR archive through the unrar command-line tool and yield entries
    * @param filePath Archive file path
    * @yields Archive entries
    */
-  async *extractArchive(filePath: string): AsyncGenerator<ArchiveEntry> {
-    const archiveType = this.detectArchiveType(filePath);
+  async *extractRar(filePath: string): AsyncGenerator<ArchiveEntry> {
+    const logger = createChildLogger({ filePath, archiveType: 'rar' });
+    logger.info({ tool: this.config.unrarPath }, 'Extracting RAR archive');
+
+    const entries = await listRarEntries(this.config.unrarPath, filePath);
+    const entryCount = yield* this.extractWithTool(
+      entries,
+      () => streamRarContents(this.config.unrarPath, filePath)
+    );
+
+    logger.info({ entryCount }, 'RAR extraction complete');
+  }
+
+  /**
+   * Yield entries from an external tool that writes every file to stdout in listing order
+   * @param entries Entries listed by the tool
+   * @param startTool Starts the tool's extraction process
+   * @yields Archive entries
+   * @returns Number of file entries yielded
+   */
+  private async *extractWithTool(
+    entries: ToolEntry[],
+    startTool: () => ToolOutput
+  ): AsyncGenerator<ArchiveEntry, number> {
+    const files = entries.filter((entry) => !entry.isDirectory);
+    const { stream, done } = startTool();
+    done.catch(() => stream.destroy());
+
+    // Hold back end-of-output until the tool exits, so a truncated stream
+    // surfaces the tool's own error (bad password, corrupt data)
+    async function* untilExit(): AsyncGenerator<Buffer> {
+      yield* stream;
+      await done;
+    }
+
+    let finished = false;
+
+    try {
+      const parts = splitStream(untilExit(), files.map((entry) => entry.size));
+      let index = 0;
+
+      for await (const part of parts) {
+        const entry = files[index++];
+
+        yield {
+          path: entry.path,
+          stream: part,
+          size: entry.size,
+          isDirectory: false,
+          modifiedAt: entry.modifiedAt,
+        };
+      }
+
+      await done;
+      finished = true;
+    } catch (error) {
+      await done;
+      throw error;
+    } finally {
+      // Consumer stopped early: closing the pipe terminates the tool
+      if (!finished) {
+        stream.destroy();
+      }
+    }
+
+    return files.length;
+  }
+
+  /**
+   * Extract archive and yield all entries, expanding nested archives
+   * @param filePath Archive file path (the set's logical path for a split archive)
+   * @param volumes Volume paths of a split archive, in order
+   * @yields Archive entries with normalized paths; paths of nested entries are
+   *   prefixed with the nested archive's path minus its extension
+   * @throws ArchiveError when an entry path is unsafe or a size limit is exceeded
+   */
+  async *extractArchive(filePath: string, volumes?: string[]): AsyncGenerator<ArchiveEntry> {
+    if (volumes) {
+      yield* this.extractVolumes(filePath, volumes);
+      return;
+    }
+
+    const { size: archiveBytes } = await stat(filePath);
+    const state: ExtractionState = { archiveBytes, entryCount: 0, totalBytes: 0, violation: null };
+    const header = await readFileHeader(filePath);
+
+    yield* this.extractNested(filePath, undefined, header, null, 0, state);
+  }
+
+  /**
+   * Extract a split archive as one logical archive
+   * @param filePath Logical path of the set (e.g. dump.zip for dump.zip.001...)
+   * @param volumes Volume paths, in order
+   * @yields Archive entries
+   */
+  private async *extractVolumes(filePath: string, volumes: string[]): AsyncGenerator<ArchiveEntry> {
+    const logger = createChildLogger({ filePath, volumeCount: volumes.length });
+    const sizes = await Promise.all(volumes.map(async (volume) => (await stat(volume)).size));
+    const archiveBytes = sizes.reduce((total, size) => total + size, 0);
+    const state: ExtractionState = { archiveBytes, entryCount: 0, totalBytes: 0, violation: null };
+    const firstHeader = await readFileHeader(volumes[0]);
+
+    logger.info({ archiveBytes }, 'Extracting split archive');
+
+    // Each RAR volume carries its own headers; unrar follows the set from the first one
+    if (detectFormat(firstHeader) === FileFormat.RAR) {
+      yield* this.extractNested(volumes[0], undefined, firstHeader, null, 0, state);
+      return;
+    }
+
+    // Every other split is a byte-level cut of one archive. A spanned ZIP's
+    // marker precedes its first local header and is not part of the entries.
+    const start = isSpannedZipHeader(firstHeader) ? 4 : 0;
+    const { header, stream } = await peekStream(concatenateFiles(volumes, start), SIGNATURE_BYTES);
+
+    yield* this.extractNested(filePath, stream, header, null, 0, state);
+  }
+
+  /**
+   * Extract one archive level and recurse into nested archives
+   * @param filePath Archive file path (or entry path when nested)
+   * @param source Archive content when nested
+   * @param header Leading bytes of the archive
+   * @param containerPath Normalized path of the archive when nested, null at the top level
+   * @param depth Nesting depth of this level (0 for the top-level archive)
+   * @param state Counters shared across all levels
+   * @yields Archive entries
+   */
+  private async *extractNested(
+    filePath: string,
+    source: Readable | undefined,
+    header: Buffer,
+    containerPath: string | null,
+    depth: number,
+    state: ExtractionState
+  ): AsyncGenerator<ArchiveEntry> {
+    const logger = createChildLogger({ filePath, depth });
+    const prefix = containerPath === null ? '' : `${containerPath.replace(/\.[^.]+$/, '')}/`;
+
+    for await (const entry of this.extractLevel(filePath, source, header)) {
+      state.entryCount++;
+
+      if (state.entryCount > this.config.maxEntries) {
+        entry.stream.resume();
+        throw new ArchiveError(
+          ArchiveErrorCode.LIMIT_EXCEEDED,
+          `Archive contains more than ${this.config.maxEntries} entries`
+        );
+      }
+
+      let entryPath: string;
+      try {
+        // A nested users.csv.gz decompresses in place to users.csv
+        entryPath = entry.compressedFile && containerPath !== null
+          ? getDecompressedPath(containerPath)
+          : `${prefix}${normalizeEntryPath(entry.path)}`;
+      } catch (error) {
+        entry.stream.resume();
+        throw error;
+      }
+
+      if (entry.size !== undefined && entry.size > this.config.maxEntryBytes) {
+        entry.stream.resume();
+        throw new ArchiveError(
+          ArchiveErrorCode.LIMIT_EXCEEDED,
+          `Archive entry ${entryPath} declares ${entry.size} bytes, above the ${this.config.maxEntryBytes} byte limit`
+        );
+      }
+
+      // Sniff the content so misnamed entries are classified by what they are
+      const { header: entryHeader, stream: peeked } = await peekStream(entry.stream, SIGNATURE_BYTES);
+      const entryFormat = detectFormat(entryHeader);
+      const isArchive = this.isArchive(entry.path, entryFormat);
+      const isNested = isArchive && depth < this.config.maxNestingDepth;
+      const stream = this.guardEntry(peeked, entryPath, state, !isNested);
+
+      if (isNested) {
+        logger.info({ path: entryPath, format: entryFormat }, 'Extracting nested archive');
+
+        yield* this.extractNested(entry.path, stream, entryHeader, entryPath, depth + 1, state);
+
+        // Archive formats may end before their container entry does
+        stream.resume();
+      } else {
+        if (isArchive) {
+          logger.warn(
+            { path: entryPath, maxNestingDepth: this.config.maxNestingDepth },
+            'Nesting depth limit reached, keeping nested archive as-is'
+          );
+        }
+
+        yield { ...entry, path: entryPath, stream, format: entryFormat };
+      }
+
+      // The consumer may have swallowed the stream error; the archive still fails
+      if (state.violation) {
+        throw state.violation;
+      }
+    }
+  }
+
+  /**
+   * Enforce size and compression-ratio limits on an entry's decompressed bytes
+   * @param source Entry content
+   * @param entryPath Normalized entry path
+   * @param state Counters shared across all levels
+   * @param countsTowardsTotal Whether bytes count towards the archive total
+   *   (false for nested archives, whose own entries are counted instead)
+   * @returns Entry content that errors once a limit is exceeded
+   */
+  private guardEntry(
+    source: Readable,
+    entryPath: string,
+    state: ExtractionState,
+    countsTowardsTotal: boolean
+  ): Readable {
+    const { maxEntryBytes, maxTotalBytes, maxCompressionRatio } = this.config;
+    let entryBytes = 0;
+
+    const guard = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        entryBytes += chunk.length;
+        if (countsTowardsTotal) {
+          state.totalBytes += chunk.length;
+        }
+
+        let violation: string | null = null;
+
+        if (entryBytes > maxEntryBytes) {
+          violation = `Archive entry ${entryPath} exceeds the ${maxEntryBytes} byte limit`;
+        } else if (state.totalBytes > maxTotalBytes) {
+          violation = `Archive exceeds the ${maxTotalBytes} byte total uncompressed size limit`;
+        } else if (
+          state.totalBytes > RATIO_CHECK_MIN_BYTES &&
+          state.totalBytes > state.archiveBytes * maxCompressionRatio
+        ) {
+          violation = `Archive exceeds the ${maxCompressionRatio}:1 compression ratio limit`;
+        }
+
+        if (violation) {
+          state.violation ??= new ArchiveError(ArchiveErrorCode.LIMIT_EXCEEDED, violation);
+          callback(state.violation);
+          return;
+        }
+
+        callback(null, chunk);
+      },
+    });
+
+    pipeline(source, guard, () => {
+      // Errors surface to whoever reads the guarded stream
+    });
+
+    return guard;
+  }
+
+  /**
+   * Extract a single archive level without recursing
+   * @param filePath Archive file path (or entry path when nested)
+   * @param source Archive content when nested
+   * @param header Leading bytes of the archive
+   * @yields Archive entries
+   */
+  private async *extractLevel(
+    filePath: string,
+    source: Readable | undefined,
+    header: Buffer
+  ): AsyncGenerator<ArchiveEntry> {
+    const archiveType = this.detectArchiveType(filePath, detectFormat(header));
 
     if (!archiveType) {
       throw new Error(`Unsupported archive type: ${filePath}`);
@@ -177,24 +828,37 @@ export class ArchiveExtractor {
 
     switch (archiveType) {
       case 'zip':
-        yield* this.extractZip(filePath);
+        if (isEncryptedZipHeader(header)) {
+          // Decryption reads the central directory, which needs random access
+          yield* this.withLocalFile(filePath, source, (path) => this.extractEncryptedZip(path));
+        } else if (!source) {
+          yield* this.extractZipFile(filePath, true);
+        } else if (this.passwords.length > 0) {
+          // A later entry may still be encrypted, which only the central directory tells
+          yield* this.withLocalFile(filePath, source, (path) => this.extractZipFile(path, false));
+        } else {
+          yield* this.extractZip(filePath, source);
+        }
         break;
 
       case 'tar':
-        yield* this.extractTar(filePath, null);
+        yield* this.extractTar(filePath, null, source);
         break;
 
-      case 'tar.gz':
-      case 'tgz':
-        yield* this.extractTar(filePath, 'gzip');
+      case 'gzip':
+      case 'bzip2':
+      case 'xz':
+      case 'zstd':
+      case 'lz4':
+        yield* this.extractCompressed(filePath, archiveType, source);
         break;
 
-      case 'tar.bz2':
-        yield* this.extractTar(filePath, 'bzip2');
+      case '7z':
+        yield* this.withLocalFile(filePath, source, (path) => this.extractSevenZip(path));
         break;
 
-      case 'tar.xz':
-        yield* this.extractTar(filePath, 'xz');
+      case 'rar':
+        yield* this.withLocalFile(filePath, source, (path) => this.extractRar(path));
         break;
 
       default:
@@ -202,13 +866,76 @@ export class ArchiveExtractor {
     }
   }
 
+  /**
+   * Read a ZIP file's central directory
+   * @param filePath Archive file path
+   * @returns Central directory, or null for truncated or otherwise damaged
+   *   archives, which are still readable entry by entry from their local headers
+   */
+  private async openZipDirectory(filePath: string): Promise<unzipper.CentralDirectory | null> {
+    try {
+      return await unzipper.Open.file(filePath);
+    } catch (error) {
+      createChildLogger({ filePath }).warn({ error }, 'ZIP central directory unreadable, streaming entries instead');
+      return null;
+    }
+  }
+
+  /**
+   * Extract a ZIP archive from a local file, decrypting it if any entry of its central
+   * directory is encrypted (the first entry may be stored without encryption)
+   * @param filePath Archive file path
+   * @param randomAccess Whether entries may be read in parallel; a spooled copy is removed
+   *   once its last entry is yielded, so its entries are read in turn
+   * @yields Archive entries
+   */
+  private async *extractZipFile(filePath: string, randomAccess: boolean): AsyncGenerator<ArchiveEntry> {
+    const directory = await this.openZipDirectory(filePath);
+
+    if (directory?.files.some((file) => file.type === 'File' && file.flags & 0x01)) {
+      yield* this.extractEncryptedZip(filePath, directory);
+    } else if (directory && randomAccess) {
+      yield* this.extractZipDirectory(filePath, directory);
+    } else {
+      yield* this.extractZip(filePath);
+    }
+  }
+
+  /**
+   * Run an extractor that needs random access, spooling nested content to a temporary file
+   * @param filePath Archive file path (or entry path when nested)
+   * @param source Archive content when nested
+   * @param extract Extractor reading from a local file
+   * @yields Archive entries
+   */
+  private async *withLocalFile(
+    filePath: string,
+    source: Readable | undefined,
+    extract: (localPath: string) => AsyncGenerator<ArchiveEntry>
+  ): AsyncGenerator<ArchiveEntry> {
+    if (!source) {
+      yield* extract(filePath);
+      return;
+    }
+
+    const tempFilePath = join(tmpdir(), `${randomUUID()}${extname(filePath)}`);
+
+    try {
+      await pipelineAsync(source, createWriteStream(tempFilePath));
+      yield* extract(tempFilePath);
+    } finally {
+      await rm(tempFilePath, { force: true });
+    }
+  }
+
   /**
    * Check if file is a nested archive
    * @param path File path
+   * @param format Format detected from the file's leading bytes, if any
    * @returns True if file is an archive
    */
-  isArchive(path: string): boolean {
-    const archiveType = this.detectArchiveType(path);
+  isArchive(path: string, format: FileFormat | null = null): boolean {
+    const archiveType = this.detectArchiveType(path, format);
     return archiveType !== null;
   }
 }
@@ -6,6 +6,9 @@ import type { MonitoringConfig } from '../types/index.js';
 import { getFileType } from '../types/index.js';
 import type { FileMetadata } from '../models/FileMetadata.js';
 import { createFileMetadata } from '../models/FileMetadata.js';
+import { detectFileFormat } from '../lib/magic.js';
+import { parseVolumeName, findMissingVolumes, readZipDiskNumber } from '../lib/volumes.js';
+import type { VolumeName, VolumeScheme } from '../lib/volumes.js';
 import { getLogger, createChildLogger } from '../lib/logger.js';
 
 export interface FileMonitorEvents {
@@ -13,6 +16,23 @@ export interface FileMonitorEvents {
   error: (error: Error) => void;
 }
 
+interface PendingVolumeSet {
+  /** How the archive was split */
+  scheme: VolumeScheme;
+
+  /** Volume paths by volume number */
+  volumes: Map<number, string>;
+
+  /** Volume sizes when each was last seen stable */
+  sizes: Map<string, number>;
+
+  /** Number of the last volume, once known (spanned ZIPs only) */
+  lastNumber?: number;
+
+  /** Timer that releases the set once no volume has arrived for the quiet period */
+  timer: NodeJS.Timeout | null;
+}
+
 export declare interface FileMonitor {
   on<U extends keyof FileMonitorEvents>(
     event: U,
@@ -29,6 +49,7 @@ export class FileMonitor extends EventEmitter {
   private config: MonitoringConfig;
   private logger = getLogger();
   private writeCheckTimers: Map<string, NodeJS.Timeout> = new Map();
+  private volumeSets: Map<string, PendingVolumeSet> = new Map();
 
   constructor(config: MonitoringConfig) {
     super();
@@ -71,6 +92,14 @@ export class FileMonitor extends EventEmitter {
     }
     this.writeCheckTimers.clear();
 
+    // Sets still waiting for volumes are collected again on the next start
+    for (const set of this.volumeSets.values()) {
+      if (set.timer) {
+        clearTimeout(set.timer);
+      }
+    }
+    this.volumeSets.clear();
+
     if (this.watcher) {
       await this.watcher.close();
       this.watcher = null;
@@ -98,27 +127,183 @@ export class FileMonitor extends EventEmitter {
         return;
       }
 
-      // Create metadata
-      const relativePath = relative(this.config.watchPath, filePath);
-      const extension = extname(filePath);
-      const fileType = getFileType(filePath);
+      // Pieces of a split archive are held back until the whole set is present
+      const volume = await this.identifyVolume(filePath);
+      if (volume) {
+        this.addVolume(volume, filePath, stats.size);
+        return;
+      }
+
+      await this.releaseFile(filePath);
+
+    } catch (error) {
+      logger.error({ error }, 'Error handling file detection');
+      this.emit('error', error as Error);
+    }
+  }
+
+  /**
+   * Emit a stable file that is not part of a split archive
+   * @param filePath Absolute file path
+   */
+  private async releaseFile(filePath: string): Promise<void> {
+    const logger = createChildLogger({ filePath });
+    const stats = await stat(filePath);
+
+    // Create metadata
+    const relativePath = relative(this.config.watchPath, filePath);
+    const extension = extname(filePath);
+    const format = await detectFileFormat(filePath);
+    const fileType = getFileType(filePath, format);
+
+    const metadata = createFileMetadata(
+      filePath,
+      relativePath,
+      stats.size,
+      fileType,
+      extension,
+      stats.mtime,
+      format
+    );
+
+    logger.info({ type: fileType, format, size: stats.size, extension }, 'File ready for processing');
+
+    // Emit event
+    this.emit('fileReady', metadata);
+  }
+
+  /**
+   * Recognize a file as a volume of a split archive
+   * @param filePath Absolute file path
+   * @returns Volume name, or null if the file is not part of a split archive
+   */
+  private async identifyVolume(filePath: string): Promise<VolumeName | null> {
+    const volume = parseVolumeName(filePath);
+    if (volume || extname(filePath).toLowerCase() !== '.zip') {
+      return volume;
+    }
+
+    // The .zip closing a dump.z01, dump.z02... set records which disk it is
+    const diskNumber = await readZipDiskNumber(filePath);
+    if (diskNumber === null || diskNumber === 0) {
+      return null;
+    }
+
+    return { setPath: filePath, scheme: 'zip-split', number: diskNumber + 1 };
+  }
+
+  /**
+   * Add a stable volume to its split archive set and restart the set's quiet period
+   * @param volume Volume name
+   * @param filePath Absolute volume path
+   * @param size Volume size in bytes
+   */
+  private addVolume(volume: VolumeName, filePath: string, size: number): void {
+    let set = this.volumeSets.get(volume.setPath);
+    if (!set) {
+      set = { scheme: volume.scheme, volumes: new Map(), sizes: new Map(), timer: null };
+      this.volumeSets.set(volume.setPath, set);
+    }
+
+    set.volumes.set(volume.number, filePath);
+    set.sizes.set(filePath, size);
+
+    if (volume.scheme === 'zip-split' && filePath === volume.setPath) {
+      set.lastNumber = volume.number;
+    }
+
+    this.logger.info(
+      { filePath, setPath: volume.setPath, volume: volume.number, volumeCount: set.volumes.size },
+      'Split archive volume detected'
+    );
+
+    this.scheduleVolumeSetRelease(volume.setPath, set);
+  }
+
+  /**
+   * (Re)start the quiet period after which a split archive set is checked for completeness
+   * @param setPath Logical path of the set
+   * @param set Pending set
+   */
+  private scheduleVolumeSetRelease(setPath: string, set: PendingVolumeSet): void {
+    if (set.timer) {
+      clearTimeout(set.timer);
+    }
+
+    set.timer = setTimeout(() => {
+      set.timer = null;
+      void this.releaseVolumeSet(setPath);
+    }, this.config.volumeQuietPeriod);
+  }
+
+  /**
+   * Emit a split archive as one file once every volume is present and stable
+   * @param setPath Logical path of the set
+   */
+  private async releaseVolumeSet(setPath: string): Promise<void> {
+    const logger = createChildLogger({ filePath: setPath });
+    const set = this.volumeSets.get(setPath);
+    if (!set) {
+      return;
+    }
+
+    try {
+      const missing = findMissingVolumes(set.scheme, [...set.volumes.keys()], set.lastNumber);
+
+      // Names like data.zip.js only look like split -b pieces; a real set runs from .aa without gaps
+      if (set.scheme === 'lettered' && missing.length > 0) {
+        this.volumeSets.delete(setPath);
+        logger.info({ missing, volumeCount: set.volumes.size }, 'Not a split archive, releasing its files separately');
+
+        for (const volumePath of set.volumes.values()) {
+          await this.releaseFile(volumePath);
+        }
+        return;
+      }
+
+      if (missing.length > 0 || (set.scheme === 'zip-split' && set.lastNumber === undefined)) {
+        // The next volume to arrive restarts the quiet period
+        logger.warn({ missing, volumeCount: set.volumes.size }, 'Split archive incomplete, waiting for missing volumes');
+        return;
+      }
+
+      const volumes = [...set.volumes.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, volumePath]) => volumePath);
+      const volumeStats = await Promise.all(volumes.map((volumePath) => stat(volumePath)));
+
+      // A volume that changed since it was seen stable is being rewritten
+      if (volumeStats.some((volumeStat, index) => volumeStat.size !== set.sizes.get(volumes[index]))) {
+        volumeStats.forEach((volumeStat, index) => set.sizes.set(volumes[index], volumeStat.size));
+        logger.debug('Split archive volume changed, waiting for it to settle');
+        this.scheduleVolumeSetRelease(setPath, set);
+        return;
+      }
+
+      this.volumeSets.delete(setPath);
+
+      const size = volumeStats.reduce((total, volumeStat) => total + volumeStat.size, 0);
+      const modifiedAt = new Date(Math.max(...volumeStats.map((volumeStat) => volumeStat.mtimeMs)));
+      const format = await detectFileFormat(volumes[0]);
+      const fileType = getFileType(setPath, format);
 
       const metadata = createFileMetadata(
-        filePath,
-        relativePath,
-        stats.size,
+        setPath,
+        relative(this.config.watchPath, setPath),
+        size,
         fileType,
-        extension,
-        stats.mtime
+        extname(setPath),
+        modifiedAt,
+        format,
+        volumes
       );
 
-      logger.info({ type: fileType, size: stats.size, extension }, 'File ready for processing');
+      logger.info({ type: fileType, format, size, volumeCount: volumes.length }, 'Split archive ready for processing');
 
-      // Emit event
       this.emit('fileReady', metadata);
 
     } catch (error) {
-      logger.error({ error }, 'Error handling file detection');
+      logger.error({ error }, 'Error releasing split archive');
       this.emit('error', error as Error);
     }
   }
@@ -1,8 +1,24 @@
-import { mkdir, rename } from 'fs/promises';
-import { join, basename } from 'path';
-import type { AppConfig } from '../types/index.js';
-import { ProcessingStatus, ProcessingStep, FileType } from '../types/index.js';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, rename, rm } from 'fs/promises';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { join, basename, extname } from 'path';
+import { tmpdir } from 'os';
+import { randomUUID } from 'crypto';
+import type { AppConfig, OutputFormat, SchemaColumn } from '../types/index.js';
+import {
+  ProcessingStatus,
+  ProcessingStep,
+  FileType,
+  FileFormat,
+  ConversionErrorCode,
+  ArchiveErrorCode,
+  getFileType,
+} from '../types/index.js';
 import type { FileMetadata } from '../models/FileMetadata.js';
+import type { ArchiveEntryRecord } from '../models/ArchiveEntryRecord.js';
+import type { ManifestEntry, ManifestEntryStatus } from '../models/ArchiveManifest.js';
+import { createArchiveManifest, MANIFEST_FILE_NAME } from '../models/ArchiveManifest.js';
 import {
   createProcessingJob,
   markStepStarted,
@@ -13,9 +29,21 @@ import {
 } from '../models/ProcessingJob.js';
 import { S3Uploader } from './S3Uploader.js';
 import { ProgressTracker } from './ProgressTracker.js';
-import { ParquetConverter } from './ParquetConverter.js';
-import { ArchiveExtractor } from './ArchiveExtractor.js';
-import { calculateFileChecksum } from '../lib/checksum.js';
+import {
+  ParquetConverter,
+  type CsvRejects,
+  type ParquetStreamConsumer,
+} from './ParquetConverter.js';
+import { ArchiveExtractor, type ArchiveEntry } from './ArchiveExtractor.js';
+import { calculateFileChecksum, calculateStreamChecksum, createChecksumStream } from '../lib/checksum.js';
+import { ArchiveError, ConversionError } from '../lib/errors.js';
+import { resolveContentType } from '../lib/magic.js';
+import { OUTPUT_FORMATS, resolveOutputFormat } from '../lib/outputFormat.js';
+import { getDecompressedPath } from '../lib/paths.js';
+import type { ParquetPart } from '../lib/parts.js';
+import { compareSchemas, describeSchemaChange, resolveDataset } from '../lib/schema.js';
+import { SpoolBudget } from '../lib/spoolBudget.js';
+import { bufferToStream, concatenateFiles } from '../lib/streams.js';
 import { getLogger, createChildLogger } from '../lib/logger.js';
 
 export class FileProcessor {
@@ -24,6 +52,7 @@ export class FileProcessor {
   private progressTracker: ProgressTracker | null;
   private parquetConverter: ParquetConverter | null;
   private archiveExtractor: ArchiveExtractor | null;
+  private spoolBudget: SpoolBudget;
   private logger = getLogger();
   private activeJobs: Map<string, ProcessingJob> = new Map();
 
@@ -39,6 +68,7 @@ export class FileProcessor {
     this.progressTracker = progressTracker ?? null;
     this.parquetConverter = parquetConverter ?? null;
     this.archiveExtractor = archiveExtractor ?? null;
+    this.spoolBudget = new SpoolBudget(config.archive.maxSpoolBytes);
   }
 
   /**
@@ -61,7 +91,10 @@ export class FileProcessor {
       // Step 1: Calculate checksum
       markStepStarted(job, ProcessingStep.CHECKSUM_CALCULATION);
       logger.debug('Calculating file checksum');
-      file.checksum = await calculateFileChecksum(file.path);
+      // A split archive's checksum covers its volumes as one stream
+      file.checksum = file.volumes
+        ? await calculateStreamChecksum(concatenateFiles(file.volumes))
+        : await calculateFileChecksum(file.path);
       markStepComplete(job, ProcessingStep.CHECKSUM_CALCULATION);
       logger.debug({ checksum: file.checksum }, 'Checksum calculated');
 
@@ -101,7 +134,9 @@ export class FileProcessor {
       // Step 3: Process based on file type
       switch (file.type) {
         case FileType.ARCHIVE:
-          if (this.archiveExtractor) {
+          if (this.archiveExtractor && await this.archiveExtractor.isSingleCompressedFile(file.path, file.volumes)) {
+            await this.decompressAndProcessFile(job);
+          } else if (this.archiveExtractor) {
             await this.extractAndUploadArchive(job);
           } else {
             logger.warn('ArchiveExtractor not available, uploading archive as-is');
@@ -129,7 +164,7 @@ export class FileProcessor {
 
       // Update progress tracker
       if (this.progressTracker) {
-        this.progressTracker.markComplete(file.path, file.relativePath, file.size);
+        this.progressTracker.markComplete(file.path, file.relativePath, file.size, job.s3Keys);
       }
 
       logger.info({ duration: Date.now() - job.startTime.getTime() }, 'File processing completed');
@@ -141,11 +176,14 @@ export class FileProcessor {
 
       // Update progress tracker
       if (this.progressTracker) {
-        this.progressTracker.markFailed(file.path, err.message);
+        const errorCode = err instanceof ArchiveError || err instanceof ConversionError ? err.code : null;
+        this.progressTracker.markFailed(file.path, err.message, errorCode);
       }
 
-      // Move file to error directory
-      await this.moveToErrorDirectory(file.path, err.message);
+      // Move file (or every volume of a split archive) to error directory
+      for (const filePath of file.volumes ?? [file.path]) {
+        await this.moveToErrorDirectory(filePath, err.message);
+      }
 
     } finally {
       this.activeJobs.delete(job.id);
@@ -167,7 +205,8 @@ export class FileProcessor {
       file.path,
       file.relativePath,
       file.size,
-      this.config.processing.maxRetries
+      this.config.processing.maxRetries,
+      this.getContentType(file.path, file.format)
     );
 
     markStepComplete(job, ProcessingStep.S3_UPLOAD);
@@ -182,14 +221,21 @@ export class FileProcessor {
     }
 
     markStepComplete(job, ProcessingStep.INTEGRITY_VERIFICATION);
+    job.s3Keys.push(file.relativePath);
     logger.info('Upload integrity verified');
   }
 
   /**
    * Convert database file to Parquet and upload to S3
    * @param job Processing job
+   * @param inputPath File to convert (the job's file by default)
+   * @param extension Extension selecting the converter (the job's file extension by default)
    */
-  private async convertAndUploadDatabaseFile(job: ProcessingJob): Promise<void> {
+  private async convertAndUploadDatabaseFile(
+    job: ProcessingJob,
+    inputPath: string = job.file.path,
+    extension: string = job.file.extension
+  ): Promise<void> {
     const file = job.file;
     const logger = createChildLogger({ jobId: job.id, filePath: file.path });
 
@@ -197,61 +243,220 @@ export class FileProcessor {
       throw new Error('ParquetConverter not initialized');
     }
 
+    // A dump holds several tables, each uploaded as its own object
+    if (extension === '.sql') {
+      const prefix = file.relativePath.replace(/\.[^.]+$/, '');
+
+      markStepStarted(job, ProcessingStep.PARQUET_CONVERSION);
+      markStepStarted(job, ProcessingStep.S3_UPLOAD);
+      logger.info({ prefix }, 'Converting SQL dump tables');
+
+      const tableCount = await this.uploadSqlDumpTables(inputPath, prefix, file.path, file.relativePath, job.s3Keys);
+
+      markStepComplete(job, ProcessingStep.PARQUET_CONVERSION);
+      markStepComplete(job, ProcessingStep.S3_UPLOAD);
+      logger.info({ prefix, tableCount }, 'SQL dump tables uploaded to S3');
+
+      // Update file metadata for progress tracking (use the tables' S3 prefix)
+      file.relativePath = `${prefix}/`;
+      return;
+    }
+
     let tempFilePath: string | null = null;
+    let rejectsFilePath: string | null = null;
 
     try {
+      // Get S3 key with the output format's extension (a split output goes to parts under the key minus it)
+      const partsPrefix = file.relativePath.replace(/\.[^.]+$/, '');
+      const outputFormat = this.getOutputFormat(file.relativePath);
+      const outputS3Key = `${partsPrefix}${OUTPUT_FORMATS[outputFormat].extension}`;
+
       // Convert to Parquet
       markStepStarted(job, ProcessingStep.PARQUET_CONVERSION);
-      logger.info({ extension: file.extension }, 'Converting database file to Parquet');
+      logger.info({ extension }, 'Converting database file to Parquet');
+
+      const {
+        stream: parquetStream,
+        tempFilePath: tempFile,
+        partCount,
+        streamed,
+        parquetFileName,
+        encoding,
+        csvDialect,
+        rejects,
+        columnRule,
+      } = await this.convertWithParts(
+        inputPath,
+        extension,
+        partsPrefix,
+        file.path,
+        file.relativePath,
+        job.s3Keys,
+        this.createStreamUploader(outputS3Key, file.path, file.relativePath, job.s3Keys)
+      );
 
-      const { stream, tempFilePath: tempFile, parquetFileName } =
-        await this.parquetConverter.convertToParquetStream(file.path, file.extension);
+      tempFilePath = tempFile ?? null;
+      rejectsFilePath = rejects?.tempFilePath ?? null;
 
-      tempFilePath = tempFile;
-      markStepComplete(job, ProcessingStep.PARQUET_CONVERSION);
-      logger.info({ parquetFileName }, 'Converted to Parquet');
+      if (csvDialect && this.progressTracker) {
+        this.progressTracker.recordCsvDialect(file.path, csvDialect);
+      }
+      if (columnRule && this.progressTracker) {
+        this.progressTracker.recordColumnRule(file.path, columnRule);
+      }
+
+      // The output was uploaded while DuckDB wrote it
+      if (streamed) {
+        markStepComplete(job, ProcessingStep.PARQUET_CONVERSION);
+        logger.info({ parquetFileName, encoding, s3Key: outputS3Key }, 'Converted file streamed to S3');
+
+        if (rejects) {
+          const rejectsS3Key = await this.uploadRejects(rejects, partsPrefix, file.path);
+          job.s3Keys.push(rejectsS3Key);
+          logger.warn({ s3Key: rejectsS3Key, rowCount: rejects.rowCount }, 'Malformed rows uploaded to S3');
+        }
+
+        // Update file metadata for progress tracking (use the output's S3 key)
+        file.relativePath = outputS3Key;
+        return;
+      }
+
+      // An output over MAX_PART_BYTES was split or a partitioned output was written, and each
+      // part uploaded as soon as it was written
+      if (!tempFile || !parquetStream) {
+        markStepComplete(job, ProcessingStep.PARQUET_CONVERSION);
+        logger.info({ parquetFileName, encoding, prefix: partsPrefix, partCount }, 'Parquet parts uploaded to S3');
 
-      // Get S3 key with .parquet extension
-      const parquetS3Key = file.relativePath.replace(/\.[^.]+$/, '.parquet');
+        if (rejects) {
+          const rejectsS3Key = await this.uploadRejects(rejects, partsPrefix, file.path);
+          job.s3Keys.push(rejectsS3Key);
+          logger.warn({ s3Key: rejectsS3Key, rowCount: rejects.rowCount }, 'Malformed rows uploaded to S3');
+        }
+
+        // Update file metadata for progress tracking (use the parts' S3 prefix)
+        file.relativePath = `${partsPrefix}/`;
+        return;
+      }
+
+      // Parquet files are checked once written (other formats were checked before writing), and a
+      // coerced file was replaced, so the stream opened on the original is discarded
+      let stream = parquetStream;
+      if (outputFormat === 'parquet' && await this.enforceSchema(tempFile, file.relativePath)) {
+        stream.destroy();
+        stream = createReadStream(tempFile);
+      }
+
+      markStepComplete(job, ProcessingStep.PARQUET_CONVERSION);
+      logger.info({ parquetFileName, encoding, csvDialect, columnRule: columnRule?.pattern }, 'Converted to Parquet');
 
       // Upload Parquet stream to S3
       markStepStarted(job, ProcessingStep.S3_UPLOAD);
-      logger.info({ s3Key: parquetS3Key }, 'Uploading Parquet file to S3');
+      logger.info({ s3Key: outputS3Key }, 'Uploading Parquet file to S3');
 
       const uploadTask = await this.s3Uploader.uploadStream(
         stream,
-        parquetS3Key,
-        'application/vnd.apache.parquet',
+        outputS3Key,
+        this.s3Uploader.detectContentType(outputS3Key),
         file.path
       );
 
       markStepComplete(job, ProcessingStep.S3_UPLOAD);
-      logger.info({ s3Key: parquetS3Key, etag: uploadTask.etag }, 'Parquet file uploaded to S3');
+      logger.info({ s3Key: outputS3Key, etag: uploadTask.etag }, 'Parquet file uploaded to S3');
 
       // Integrity verification
       markStepStarted(job, ProcessingStep.INTEGRITY_VERIFICATION);
-      const isValid = await this.s3Uploader.verifyUpload(parquetS3Key, uploadTask.etag);
+      const isValid = await this.s3Uploader.verifyUpload(outputS3Key, uploadTask.etag);
 
       if (!isValid) {
         throw new Error('Upload integrity verification failed');
       }
 
       markStepComplete(job, ProcessingStep.INTEGRITY_VERIFICATION);
+      job.s3Keys.push(outputS3Key);
       logger.info('Upload integrity verified');
 
-      // Update file metadata for progress tracking (use Parquet S3 key)
-      file.relativePath = parquetS3Key;
+      if (rejects) {
+        const rejectsS3Key = await this.uploadRejects(rejects, partsPrefix, file.path);
+        job.s3Keys.push(rejectsS3Key);
+        logger.warn({ s3Key: rejectsS3Key, rowCount: rejects.rowCount }, 'Malformed rows uploaded to S3');
+      }
+
+      // Update file metadata for progress tracking (use the output's S3 key)
+      file.relativePath = outputS3Key;
 
     } finally {
-      // Clean up temporary Parquet file
+      // Clean up temporary Parquet files
       if (tempFilePath && this.parquetConverter) {
         await this.parquetConverter.cleanupTempFile(tempFilePath);
       }
+      if (rejectsFilePath && this.parquetConverter) {
+        await this.parquetConverter.cleanupTempFile(rejectsFilePath);
+      }
+    }
+  }
+
+  /**
+   * Decompress a single compressed file (e.g. users.csv.gz) and process its
+   * content like a file of that name: database files are converted to Parquet,
+   * anything else is uploaded decompressed
+   * @param job Processing job
+   */
+  private async decompressAndProcessFile(job: ProcessingJob): Promise<void> {
+    const file = job.file;
+    const logger = createChildLogger({ jobId: job.id, filePath: file.path });
+
+    if (!this.archiveExtractor) {
+      throw new Error('ArchiveExtractor not initialized');
+    }
+
+    markStepStarted(job, ProcessingStep.ARCHIVE_EXTRACTION);
+    logger.info('Decompressing file');
+
+    // Limits and path checks apply as for archives; a single compressed file yields one entry
+    for await (const entry of this.archiveExtractor.extractArchive(file.path, file.volumes)) {
+      const s3Key = getDecompressedPath(file.relativePath);
+      const extension = extname(entry.path).toLowerCase();
+      const entryType = getFileType(entry.path, entry.format);
+
+      // Progress is tracked under the decompressed name
+      file.relativePath = s3Key;
+
+      if (entryType === FileType.DATABASE && this.parquetConverter) {
+        await this.withSpooledFile(entry.stream, entry.path, entry.size, async (tempFilePath) => {
+          markStepComplete(job, ProcessingStep.ARCHIVE_EXTRACTION);
+          await this.convertAndUploadDatabaseFile(job, tempFilePath, extension);
+        });
+        continue;
+      }
+
+      markStepStarted(job, ProcessingStep.S3_UPLOAD);
+      logger.info({ s3Key }, 'Uploading decompressed file to S3');
+
+      const uploadTask = await this.s3Uploader.uploadStream(
+        entry.stream,
+        s3Key,
+        this.getContentType(entry.path, entry.format),
+        file.path
+      );
+
+      markStepComplete(job, ProcessingStep.ARCHIVE_EXTRACTION);
+      markStepComplete(job, ProcessingStep.S3_UPLOAD);
+
+      markStepStarted(job, ProcessingStep.INTEGRITY_VERIFICATION);
+      const isValid = await this.s3Uploader.verifyUpload(s3Key, uploadTask.etag);
+
+      if (!isValid) {
+        throw new Error('Upload integrity verification failed');
+      }
+
+      markStepComplete(job, ProcessingStep.INTEGRITY_VERIFICATION);
+      job.s3Keys.push(s3Key);
+      logger.info({ s3Key, etag: uploadTask.etag }, 'Decompressed file uploaded to S3');
     }
   }
 
   /**
-   * Extract archive and upload contents to S3
+   * Extract archive and upload contents to S3, followed by a manifest of the entries
    * @param job Processing job
    */
   private async extractAndUploadArchive(job: ProcessingJob): Promise<void> {
@@ -265,79 +470,709 @@ export class FileProcessor {
     markStepStarted(job, ProcessingStep.ARCHIVE_EXTRACTION);
     logger.info('Extracting archive');
 
-    let entryCount = 0;
+    let passwordRecorded = false;
+    const manifestEntries: ManifestEntry[] = [];
+
+    // Entries uploaded by an earlier, interrupted attempt on the same archive content
+    const completedEntries = this.progressTracker && file.checksum
+      ? this.progressTracker.getCompletedEntries(file.path, file.checksum)
+      : new Map<string, ArchiveEntryRecord>();
+
+    if (completedEntries.size > 0) {
+      logger.info({ completedEntries: completedEntries.size }, 'Resuming archive extraction');
+    }
+
+    // Random-access entries upload in parallel, up to entryConcurrency at a time
+    const uploads = new Set<Promise<void>>();
+    let uploadError: unknown = null;
+
+    const processEntry = async (entry: ArchiveEntry, index: number): Promise<void> => {
+      try {
+        manifestEntries[index] = await this.processArchiveEntry(file, entry, completedEntries, job.s3Keys);
+      } catch (error) {
+        manifestEntries[index] = {
+          path: entry.path,
+          size: entry.size ?? null,
+          checksum: null,
+          modifiedAt: entry.modifiedAt?.toISOString() ?? null,
+          s3Key: null,
+          status: 'failed',
+          error: (error as Error).message,
+        };
+        throw error;
+      }
+    };
 
     try {
-      for await (const entry of this.archiveExtractor.extractArchive(file.path)) {
+      let index = 0;
+
+      for await (const entry of this.archiveExtractor.extractArchive(file.path, file.volumes)) {
         if (entry.isDirectory) {
           continue;
         }
 
-        entryCount++;
-        logger.debug({ path: entry.path }, 'Processing archive entry');
-
-        // Get S3 key (preserve directory structure from archive)
-        const baseDir = file.relativePath.replace(/\.[^.]+$/, ''); // Remove extension
-        const entryS3Key = `${baseDir}/${entry.path}`;
-
-        // Check if entry is a database file
-        const entryType = this.getFileType(entry.path);
-
-        if (entryType === FileType.DATABASE && this.parquetConverter) {
-          // Database file in archive - needs Parquet conversion
-          // For simplicity, we'll skip Parquet conversion for files inside archives
-          // Full implementation would require writing entry to temp file first
-          logger.warn({ path: entry.path }, 'Parquet conversion for archive entries not yet implemented, uploading as-is');
-
-          await this.s3Uploader.uploadStream(
-            entry.stream,
-            entryS3Key,
-            'application/octet-stream',
-            entry.path
-          );
-        } else {
-          // Regular file - upload directly
-          const contentType = this.getContentType(entry.path);
-
-          await this.s3Uploader.uploadStream(
-            entry.stream,
-            entryS3Key,
-            contentType,
-            entry.path
-          );
+        if (entry.passwordIndex !== undefined && !passwordRecorded && this.progressTracker) {
+          this.progressTracker.recordPasswordIndex(file.path, entry.passwordIndex);
+          passwordRecorded = true;
+        }
+
+        logger.debug({ path: entry.path, size: entry.size }, 'Processing archive entry');
+
+        if (!entry.randomAccess) {
+          // Streamed entries must be consumed before the next one can be read
+          await processEntry(entry, index++);
+          continue;
+        }
+
+        const upload: Promise<void> = processEntry(entry, index++)
+          .catch((error) => {
+            uploadError ??= error;
+          })
+          .finally(() => uploads.delete(upload));
+        uploads.add(upload);
+
+        if (uploads.size >= this.config.archive.entryConcurrency) {
+          await Promise.race(uploads);
+        }
+
+        if (uploadError) {
+          throw uploadError;
         }
+      }
+
+      await Promise.all(uploads);
 
-        logger.debug({ path: entry.path, s3Key: entryS3Key }, 'Archive entry uploaded');
+      if (uploadError) {
+        throw uploadError;
       }
 
       markStepComplete(job, ProcessingStep.ARCHIVE_EXTRACTION);
-      logger.info({ entryCount }, 'Archive extraction complete');
+
+      const skippedCount = manifestEntries.filter((entry) => entry.status === 'skipped').length;
+      logger.info({ entryCount: manifestEntries.length, skippedCount }, 'Archive extraction complete');
+
+      job.s3Keys.push(await this.uploadManifest(file, manifestEntries, true));
 
     } catch (error) {
+      // Let in-flight uploads settle before the archive is moved away
+      await Promise.all(uploads);
       logger.error({ error }, 'Archive extraction failed');
+
+      // A partial manifest still tells consumers what made it to S3
+      try {
+        await this.uploadManifest(file, manifestEntries.filter(Boolean), false);
+      } catch (manifestError) {
+        logger.error({ error: manifestError }, 'Failed to upload partial archive manifest');
+      }
+
       throw error;
     }
   }
 
   /**
-   * Get file type from path
-   * @param path File path
-   * @returns File type
+   * Upload a single archive entry, converting database files to Parquet
+   * @param file Archive metadata
+   * @param entry Archive entry
+   * @param completedEntries Entries uploaded by an earlier attempt
+   * @param s3Keys Collects the S3 keys of the objects uploaded for the entry
+   * @returns Manifest entry describing the outcome
    */
-  private getFileType(path: string): FileType {
-    const lower = path.toLowerCase();
+  private async processArchiveEntry(
+    file: FileMetadata,
+    entry: ArchiveEntry,
+    completedEntries: Map<string, ArchiveEntryRecord>,
+    s3Keys: string[]
+  ): Promise<ManifestEntry> {
+    const logger = createChildLogger({ filePath: file.path, entryPath: entry.path });
+    const modifiedAt = entry.modifiedAt?.toISOString() ?? null;
+
+    // Get S3 key (preserve directory structure from archive)
+    const baseDir = file.relativePath.replace(/\.[^.]+$/, ''); // Remove extension
+    const entryS3Key = `${baseDir}/${entry.path}`;
+
+    const previous = completedEntries.get(entry.path);
+    if (previous?.s3Key && await this.verifyEntryUpload(previous)) {
+      entry.stream.resume();
+      logger.debug({ s3Key: previous.s3Key }, 'Archive entry already uploaded, skipping');
+      s3Keys.push(...previous.s3Keys ?? [previous.s3Key]);
+
+      return {
+        path: entry.path,
+        size: previous.sizeBytes,
+        checksum: previous.checksum,
+        modifiedAt,
+        s3Key: previous.s3Key,
+        status: 'skipped',
+      };
+    }
+
+    if (this.progressTracker && file.checksum) {
+      this.progressTracker.recordEntryStart(file.path, file.checksum, entry.path);
+    }
+
+    // Checksum and size describe the entry itself, not the uploaded object
+    const { stream: content, digest } = createChecksumStream();
+    entry.stream.on('error', (error) => content.destroy(error));
+    entry.stream.pipe(content);
+
+    // Keys of this entry only, as entries upload in parallel into the archive's keys
+    const entryS3Keys: string[] = [];
+
+    // Check if entry is a database file
+    const entryType = getFileType(entry.path, entry.format);
+    let s3Key: string;
+    let etag: string | null;
+    let status: ManifestEntryStatus;
+
+    if (entryType === FileType.DATABASE && this.parquetConverter && extname(entry.path).toLowerCase() === '.sql') {
+      // SQL dump in archive - one object per table under the dump's own prefix
+      s3Key = `${entryS3Key.replace(/\.[^.]+$/, '')}/`;
+      await this.withSpooledFile(content, entry.path, entry.size, (inputPath) =>
+        this.uploadSqlDumpTables(inputPath, s3Key.slice(0, -1), entry.path, entryS3Key, entryS3Keys)
+      );
+      etag = null;
+      status = 'converted';
+
+      logger.debug({ s3Key }, 'Archive SQL dump converted and uploaded');
+    } else if (entryType === FileType.DATABASE && this.parquetConverter) {
+      // Database file in archive - convert to Parquet under the archive prefix
+      ({ s3Key, etag } = await this.convertAndUploadArchiveEntry(
+        entry.path,
+        content,
+        entry.size,
+        `${entryS3Key.replace(/\.[^.]+$/, '')}${OUTPUT_FORMATS[this.getOutputFormat(entryS3Key)].extension}`,
+        entryS3Key,
+        entryS3Keys
+      ));
+      status = 'converted';
+
+      logger.debug({ s3Key }, 'Archive entry converted and uploaded');
+    } else {
+      // Regular file - upload directly
+      s3Key = entryS3Key;
+      const uploadTask = await this.s3Uploader.uploadStream(
+        content,
+        s3Key,
+        this.getContentType(entry.path, entry.format),
+        entry.path
+      );
+
+      // Resume trusts the recorded ETag, so it must be the stored object's
+      if (!await this.s3Uploader.verifyUpload(s3Key, uploadTask.etag)) {
+        throw new Error(`Upload integrity verification failed for ${s3Key}`);
+      }
+      etag = uploadTask.etag;
+      status = 'uploaded';
+      entryS3Keys.push(s3Key);
+
+      logger.debug({ s3Key }, 'Archive entry uploaded');
+    }
+
+    const { checksum, sizeBytes } = digest();
+    s3Keys.push(...entryS3Keys);
+
+    if (this.progressTracker && file.checksum) {
+      this.progressTracker.markEntryComplete(file.path, entry.path, s3Key, etag, checksum, sizeBytes, entryS3Keys);
+    }
+
+    return { path: entry.path, size: sizeBytes, checksum, modifiedAt, s3Key, status };
+  }
 
-    if (lower.endsWith('.csv') || lower.endsWith('.json') || lower.endsWith('.xml') ||
-        lower.endsWith('.jsonl') || lower.endsWith('.tsv')) {
-      return FileType.DATABASE;
+  /**
+   * Check that every object an earlier attempt uploaded for an archive entry is still in S3
+   * @param previous Completed entry record
+   * @returns True if the entry can be skipped
+   */
+  private async verifyEntryUpload(previous: ArchiveEntryRecord): Promise<boolean> {
+    // Records written before the keys were kept only know the object or prefix; a prefix never verifies
+    const keys = previous.s3Keys ?? [previous.s3Key!];
+
+    for (const key of keys) {
+      // Only the entry's own object has a recorded ETag
+      if (!await this.s3Uploader.verifyUpload(key, key === previous.s3Key ? previous.etag : null)) {
+        return false;
+      }
     }
 
-    if (lower.endsWith('.zip') || lower.endsWith('.tar') || lower.endsWith('.gz') ||
-        lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) {
-      return FileType.ARCHIVE;
+    return keys.length > 0;
+  }
+
+  /**
+   * Convert a database entry of an archive to Parquet and upload it
+   * @param entryPath Normalized entry path
+   * @param content Entry content
+   * @param size Uncompressed size declared by the archive, if any
+   * @param s3Key S3 object key of the converted file, with the output format's extension
+   * @param relativePath Entry path under the archive's prefix, matched against the conversion and dataset rules
+   * @param s3Keys Collects the S3 keys of the uploaded objects
+   * @returns S3 key and ETag of the uploaded or streamed Parquet file, or the parts' prefix
+   *   (ending in /) and no ETag if the output was split or partitioned
+   */
+  private async convertAndUploadArchiveEntry(
+    entryPath: string,
+    content: Readable,
+    size: number | undefined,
+    s3Key: string,
+    relativePath: string,
+    s3Keys: string[]
+  ): Promise<{ s3Key: string; etag: string | null }> {
+    if (!this.parquetConverter) {
+      throw new Error('ParquetConverter not initialized');
     }
 
-    return FileType.REGULAR;
+    const parquetConverter = this.parquetConverter;
+    const extension = extname(entryPath).toLowerCase();
+
+    const partsPrefix = relativePath.replace(/\.[^.]+$/, '');
+
+    return this.withSpooledFile(content, entryPath, size, async (inputPath) => {
+      const streamUploader = this.createStreamUploader(s3Key, entryPath, relativePath, s3Keys);
+      const { stream: parquetStream, tempFilePath, partCount, streamed, encoding, csvDialect, rejects } =
+        await this.convertWithParts(inputPath, extension, partsPrefix, entryPath, relativePath, s3Keys, streamUploader);
+      this.logger.debug({ entryPath, encoding, csvDialect, partCount }, 'Archive entry converted to Parquet');
+
+      try {
+        if (rejects) {
+          const rejectsS3Key = await this.uploadRejects(rejects, partsPrefix, entryPath);
+          s3Keys.push(rejectsS3Key);
+          this.logger.warn({ s3Key: rejectsS3Key, rowCount: rejects.rowCount }, 'Malformed rows uploaded to S3');
+        }
+
+        // A streamed output was uploaded while it was written
+        if (streamed) {
+          return { s3Key, etag: streamUploader.etag };
+        }
+
+        // Parts of a split or partitioned output were uploaded during the conversion
+        if (!tempFilePath || !parquetStream) {
+          return { s3Key: `${partsPrefix}/`, etag: null };
+        }
+
+        let stream = parquetStream;
+        if (this.getOutputFormat(relativePath) === 'parquet' && await this.enforceSchema(tempFilePath, relativePath)) {
+          stream.destroy();
+          stream = createReadStream(tempFilePath);
+        }
+
+        const uploadTask = await this.s3Uploader.uploadStream(
+          stream,
+          s3Key,
+          this.s3Uploader.detectContentType(s3Key),
+          entryPath
+        );
+
+        if (!await this.s3Uploader.verifyUpload(s3Key, uploadTask.etag)) {
+          throw new Error(`Upload integrity verification failed for ${s3Key}`);
+        }
+        s3Keys.push(s3Key);
+
+        return { s3Key, etag: uploadTask.etag };
+      } finally {
+        if (tempFilePath) {
+          await parquetConverter.cleanupTempFile(tempFilePath);
+        }
+        if (rejects) {
+          await parquetConverter.cleanupTempFile(rejects.tempFilePath);
+        }
+      }
+    });
+  }
+
+  /**
+   * Compare a converted file's schema with the previous schema of its dataset, apply
+   * SCHEMA_DRIFT_POLICY on drift and record the schema the file is uploaded with
+   * @param parquetPath Converted Parquet file
+   * @param sourcePath Path relative to the watch directory
+   * @param dataset Dataset the file belongs to (resolved from sourcePath by default)
+   * @returns The previous schema if the file was rewritten with it, otherwise null
+   * @throws ConversionError if the schema drifted and the policy is fail
+   */
+  private async enforceSchema(
+    parquetPath: string,
+    sourcePath: string,
+    dataset: string = resolveDataset(sourcePath, this.config.processing.datasets)
+  ): Promise<SchemaColumn[] | null> {
+    // Schemas are kept in the progress database
+    if (!this.progressTracker || !this.parquetConverter) {
+      return null;
+    }
+
+    const columns = await this.parquetConverter.readParquetSchema(parquetPath);
+    const coercedColumns = await this.checkSchema(columns, sourcePath, dataset);
+
+    if (coercedColumns) {
+      await this.parquetConverter.coerceParquetSchema(parquetPath, coercedColumns);
+    }
+
+    return coercedColumns;
+  }
+
+  /**
+   * Compare a schema with the previous schema of its dataset, apply SCHEMA_DRIFT_POLICY
+   * on drift and record the schema the file is uploaded with
+   * @param columns Schema of the converted file
+   * @param sourcePath Path relative to the watch directory
+   * @param dataset Dataset the file belongs to (resolved from sourcePath by default)
+   * @returns The previous schema if the file is to be coerced to it, otherwise null
+   * @throws ConversionError if the schema drifted and the policy is fail
+   */
+  private async checkSchema(
+    columns: SchemaColumn[],
+    sourcePath: string,
+    dataset: string = resolveDataset(sourcePath, this.config.processing.datasets)
+  ): Promise<SchemaColumn[] | null> {
+    if (!this.progressTracker) {
+      return null;
+    }
+
+    const policy = this.config.processing.schemaDriftPolicy;
+    const previous = this.progressTracker.getLatestSchema(dataset);
+    const changes = previous ? compareSchemas(previous.columns, columns) : [];
+
+    if (!previous || changes.length === 0) {
+      this.progressTracker.recordSchema(dataset, sourcePath, columns);
+      return null;
+    }
+
+    const descriptions = changes.map(describeSchemaChange);
+    this.progressTracker.recordSchemaDrift(dataset, sourcePath, changes, policy);
+    this.logger.warn(
+      { dataset, sourcePath, previousSourcePath: previous.sourcePath, changes: descriptions, policy },
+      'Schema drift detected'
+    );
+
+    if (policy === 'fail') {
+      throw new ConversionError(
+        ConversionErrorCode.SCHEMA_DRIFT,
+        `Schema drifted from dataset ${dataset}: ${descriptions.join('; ')}`
+      );
+    }
+
+    if (policy === 'coerce') {
+      this.progressTracker.recordSchema(dataset, sourcePath, previous.columns);
+      return previous.columns;
+    }
+
+    this.progressTracker.recordSchema(dataset, sourcePath, columns);
+    return null;
+  }
+
+  /**
+   * Convert a database file, uploading the parts of a split or partitioned output as they are
+   * written. If the conversion fails, the parts it already uploaded are deleted, so a failed
+   * file leaves no partial output in S3.
+   * @param inputPath Database file on disk
+   * @param fileType File extension (.csv, .json, .xml, etc.)
+   * @param partsPrefix S3 key prefix of the parts, usually the output key minus its extension
+   * @param sourcePath Original file path, recorded on the uploaded objects
+   * @param relativePath Path relative to the watch directory, matched against the conversion rules
+   * @param s3Keys Collects the S3 keys of the uploaded parts once the conversion succeeded
+   * @param streamUploader Consumer uploading an output streamed while it is written
+   * @returns Result of ParquetConverter.convertToParquetStream
+   */
+  private async convertWithParts(
+    inputPath: string,
+    fileType: string,
+    partsPrefix: string,
+    sourcePath: string,
+    relativePath: string,
+    s3Keys: string[],
+    streamUploader: ParquetStreamConsumer
+  ): ReturnType<ParquetConverter['convertToParquetStream']> {
+    const partKeys: string[] = [];
+
+    try {
+      const result = await this.parquetConverter!.convertToParquetStream(
+        inputPath,
+        fileType,
+        relativePath,
+        this.createPartUploader(partsPrefix, sourcePath, relativePath, partKeys),
+        streamUploader
+      );
+
+      s3Keys.push(...partKeys);
+      return result;
+    } catch (error) {
+      await this.deleteObjects(partKeys);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the objects a failed conversion already uploaded, so it leaves no partial output;
+   * an object that cannot be deleted is only logged, as the conversion's own error matters more
+   * @param s3Keys S3 keys of the uploaded objects
+   */
+  private async deleteObjects(s3Keys: string[]): Promise<void> {
+    for (const s3Key of s3Keys) {
+      try {
+        await this.s3Uploader.deleteObject(s3Key);
+      } catch (deleteError) {
+        this.logger.warn({ s3Key, error: deleteError }, 'Failed to delete object of a failed conversion');
+      }
+    }
+  }
+
+  /**
+   * Create the callback uploading the parts of a split Parquet output as <prefix>/part-NNNNN.parquet,
+   * or the files of a partitioned output as <prefix>/<column>=<value>/part-N.parquet
+   * @param prefix S3 key prefix, usually the Parquet key minus .parquet
+   * @param sourcePath Original file path, recorded on the uploaded objects
+   * @param relativePath Path relative to the watch directory, matched against the dataset rules
+   * @param s3Keys Collects the S3 keys of the uploaded parts
+   * @returns Callback for ParquetConverter.convertToParquetStream
+   */
+  private createPartUploader(
+    prefix: string,
+    sourcePath: string,
+    relativePath: string,
+    s3Keys: string[]
+  ): (part: ParquetPart) => Promise<void> {
+    let coercedColumns: SchemaColumn[] | null = null;
+
+    return async (part) => {
+      // The first part's schema stands for the file; later parts follow its coercion
+      if (part.index === 0) {
+        coercedColumns = await this.enforceSchema(part.tempFilePath, relativePath);
+      } else if (coercedColumns) {
+        await this.parquetConverter!.coerceParquetSchema(part.tempFilePath, coercedColumns);
+      }
+
+      const s3Key = `${prefix}/${part.name}`;
+
+      const uploadTask = await this.s3Uploader.uploadStream(
+        createReadStream(part.tempFilePath),
+        s3Key,
+        'application/vnd.apache.parquet',
+        sourcePath
+      );
+
+      if (!await this.s3Uploader.verifyUpload(s3Key, uploadTask.etag)) {
+        throw new Error(`Upload integrity verification failed for ${s3Key}`);
+      }
+
+      s3Keys.push(s3Key);
+      this.logger.debug({ s3Key }, 'Parquet part uploaded to S3');
+    };
+  }
+
+  /**
+   * Create the consumer uploading a converted output while it is written
+   * @param s3Key S3 object key of the converted file
+   * @param sourcePath Original file path, recorded on the uploaded object
+   * @param relativePath Path relative to the watch directory, matched against the dataset rules
+   * @param s3Keys Collects the S3 key once the upload is verified
+   * @returns Consumer for ParquetConverter.convertToParquetStream, holding the uploaded object's ETag once done
+   */
+  private createStreamUploader(
+    s3Key: string,
+    sourcePath: string,
+    relativePath: string,
+    s3Keys: string[]
+  ): ParquetStreamConsumer & { etag: string | null } {
+    const uploader: ParquetStreamConsumer & { etag: string | null } = {
+      etag: null,
+      checkSchema: (columns) => this.checkSchema(columns, relativePath),
+      upload: async (stream) => {
+        const uploadTask = await this.s3Uploader.uploadStream(
+          stream,
+          s3Key,
+          this.s3Uploader.detectContentType(s3Key),
+          sourcePath
+        );
+
+        if (!await this.s3Uploader.verifyUpload(s3Key, uploadTask.etag)) {
+          throw new Error(`Upload integrity verification failed for ${s3Key}`);
+        }
+
+        uploader.etag = uploadTask.etag;
+        s3Keys.push(s3Key);
+        this.logger.debug({ s3Key, etag: uploadTask.etag }, 'Converted file streamed to S3');
+      },
+    };
+
+    return uploader;
+  }
+
+  /**
+   * Upload the rows quarantined from a CSV file next to its converted object
+   * @param rejects Quarantined rows
+   * @param baseS3Key S3 key of the converted object minus its extension (e.g. data/users)
+   * @param sourcePath Original file path, recorded on the uploaded object
+   * @returns S3 key of the rejects object (e.g. data/users.rejects.parquet)
+   */
+  private async uploadRejects(rejects: CsvRejects, baseS3Key: string, sourcePath: string): Promise<string> {
+    const s3Key = `${baseS3Key}.rejects.${rejects.format}`;
+
+    const uploadTask = await this.s3Uploader.uploadStream(
+      createReadStream(rejects.tempFilePath),
+      s3Key,
+      rejects.format === 'parquet' ? 'application/vnd.apache.parquet' : 'application/x-ndjson',
+      sourcePath
+    );
+
+    if (!await this.s3Uploader.verifyUpload(s3Key, uploadTask.etag)) {
+      throw new Error(`Upload integrity verification failed for ${s3Key}`);
+    }
+
+    return s3Key;
+  }
+
+  /**
+   * Convert a SQL dump and upload each table as <prefix>/<table>.parquet (or the extension of
+   * the dump's output format)
+   * @param inputPath SQL dump on disk
+   * @param prefix S3 key prefix, usually the dump's path minus its extension
+   * @param sourcePath Original file path, recorded on the uploaded objects
+   * @param relativePath Dump path relative to the watch directory, matched against the encoding and dataset rules
+   * @param s3Keys Collects the S3 keys of the uploaded tables once every table succeeded
+   * @returns Number of tables uploaded
+   */
+  private async uploadSqlDumpTables(
+    inputPath: string,
+    prefix: string,
+    sourcePath: string,
+    relativePath: string,
+    s3Keys: string[]
+  ): Promise<number> {
+    if (!this.parquetConverter) {
+      throw new Error('ParquetConverter not initialized');
+    }
+
+    const tableKeys: string[] = [];
+    const dataset = resolveDataset(relativePath, this.config.processing.datasets);
+
+    // Each table has its own schema, tracked under <dataset>/<table>; tables in formats other
+    // than Parquet are checked before they are written
+    const tables = this.parquetConverter.convertSqlDumpToParquet(
+      inputPath,
+      relativePath,
+      (table, columns) => this.checkSchema(columns, `${relativePath}/${table}`, `${dataset}/${table}`)
+    );
+
+    try {
+      for await (const table of tables) {
+        const s3Key = `${prefix}/${table.table.replace(/[\/\\]/g, '_')}${OUTPUT_FORMATS[table.format].extension}`;
+
+        if (table.format === 'parquet') {
+          await this.enforceSchema(table.tempFilePath, `${relativePath}/${table.table}`, `${dataset}/${table.table}`);
+        }
+
+        const uploadTask = await this.s3Uploader.uploadStream(
+          createReadStream(table.tempFilePath),
+          s3Key,
+          this.s3Uploader.detectContentType(s3Key),
+          sourcePath
+        );
+        tableKeys.push(s3Key);
+
+        if (!await this.s3Uploader.verifyUpload(s3Key, uploadTask.etag)) {
+          throw new Error(`Upload integrity verification failed for ${s3Key}`);
+        }
+
+        this.logger.debug({ s3Key, rowCount: table.rowCount }, 'SQL table uploaded to S3');
+      }
+    } catch (error) {
+      // A later table failing must not leave the dump's earlier tables behind
+      await this.deleteObjects(tableKeys);
+      throw error;
+    }
+
+    s3Keys.push(...tableKeys);
+    return tableKeys.length;
+  }
+
+  /**
+   * Upload the manifest of an archive's entries under its S3 prefix
+   * @param file Archive metadata
+   * @param entries Manifest entries in archive order
+   * @param complete Whether every entry of the archive was processed
+   * @returns S3 key of the manifest
+   */
+  private async uploadManifest(file: FileMetadata, entries: ManifestEntry[], complete: boolean): Promise<string> {
+    const baseDir = file.relativePath.replace(/\.[^.]+$/, '');
+    const s3Key = `${baseDir}/${MANIFEST_FILE_NAME}`;
+    const manifest = createArchiveManifest(file.relativePath, file.checksum ?? null, file.size, entries, complete);
+
+    await this.s3Uploader.uploadStream(
+      bufferToStream(JSON.stringify(manifest, null, 2)),
+      s3Key,
+      'application/json',
+      file.path
+    );
+
+    this.logger.info({ s3Key, entryCount: entries.length, complete }, 'Archive manifest uploaded');
+    return s3Key;
+  }
+
+  /**
+   * Write a stream to a temporary file for consumers that need a file on disk
+   * (DuckDB reads from paths), removing the file afterwards. The file's space is reserved
+   * from MAX_SPOOL_BYTES first: the declared size, or for content of unknown size as much
+   * as an entry may hold (MAX_ARCHIVE_ENTRY_BYTES, at most the whole budget).
+   * @param content Content to spool
+   * @param entryPath Entry path, whose extension the temporary file keeps so readers can infer the format
+   * @param size Size declared for the content, if known
+   * @param consume Reads the temporary file
+   * @returns Result of consume
+   * @throws ArchiveError with code LIMIT_EXCEEDED if the content exceeds its reservation or
+   *   could never fit in MAX_SPOOL_BYTES
+   */
+  private async withSpooledFile<T>(
+    content: Readable,
+    entryPath: string,
+    size: number | undefined,
+    consume: (tempFilePath: string) => Promise<T>
+  ): Promise<T> {
+    const { maxEntryBytes, maxSpoolBytes } = this.config.archive;
+    const reserved = size ?? Math.min(maxEntryBytes, maxSpoolBytes);
+    const release = await this.spoolBudget.reserve(reserved, `Archive entry ${entryPath}`).catch((error) => {
+      content.destroy();
+      throw error;
+    });
+    const tempFilePath = join(tmpdir(), `${randomUUID()}${extname(entryPath).toLowerCase()}`);
+
+    let written = 0;
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        written += chunk.length;
+        if (written > reserved) {
+          callback(new ArchiveError(
+            ArchiveErrorCode.LIMIT_EXCEEDED,
+            `Archive entry ${entryPath} exceeds the ${reserved} bytes of temporary space reserved for it`
+          ));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(content, limit, createWriteStream(tempFilePath));
+      return await consume(tempFilePath);
+    } finally {
+      await rm(tempFilePath, { force: true });
+      release();
+    }
+  }
+
+  /**
+   * Find the format a database file is converted to
+   * @param relativePath Path relative to the watch directory (for archive entries, the entry's S3 key)
+   * @returns Output format
+   */
+  private getOutputFormat(relativePath: string): OutputFormat {
+    return resolveOutputFormat(relativePath, this.config.processing.outputFormats, this.config.processing.outputFormat);
+  }
+
+  /**
+   * Get content type from detected format, falling back to file extension
+   * @param path File path
+   * @param format Detected format, if any
+   * @returns Content type
+   */
+  private getContentType(path: string, format: FileFormat | null = null): string {
+    return resolveContentType(path, format, this.getExtensionContentType(path));
   }
 
   /**
@@ -345,13 +1180,14 @@ export class FileProcessor {
    * @param path File path
    * @returns Content type
    */
-  private getContentType(path: string): string {
+  private getExtensionContentType(path: string): string {
     const lower = path.toLowerCase();
 
     if (lower.endsWith('.pdf')) return 'application/pdf';
     if (lower.endsWith('.csv')) return 'text/csv';
     if (lower.endsWith('.json')) return 'application/json';
     if (lower.endsWith('.xml')) return 'application/xml';
+    if (lower.endsWith('.sql')) return 'application/sql';
     if (lower.endsWith('.txt')) return 'text/plain';
     if (lower.endsWith('.parquet')) return 'application/vnd.apache.parquet';
 
@@ -1,17 +1,92 @@
 import * as duckdb from 'duckdb';
 import { Readable } from 'stream';
-import { unlink } from 'fs/promises';
-import { createReadStream } from 'fs';
+import { unlink, mkdir, mkdtemp, rename, rm } from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { randomUUID } from 'crypto';
-import type { ProcessingConfig } from '../types/index.js';
+import {
+  ConversionErrorCode,
+  type ProcessingConfig,
+  type CsvDialect,
+  type RejectsFormat,
+  type SchemaColumn,
+  type ColumnRule,
+  type OutputFormat,
+} from '../types/index.js';
+import { ConversionError } from '../lib/errors.js';
+import { spoolSqlDump, type SpooledSqlTable } from '../lib/sqlDump.js';
+import { analyzeXml, findRecordPath, spoolXmlRecords } from '../lib/xml.js';
+import { matchesGlob } from '../lib/paths.js';
+import { sqlLiteral, sqlIdentifier } from '../lib/sql.js';
+import { buildColumnProjection } from '../lib/columnRules.js';
+import { resolveDataset } from '../lib/schema.js';
+import { OUTPUT_FORMATS, resolveOutputFormat } from '../lib/outputFormat.js';
+import { sniffCsvFile } from '../lib/csvDialect.js';
+import { detectFileEncoding, createUtf8Transcoder } from '../lib/encoding.js';
+import { createFifo, streamThroughFifo } from '../lib/streams.js';
+import { handOffParts, handOffPartitions, type ParquetPart } from '../lib/parts.js';
 import { getLogger, createChildLogger } from '../lib/logger.js';
 
+export interface SqlTableParquet {
+  /** Table name, schema-qualified unless in the default schema */
+  table: string;
+
+  /** Temporary output file, removed once the consumer requests the next table */
+  tempFilePath: string;
+
+  /** Number of rows converted */
+  rowCount: number;
+
+  /** Format the table was written in */
+  format: OutputFormat;
+}
+
+export interface CsvRejects {
+  /** Temporary file listing the rejected rows with their line number and reason */
+  tempFilePath: string;
+
+  /** Format of the rejects file */
+  format: RejectsFormat;
+
+  /** Number of rejected rows */
+  rowCount: number;
+}
+
+export interface ParquetLayout {
+  /** Output format (Parquet by default); only Parquet outputs are split or partitioned */
+  format?: OutputFormat;
+
+  /**
+   * Write parts of about MAX_PART_BYTES into the output directory; DuckDB starts a
+   * new part once the current one exceeds the size after a row group
+   */
+  split?: boolean;
+
+  /** Write Hive-style partition directories (column=value/...) by these columns into the output directory */
+  partitionBy?: string[];
+
+  /** The output path is a named pipe, read while DuckDB writes to it */
+  pipe?: boolean;
+
+  /** Checks the output's columns before any row is written, returning columns to coerce them to (or null) */
+  checkSchema?: (columns: SchemaColumn[]) => Promise<SchemaColumn[] | null>;
+}
+
+export interface ParquetStreamConsumer {
+  /** Checks the output's columns before any row is written, returning columns to coerce them to (or null) */
+  checkSchema: (columns: SchemaColumn[]) => Promise<SchemaColumn[] | null>;
+
+  /** Uploads the Parquet data as DuckDB writes it; the stream only ends once the conversion succeeded */
+  upload: (stream: Readable) => Promise<void>;
+}
+
 export class ParquetConverter {
   private config: ProcessingConfig;
   private logger = getLogger();
   private db: duckdb.Database;
+  private arrowExtension: Promise<void> | null = null;
 
   constructor(config: ProcessingConfig) {
     this.config = config;
@@ -21,23 +96,121 @@ export class ParquetConverter {
     this.logger.info('ParquetConverter initialized with DuckDB');
   }
 
+  /**
+   * Check the parts of the configuration only DuckDB can validate, so a bad setting stops the
+   * service at startup rather than failing every file it applies to
+   * @throws Error if OUTPUT_FORMAT or OUTPUT_FORMATS select arrow but the nanoarrow extension
+   *   cannot be loaded, or a COLUMN_RULES_FILE cast type or derived expression does not bind
+   */
+  async validateConfig(): Promise<void> {
+    const formats = [this.config.outputFormat, ...this.config.outputFormats.map((rule) => rule.format)];
+
+    if (formats.includes('arrow')) {
+      try {
+        await this.loadArrowExtension();
+      } catch (error) {
+        throw new Error(
+          `OUTPUT_FORMAT(S) selects arrow, but DuckDB's nanoarrow extension cannot be loaded; ` +
+          `install it with INSTALL nanoarrow FROM community: ${(error as Error).message}`,
+          { cause: error }
+        );
+      }
+    }
+
+    for (const rule of this.config.columnRules) {
+      await this.validateColumnRule(rule);
+    }
+  }
+
+  /**
+   * Bind a column rule's casts and derived columns on an empty relation. The columns the
+   * expressions read besides the cast ones are unknown until a file matches, so they are
+   * added as untyped NULLs as the binder asks for them.
+   * @param rule Column rule
+   * @throws Error naming the rule and the cast or derived column that does not bind
+   */
+  private async validateColumnRule(rule: ColumnRule): Promise<void> {
+    const conn = this.db.connect();
+    const columns = new Map<string, string>();
+
+    try {
+      for (const [name, type] of Object.entries(rule.cast ?? {})) {
+        try {
+          await this.query(conn, `DESCRIBE SELECT CAST(NULL AS ${type}) AS ${sqlIdentifier(name)}`);
+        } catch (error) {
+          throw new Error(
+            `Invalid COLUMN_RULES_FILE rule for ${rule.pattern}: cast of ${name} to ${type}: ${(error as Error).message}`,
+            { cause: error }
+          );
+        }
+        columns.set(name, `CAST(NULL AS ${type})`);
+      }
+
+      for (const [name, expression] of Object.entries(rule.derive ?? {})) {
+        for (;;) {
+          const relation = [...columns].map(([column, value]) => `${value} AS ${sqlIdentifier(column)}`);
+          try {
+            await this.query(conn, `DESCRIBE SELECT (${expression}) AS ${sqlIdentifier(name)}` +
+              (relation.length > 0 ? ` FROM (SELECT ${relation.join(', ')})` : ''));
+            break;
+          } catch (error) {
+            const message = (error as Error).message;
+            const missing = /Referenced column "([^"]+)" (?:was )?not found/.exec(message)?.[1];
+
+            if (missing !== undefined && !columns.has(missing)) {
+              columns.set(missing, 'NULL');
+              continue;
+            }
+            // Overloads of e.g. date_part can only be told apart once the column's type is known
+            if (message.includes('Could not choose a best candidate function')) {
+              break;
+            }
+            throw new Error(
+              `Invalid COLUMN_RULES_FILE rule for ${rule.pattern}: derived column ${name}: ${message}`,
+              { cause: error }
+            );
+          }
+        }
+      }
+    } finally {
+      conn.close();
+    }
+  }
+
   /**
    * Convert CSV file to Parquet
    * @param inputPath Input CSV file path
    * @param outputPath Output Parquet file path (temporary)
+   * @param dialect Dialect to read the file with; column types are still detected
+   * @param metadata Key-value metadata for the Parquet file
+   * @param columnRule Column casts and transformations to apply
+   * @param layout Whether outputPath is one file or a directory of parts or partitions
    * @returns Output file path
    */
-  async convertCsvToParquet(inputPath: string, outputPath: string): Promise<string> {
+  async convertCsvToParquet(
+    inputPath: string,
+    outputPath: string,
+    dialect: CsvDialect,
+    metadata: Record<string, string> = {},
+    columnRule?: ColumnRule,
+    layout: ParquetLayout = {}
+  ): Promise<string> {
     const logger = createChildLogger({ inputPath, outputPath });
-    logger.info('Converting CSV to Parquet');
+    logger.info({ dialect }, 'Converting CSV to Parquet');
+
+    const select = await this.selectColumns(
+      `SELECT * FROM ${this.readCsv(inputPath, dialect, columnRule)}`,
+      columnRule,
+      layout.checkSchema
+    );
 
     return new Promise((resolve, reject) => {
       const conn = this.db.connect();
 
       const query = `
-        COPY (SELECT * FROM read_csv_auto('${inputPath}'))
+        COPY (${select})
         TO '${outputPath}'
-        (FORMAT PARQUET, COMPRESSION '${this.config.parquetCompression}');
+        ${this.copyOptions(metadata, layout)};
       `;
 
       conn.all(query, (err) => {
@@ -55,23 +228,305 @@ export class ParquetConverter {
     });
   }
 
+  /**
+   * Convert CSV file to Parquet, writing rows that fail to parse or have the wrong
+   * number of columns to a rejects file instead of failing the whole file
+   * @param inputPath Input CSV file path
+   * @param outputPath Output Parquet file path (temporary), holding the good rows
+   * @param dialect Dialect to read the file with; column types are still detected
+   * @param metadata Key-value metadata for the Parquet files
+   * @param columnRule Column casts and transformations to apply; values failing a cast are rejected
+   * @param layout Whether outputPath is one file or a directory of parts or partitions
+   * @returns Rejected rows, or null if every row was read
+   * @throws ConversionError with code REJECT_LIMIT_EXCEEDED if the share of rejected rows exceeds MAX_REJECT_RATIO
+   */
+  async convertCsvToParquetWithRejects(
+    inputPath: string,
+    outputPath: string,
+    dialect: CsvDialect,
+    metadata: Record<string, string> = {},
+    columnRule?: ColumnRule,
+    layout: ParquetLayout = {}
+  ): Promise<CsvRejects | null> {
+    const logger = createChildLogger({ inputPath, outputPath });
+    logger.info({ dialect }, 'Converting CSV to Parquet, quarantining malformed rows');
+
+    // DuckDB keeps the rejected rows in temporary tables, so every statement runs on one connection
+    const conn = this.db.connect();
+    const tempFilePath = join(tmpdir(), `${randomUUID()}.rejects.${this.config.rejectsFormat}`);
+
+    try {
+      const select = await this.selectColumns(`SELECT * FROM ${this.readCsv(inputPath, dialect, columnRule, [
+        'ignore_errors = true',
+        'store_rejects = true',
+        "rejects_table = 'csv_rejects'",
+        "rejects_scan = 'csv_reject_scans'",
+      ])}`, columnRule, layout.checkSchema);
+
+      // A row can fail in more than one column
+      const countRejects = async (): Promise<number> => {
+        const [rejected] = await this.query(conn, 'SELECT count(DISTINCT line) AS row_count FROM csv_rejects');
+        return Number(rejected.row_count);
+      };
+
+      // Parts of a split output and a streamed output are uploaded while they are written, so
+      // their share of rejected rows is checked by a first pass that writes nothing
+      if (layout.split || layout.pipe) {
+        const [scanned] = await this.query(conn, `SELECT count(*) AS row_count FROM (${select})`);
+        this.checkRejectRatio(Number(scanned.row_count), await countRejects());
+        await this.query(conn, 'DELETE FROM csv_rejects');
+      }
+
+      const [copied] = await this.query(conn, `
+        COPY (${select})
+        TO '${outputPath}'
+        ${this.copyOptions(metadata, layout)};
+      `);
+
+      const rowCount = Number(copied.Count);
+      const rejectCount = await countRejects();
+
+      if (rejectCount === 0) {
+        logger.info({ rowCount }, 'CSV converted to Parquet successfully');
+        return null;
+      }
+
+      this.checkRejectRatio(rowCount, rejectCount);
+
+      await this.query(conn, `
+        COPY (
+          SELECT line, error_type AS reason, column_name, error_message AS message, csv_line AS raw_line
+          FROM csv_rejects
+          ORDER BY line, column_idx
+        )
+        TO '${tempFilePath}'
+        ${this.config.rejectsFormat === 'parquet' ? this.copyOptions(metadata) : '(FORMAT JSON)'};
+      `);
+
+      logger.warn({ rowCount, rejectCount }, 'CSV converted to Parquet, malformed rows quarantined');
+      return { tempFilePath, format: this.config.rejectsFormat, rowCount: rejectCount };
+    } catch (error) {
+      await rm(tempFilePath, { force: true });
+      logger.error({ error }, 'Failed to convert CSV to Parquet');
+      throw error;
+    } finally {
+      conn.close();
+    }
+  }
+
+  /**
+   * Fail a quarantining conversion that rejected too many rows
+   * @param rowCount Number of rows kept
+   * @param rejectCount Number of rows rejected
+   * @throws ConversionError with code REJECT_LIMIT_EXCEEDED if the share of rejected rows exceeds MAX_REJECT_RATIO
+   */
+  private checkRejectRatio(rowCount: number, rejectCount: number): void {
+    if (rejectCount > 0 && rejectCount / (rowCount + rejectCount) > this.config.maxRejectRatio) {
+      throw new ConversionError(
+        ConversionErrorCode.REJECT_LIMIT_EXCEEDED,
+        `${rejectCount} of ${rowCount + rejectCount} CSV rows are malformed, more than MAX_REJECT_RATIO (${this.config.maxRejectRatio})`
+      );
+    }
+  }
+
+  /**
+   * Build the read_csv call for a file in a dialect
+   * @param inputPath CSV file path
+   * @param dialect Dialect to read the file with
+   * @param columnRule Column rule whose casts are read directly as their type, so
+   *   e.g. phone numbers keep their leading zeros
+   * @param options Further read_csv options
+   * @returns Table function call
+   */
+  private readCsv(inputPath: string, dialect: CsvDialect, columnRule?: ColumnRule, options: string[] = []): string {
+    if (columnRule?.cast && Object.keys(columnRule.cast).length > 0) {
+      const types = Object.entries(columnRule.cast).map(([name, type]) => `${sqlLiteral(name)}: ${sqlLiteral(type)}`);
+      options = [`types = {${types.join(', ')}}`, ...options];
+    }
+
+    return `read_csv('${inputPath}', ${[
+      `delim = ${sqlLiteral(dialect.delimiter)}`,
+      `quote = ${sqlLiteral(dialect.quote)}`,
+      `escape = ${sqlLiteral(dialect.escape)}`,
+      `header = ${dialect.header}`,
+      `skip = ${dialect.skipRows}`,
+      ...options,
+    ].join(', ')})`;
+  }
+
+  /**
+   * Find the CSV dialect of a file: sniffed from its first bytes, with any fields
+   * set by the first matching CSV_DIALECTS rule taking precedence
+   * @param inputPath CSV or TSV file path
+   * @param relativePath Path relative to the watch directory, matched against the rules
+   * @returns Dialect to read the file with
+   */
+  async resolveCsvDialect(inputPath: string, relativePath: string): Promise<CsvDialect> {
+    const sniffed = await sniffCsvFile(inputPath);
+    const rule = this.config.csvDialects.find((rule) => matchesGlob(relativePath, rule.pattern));
+
+    if (!rule) {
+      return sniffed;
+    }
+
+    return {
+      delimiter: rule.delimiter ?? sniffed.delimiter,
+      quote: rule.quote ?? sniffed.quote,
+      escape: rule.escape ?? sniffed.escape,
+      header: rule.header ?? sniffed.header,
+      skipRows: rule.skipRows ?? sniffed.skipRows,
+    };
+  }
+
+  /**
+   * Find the encoding of a file: from the first matching FILE_ENCODINGS rule, or
+   * detected from its first bytes
+   * @param inputPath File path
+   * @param relativePath Path relative to the watch directory, matched against the rules
+   * @returns Canonical encoding name
+   */
+  async resolveEncoding(inputPath: string, relativePath: string): Promise<string> {
+    const rule = this.config.fileEncodings.find((rule) => matchesGlob(relativePath, rule.pattern));
+    return rule?.encoding ?? detectFileEncoding(inputPath);
+  }
+
+  /**
+   * Transcode a file to UTF-8 for DuckDB, which only reads UTF-8
+   * @param inputPath File path
+   * @param encoding Source encoding
+   * @param directory Directory for the transcoded copy
+   * @returns The input path if already UTF-8, otherwise the path of a UTF-8 copy the caller removes
+   */
+  private async transcodeToUtf8(inputPath: string, encoding: string, directory: string = tmpdir()): Promise<string> {
+    if (encoding === 'utf-8') {
+      return inputPath;
+    }
+
+    const outputPath = join(directory, `${randomUUID()}.utf8`);
+    try {
+      await pipeline(createReadStream(inputPath), createUtf8Transcoder(encoding), createWriteStream(outputPath));
+    } catch (error) {
+      await rm(outputPath, { force: true });
+      throw error;
+    }
+
+    this.logger.debug({ inputPath, encoding, outputPath }, 'Transcoded to UTF-8');
+    return outputPath;
+  }
+
+  /**
+   * Apply a column rule to a query, then let the caller check the resulting columns
+   * @param source SELECT statement reading the file
+   * @param columnRule Column rule, if any matched the file
+   * @param checkSchema Callback checking the output's columns, returning columns to coerce them to
+   * @returns SELECT statement with the rule's casts, renames, derived columns, drops and order,
+   *   coerced to the columns the callback returned
+   * @throws Error if the rule does not fit the file's columns
+   */
+  private async selectColumns(
+    source: string,
+    columnRule?: ColumnRule,
+    checkSchema?: ParquetLayout['checkSchema']
+  ): Promise<string> {
+    if (!columnRule && !checkSchema) {
+      return source;
+    }
+
+    const conn = this.db.connect();
+
+    try {
+      let select = source;
+
+      if (columnRule) {
+        const columns = (await this.describe(conn, select)).map((column) => column.name);
+        select = `SELECT ${buildColumnProjection(columns, columnRule)} FROM (${select})`;
+      }
+
+      if (checkSchema) {
+        const columns = await this.describe(conn, select);
+        const coerced = await checkSchema(columns);
+        if (coerced) {
+          select = `SELECT ${this.coercedColumns(columns, coerced)} FROM (${select})`;
+        }
+      }
+
+      return select;
+    } finally {
+      conn.close();
+    }
+  }
+
+  /**
+   * Build the COPY options writing an output file (Parquet unless the layout names another format)
+   * @param metadata Key-value metadata for the Parquet file; other formats have none
+   * @param layout Output format, and whether to write one file or a directory of parts or partitions
+   * @returns Parenthesized option list
+   */
+  private copyOptions(metadata: Record<string, string>, layout: ParquetLayout = {}): string {
+    const format = layout.format ?? 'parquet';
+    const options = {
+      parquet: [
+        'FORMAT PARQUET',
+        `COMPRESSION '${this.config.parquetCompression}'`,
+        `ROW_GROUP_SIZE ${this.config.rowGroupSize}`,
+      ],
+      arrow: ['FORMAT ARROWS'],
+      'csv.gz': ['FORMAT CSV', 'HEADER true', "COMPRESSION 'gzip'"],
+      ndjson: ['FORMAT JSON'],
+    }[format];
+
+    if (layout.partitionBy) {
+      const columns = layout.partitionBy.map(sqlIdentifier).join(', ');
+      options.push(`PARTITION_BY (${columns})`, "FILENAME_PATTERN 'part-{i}'");
+    } else if (layout.split) {
+      options.push(`FILE_SIZE_BYTES ${this.config.maxPartBytes}`, "FILENAME_PATTERN 'part-{i}'");
+    }
+
+    // DuckDB would otherwise write next to an existing output path and rename over it
+    if (layout.pipe) {
+      options.push('USE_TMP_FILE false');
+    }
+
+    if (format === 'parquet' && Object.keys(metadata).length > 0) {
+      const entries = Object.entries(metadata).map(([key, value]) => `${sqlLiteral(key)}: ${sqlLiteral(value)}`);
+      options.push(`KV_METADATA {${entries.join(', ')}}`);
+    }
+
+    return `(${options.join(', ')})`;
+  }
+
   /**
    * Convert JSON file to Parquet
    * @param inputPath Input JSON file path
    * @param outputPath Output Parquet file path (temporary)
+   * @param metadata Key-value metadata for the Parquet file
+   * @param columnRule Column casts and transformations to apply
+   * @param layout Whether outputPath is one file or a directory of parts or partitions
    * @returns Output file path
    */
-  async convertJsonToParquet(inputPath: string, outputPath: string): Promise<string> {
+  async convertJsonToParquet(
+    inputPath: string,
+    outputPath: string,
+    metadata: Record<string, string> = {},
+    columnRule?: ColumnRule,
+    layout: ParquetLayout = {}
+  ): Promise<string> {
     const logger = createChildLogger({ inputPath, outputPath });
     logger.info('Converting JSON to Parquet');
 
+    const select = await this.selectColumns(
+      `SELECT * FROM read_json_auto('${inputPath}')`,
+      columnRule,
+      layout.checkSchema
+    );
+
     return new Promise((resolve, reject) => {
       const conn = this.db.connect();
 
       const query = `
-        COPY (SELECT * FROM read_json_auto('${inputPath}'))
+        COPY (${select})
         TO '${outputPath}'
-        (FORMAT PARQUET, COMPRESSION '${this.config.parquetCompression}');
+        ${this.copyOptions(metadata, layout)};
       `;
 
       conn.all(query, (err) => {
@@ -90,43 +545,423 @@ export class ParquetConverter {
   }
 
   /**
-   * Convert database file to Parquet and return as stream
+   * Convert XML file to Parquet, one row per record element.
+   * The file is read twice, first for its structure and then for its records, and
+   * the records are spooled to newline-delimited JSON, so it is never held in memory.
+   * @param inputPath Input XML file path
+   * @param outputPath Output Parquet file path (temporary)
+   * @param recordElement Name of the element holding one record; auto-detected when omitted
+   * @param metadata Key-value metadata for the Parquet file
+   * @param columnRule Column casts and transformations to apply
+   * @param layout Whether outputPath is one file or a directory of parts or partitions
+   * @returns Output file path
+   */
+  async convertXmlToParquet(
+    inputPath: string,
+    outputPath: string,
+    recordElement?: string,
+    metadata: Record<string, string> = {},
+    columnRule?: ColumnRule,
+    layout: ParquetLayout = {}
+  ): Promise<string> {
+    const logger = createChildLogger({ inputPath, outputPath });
+    logger.info({ recordElement }, 'Converting XML to Parquet');
+
+    const recordsPath = join(tmpdir(), `${randomUUID()}.ndjson`);
+
+    try {
+      const structure = await analyzeXml(createReadStream(inputPath));
+      const recordPath = findRecordPath(structure, recordElement);
+      logger.debug({ recordPath }, 'XML record element selected');
+
+      const recordCount = await spoolXmlRecords(createReadStream(inputPath), structure, recordPath, recordsPath);
+      if (recordCount === 0) {
+        throw new Error(`XML file has no ${recordPath} records`);
+      }
+
+      // Every record is sampled, so columns that only appear late in the file are kept
+      const select = await this.selectColumns(
+        `SELECT * FROM read_json('${recordsPath}', format = 'newline_delimited', sample_size = -1)`,
+        columnRule,
+        layout.checkSchema
+      );
+
+      await this.runQuery(`
+        COPY (${select})
+        TO '${outputPath}'
+        ${this.copyOptions(metadata, layout)};
+      `);
+
+      logger.info({ recordPath, recordCount }, 'XML converted to Parquet successfully');
+      return outputPath;
+    } catch (error) {
+      logger.error({ error }, 'Failed to convert XML to Parquet');
+      throw error;
+    } finally {
+      await rm(recordsPath, { force: true });
+    }
+  }
+
+  /**
+   * Convert a MySQL or PostgreSQL plain-text dump to one Parquet file per table, or one file
+   * in the format of the first OUTPUT_FORMATS rule matching the dump (OUTPUT_FORMAT otherwise).
+   * Rows are spooled to a CSV file per table first, so the dump is never held in memory.
+   * @param inputPath Input SQL dump path
+   * @param relativePath Path relative to the watch directory, matched against the
+   *   encoding and output format rules (defaults to inputPath)
+   * @param checkSchema Checks a table's columns before it is written in a format other than
+   *   Parquet, whose schema cannot be read back, returning columns to coerce them to (or null)
+   * @yields Each table's output file, in order of first appearance in the dump
+   */
+  async *convertSqlDumpToParquet(
+    inputPath: string,
+    relativePath: string = inputPath,
+    checkSchema?: (table: string, columns: SchemaColumn[]) => Promise<SchemaColumn[] | null>
+  ): AsyncGenerator<SqlTableParquet> {
+    const logger = createChildLogger({ inputPath });
+    const workDirectory = await mkdtemp(join(tmpdir(), 'sql-dump-'));
+    const format = resolveOutputFormat(relativePath, this.config.outputFormats, this.config.outputFormat);
+
+    try {
+      const encoding = await this.resolveEncoding(inputPath, relativePath);
+      const metadata = { source_encoding: encoding };
+      const utf8Path = await this.transcodeToUtf8(inputPath, encoding, workDirectory);
+
+      if (format === 'arrow') {
+        await this.loadArrowExtension();
+      }
+
+      logger.info({ encoding, format }, 'Splitting SQL dump into tables');
+      const tables = await spoolSqlDump(createReadStream(utf8Path), workDirectory);
+      logger.info({ tableCount: tables.length }, 'SQL dump split into tables');
+
+      for (const table of tables) {
+        if (table.columns.length === 0) {
+          logger.warn({ table: table.name }, 'SQL table has no columns, skipping');
+          continue;
+        }
+
+        const tempFilePath = join(tmpdir(), `${randomUUID()}${OUTPUT_FORMATS[format].extension}`);
+
+        try {
+          const select = await this.selectColumns(
+            this.selectSpooledTable(table),
+            undefined,
+            format !== 'parquet' && checkSchema ? (columns) => checkSchema(table.name, columns) : undefined
+          );
+
+          await this.runQuery(`
+            COPY (${select})
+            TO '${tempFilePath}'
+            ${this.copyOptions(metadata, { format })};
+          `);
+
+          logger.info({ table: table.name, rowCount: table.rowCount, format }, 'SQL table converted');
+          yield { table: table.name, tempFilePath, rowCount: table.rowCount, format };
+        } finally {
+          await this.cleanupTempFile(tempFilePath);
+          await rm(table.csvPath, { force: true });
+        }
+      }
+    } finally {
+      await rm(workDirectory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Build the query reading a spooled table with its DDL types
+   * @param table Spooled table
+   * @returns SELECT statement
+   */
+  private selectSpooledTable(table: SpooledSqlTable): string {
+    // read_csv cannot take column types from an empty file
+    if (table.rowCount === 0) {
+      const columns = table.columns
+        .map((column) => `NULL::${column.type ?? 'VARCHAR'} AS ${sqlIdentifier(column.name)}`)
+        .join(', ');
+      return `SELECT * FROM (SELECT ${columns}) WHERE false`;
+    }
+
+    // Every value is quoted, so only an unquoted \N is NULL
+    const options = [
+      'header = false',
+      "delim = ','",
+      `quote = '"'`,
+      `escape = '"'`,
+      "nullstr = '\\N'",
+      'allow_quoted_nulls = false',
+    ];
+
+    // Tables without DDL keep their column names and have their types inferred
+    if (table.columns.every((column) => column.type !== null)) {
+      const columns = table.columns
+        .map((column) => `${sqlLiteral(column.name)}: ${sqlLiteral(column.type!)}`)
+        .join(', ');
+      options.push(`columns = {${columns}}`);
+    } else {
+      options.push(`names = [${table.columns.map((column) => sqlLiteral(column.name)).join(', ')}]`);
+    }
+
+    return `SELECT * FROM read_csv('${table.csvPath}', ${options.join(', ')})`;
+  }
+
+  /**
+   * Read the columns of a Parquet file
+   * @param parquetPath Parquet file path
+   * @returns Column names and DuckDB types, in file order
+   */
+  async readParquetSchema(parquetPath: string): Promise<SchemaColumn[]> {
+    const conn = this.db.connect();
+
+    try {
+      return await this.describe(conn, `SELECT * FROM read_parquet('${parquetPath}')`);
+    } finally {
+      conn.close();
+    }
+  }
+
+  /**
+   * Rewrite a Parquet file in place with the columns of an earlier schema: columns are cast
+   * to their earlier type, missing columns are added as NULL and new columns are dropped
+   * @param parquetPath Parquet file path
+   * @param columns Schema to coerce to
+   * @throws Error if a value cannot be cast to its earlier type
+   */
+  async coerceParquetSchema(parquetPath: string, columns: SchemaColumn[]): Promise<void> {
+    const coercedPath = join(tmpdir(), `${randomUUID()}.parquet`);
+    const conn = this.db.connect();
+
+    try {
+      const existing = await this.readParquetSchema(parquetPath);
+
+      // Keep the metadata written at conversion (e.g. source_encoding)
+      const metadataRows = await this.query(
+        conn,
+        `SELECT decode(key) AS key, decode(value) AS value FROM parquet_kv_metadata('${parquetPath}')`
+      );
+      const metadata = Object.fromEntries(metadataRows.map((row) => [String(row.key), String(row.value)]));
+
+      const select = this.coercedColumns(existing, columns);
+
+      await this.query(
+        conn,
+        `COPY (SELECT ${select} FROM read_parquet('${parquetPath}')) TO '${coercedPath}' ${this.copyOptions(metadata)}`
+      );
+      await rename(coercedPath, parquetPath);
+    } catch (error) {
+      await rm(coercedPath, { force: true });
+      throw error;
+    } finally {
+      conn.close();
+    }
+  }
+
+  /**
+   * Build the select list coercing columns to an earlier schema
+   * @param existing Columns of the data
+   * @param columns Schema to coerce to
+   * @returns Select list casting columns to their earlier type, adding missing ones as NULL
+   *   and leaving out new ones
+   */
+  private coercedColumns(existing: SchemaColumn[], columns: SchemaColumn[]): string {
+    const names = new Set(existing.map((column) => column.name));
+
+    return columns
+      .map(({ name, type }) => {
+        const value = names.has(name) ? `CAST(${sqlIdentifier(name)} AS ${type})` : `NULL::${type}`;
+        return `${value} AS ${sqlIdentifier(name)}`;
+      })
+      .join(', ');
+  }
+
+  /**
+   * Find the columns of a query
+   * @param conn Connection
+   * @param select SELECT statement
+   * @returns Column names and DuckDB types
+   */
+  private async describe(conn: duckdb.Connection, select: string): Promise<SchemaColumn[]> {
+    const rows = await this.query(conn, `DESCRIBE ${select}`);
+    return rows.map((row) => ({ name: String(row.column_name), type: String(row.column_type) }));
+  }
+
+  /**
+   * Run a statement on a fresh connection
+   * @param query SQL statement
+   */
+  private async runQuery(query: string): Promise<void> {
+    const conn = this.db.connect();
+
+    try {
+      await this.query(conn, query);
+    } finally {
+      conn.close();
+    }
+  }
+
+  /**
+   * Run a statement on a connection
+   * @param conn Connection
+   * @param query SQL statement
+   * @returns Result rows
+   */
+  private query(conn: duckdb.Connection, query: string): Promise<duckdb.TableData> {
+    return new Promise((resolve, reject) => {
+      conn.all(query, (err, rows) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(rows);
+      });
+    });
+  }
+
+  /**
+   * Convert database file to Parquet, or the format of the first matching OUTPUT_FORMATS rule
+   * (OUTPUT_FORMAT otherwise), and return as stream
    * @param inputPath Input file path
    * @param fileType File extension (.csv, .json, .xml, etc.)
-   * @returns Readable stream of Parquet data and temp file path
+   * @param relativePath Path relative to the watch directory, matched against the
+   *   encoding, CSV dialect, XML record element and column rules (defaults to inputPath)
+   * @param onPart Callback uploading a part; with MAX_PART_BYTES set, an output larger than
+   *   that is split and each part is handed to it as soon as it is written, and the output of a
+   *   dataset with PARTITION_COLUMNS is handed to it partition file by partition file
+   * @param onStream Consumer of an output that is neither split nor partitioned; with
+   *   STREAM_PARQUET_OUTPUT set, it checks the output's schema and uploads the output while
+   *   DuckDB writes it through a named pipe, so the output never touches the disk
+   * @returns Readable stream of Parquet data and its temp file path (both absent if the output
+   *   was split, partitioned or streamed), the number of parts, whether the output was streamed,
+   *   the output format, the source encoding, the dialect CSV/TSV files were read with, their quarantined rows
+   *   (see QUARANTINE_MALFORMED_ROWS) and the column rule applied
    */
   async convertToParquetStream(
     inputPath: string,
-    fileType: string
-  ): Promise<{ stream: Readable; tempFilePath: string; parquetFileName: string }> {
+    fileType: string,
+    relativePath: string = inputPath,
+    onPart?: (part: ParquetPart) => Promise<void>,
+    onStream?: ParquetStreamConsumer
+  ): Promise<{
+    stream?: Readable;
+    tempFilePath?: string;
+    partCount: number;
+    streamed: boolean;
+    format: OutputFormat;
+    parquetFileName: string;
+    encoding: string;
+    csvDialect?: CsvDialect;
+    rejects?: CsvRejects;
+    columnRule?: ColumnRule;
+  }> {
     const logger = createChildLogger({ inputPath, fileType });
 
     // Generate temporary output path
-    const tempFilePath = join(tmpdir(), `${randomUUID()}.parquet`);
+    const format = resolveOutputFormat(relativePath, this.config.outputFormats, this.config.outputFormat);
+    const tempFilePath = join(tmpdir(), `${randomUUID()}${OUTPUT_FORMATS[format].extension}`);
+    // Partitioned datasets and Parquet outputs that may exceed MAX_PART_BYTES are written to a directory,
+    // and other outputs with a consumer to a named pipe in place of the temporary file
+    const partitionBy = onPart && this.config.partitionColumns[resolveDataset(relativePath, this.config.datasets)];
+    let layout: ParquetLayout = { format };
+    if (format === 'parquet' && partitionBy) {
+      layout = { format, partitionBy };
+    } else if (format === 'parquet' && this.config.maxPartBytes > 0 && onPart) {
+      layout = { format, split: true };
+    } else if (this.config.streamParquetOutput && onStream) {
+      layout = { format, pipe: true, checkSchema: onStream.checkSchema };
+    } else if (format !== 'parquet' && onStream) {
+      // Only Parquet files can have their schema read back, so other formats are checked before writing
+      layout = { format, checkSchema: onStream.checkSchema };
+    }
+    const partsDirectory = join(tmpdir(), `${randomUUID()}.parts`);
+    const outputPath = layout.partitionBy || layout.split ? partsDirectory : tempFilePath;
+    let utf8Path = inputPath;
+    let csvDialect: CsvDialect | undefined;
+    let rejects: CsvRejects | undefined;
 
     try {
+      const encoding = await this.resolveEncoding(inputPath, relativePath);
+      const metadata = { source_encoding: encoding };
+      utf8Path = await this.transcodeToUtf8(inputPath, encoding);
+      const columnRule = this.config.columnRules.find((rule) => matchesGlob(relativePath, rule.pattern));
+
+      if (format === 'arrow') {
+        await this.loadArrowExtension();
+      }
+
       // Convert based on file type
-      if (fileType === '.csv' || fileType === '.tsv') {
-        await this.convertCsvToParquet(inputPath, tempFilePath);
-      } else if (fileType === '.json' || fileType === '.jsonl') {
-        await this.convertJsonToParquet(inputPath, tempFilePath);
-      } else if (fileType === '.xml') {
-        // XML conversion requires special handling
-        // For now, treat as CSV (DuckDB doesn't natively support XML)
-        throw new Error('XML to Parquet conversion not yet implemented');
+      const convert = async (): Promise<void> => {
+        if (fileType === '.csv' || fileType === '.tsv') {
+          csvDialect = await this.resolveCsvDialect(utf8Path, relativePath);
+          if (this.config.quarantineMalformedRows) {
+            rejects = await this.convertCsvToParquetWithRejects(
+              utf8Path, outputPath, csvDialect, metadata, columnRule, layout
+            ) ?? undefined;
+          } else {
+            await this.convertCsvToParquet(utf8Path, outputPath, csvDialect, metadata, columnRule, layout);
+          }
+        } else if (fileType === '.json' || fileType === '.jsonl') {
+          await this.convertJsonToParquet(utf8Path, outputPath, metadata, columnRule, layout);
+        } else if (fileType === '.xml') {
+          const rule = this.config.xmlRecordElements.find((rule) => matchesGlob(relativePath, rule.pattern));
+          await this.convertXmlToParquet(utf8Path, outputPath, rule?.element, metadata, columnRule, layout);
+        } else {
+          throw new Error(`Unsupported file type for Parquet conversion: ${fileType}`);
+        }
+      };
+
+      let partCount = 0;
+      if (layout.partitionBy) {
+        await mkdir(partsDirectory);
+        await convert();
+        partCount = await handOffPartitions(partsDirectory, onPart!);
+      } else if (layout.split) {
+        await mkdir(partsDirectory);
+        partCount = await handOffParts(convert(), partsDirectory, onPart!);
+
+        // An output that fit in one part is returned like an unsplit one
+        if (partCount === 0) {
+          await rename(join(partsDirectory, 'part-0.parquet'), tempFilePath);
+        }
+      } else if (layout.pipe) {
+        await createFifo(tempFilePath);
+        await streamThroughFifo(convert, tempFilePath, (stream) => onStream!.upload(stream));
       } else {
-        throw new Error(`Unsupported file type for Parquet conversion: ${fileType}`);
+        await convert();
+      }
+
+      // Get output file name (replace extension)
+      const parquetFileName = inputPath.replace(/\.[^.]+$/, OUTPUT_FORMATS[format].extension);
+
+      if (layout.partitionBy || partCount > 0) {
+        logger.info({ parquetFileName, partCount, encoding }, 'Parquet conversion complete, parts handed off');
+        return { partCount, streamed: false, format, parquetFileName, encoding, csvDialect, rejects, columnRule };
+      }
+
+      if (layout.pipe) {
+        logger.info({ parquetFileName, format, encoding }, 'Conversion complete, streamed');
+        return { partCount, streamed: true, format, parquetFileName, encoding, csvDialect, rejects, columnRule };
       }
 
       // Create stream from temporary Parquet file
       const stream = createReadStream(tempFilePath);
 
-      // Get output file name (replace extension)
-      const parquetFileName = inputPath.replace(/\.[^.]+$/, '.parquet');
-
-      logger.info({ tempFilePath, parquetFileName }, 'Parquet conversion complete, streaming');
+      logger.info(
+        { tempFilePath, parquetFileName, encoding, columnRule: columnRule?.pattern },
+        'Parquet conversion complete, streaming'
+      );
 
-      return { stream, tempFilePath, parquetFileName };
+      return {
+        stream,
+        tempFilePath,
+        partCount,
+        streamed: false,
+        format,
+        parquetFileName,
+        encoding,
+        csvDialect,
+        rejects,
+        columnRule,
+      };
 
     } catch (error) {
       // Clean up temp file on error
@@ -135,12 +970,38 @@ export class ParquetConverter {
       } catch (cleanupError) {
         // Ignore cleanup errors
       }
+      if (rejects) {
+        await rm(rejects.tempFilePath, { force: true });
+      }
 
       logger.error({ error }, 'Failed to convert to Parquet');
       throw error;
+    } finally {
+      if (utf8Path !== inputPath) {
+        await rm(utf8Path, { force: true });
+      }
+      await rm(partsDirectory, { recursive: true, force: true });
+      if (layout.pipe) {
+        await rm(tempFilePath, { force: true });
+      }
     }
   }
 
+  /**
+   * Load DuckDB's nanoarrow community extension, which writes Arrow IPC streams (FORMAT ARROWS).
+   * It is installed with the image (see the Dockerfile) and never downloaded at runtime.
+   * @throws Error if the extension is not installed
+   */
+  private loadArrowExtension(): Promise<void> {
+    this.arrowExtension ??= this.runQuery('LOAD nanoarrow;').catch((error) => {
+      // Let the next Arrow conversion try again
+      this.arrowExtension = null;
+      throw error;
+    });
+
+    return this.arrowExtension;
+  }
+
   /**
    * Clean up temporary Parquet file
    * @param tempFilePath Temporary file path
@@ -1,7 +1,20 @@
 import Database from 'better-sqlite3';
-import { ProcessingStatus } from '../types/index.js';
+import {
+  ProcessingStatus,
+  type ColumnRule,
+  type CsvDialect,
+  type SchemaChange,
+  type SchemaColumn,
+  type SchemaDriftPolicy,
+} from '../types/index.js';
 import type { ProgressRecord, ProgressRecordRow } from '../models/ProgressRecord.js';
 import { createProgressRecord, rowToProgressRecord } from '../models/ProgressRecord.js';
+import type { ArchiveEntryRecord, ArchiveEntryRecordRow } from '../models/ArchiveEntryRecord.js';
+import { createArchiveEntryRecord, rowToArchiveEntryRecord } from '../models/ArchiveEntryRecord.js';
+import type { DatasetSchema, DatasetSchemaRow } from '../models/DatasetSchema.js';
+import { createDatasetSchema, rowToDatasetSchema } from '../models/DatasetSchema.js';
+import type { SchemaDriftEvent, SchemaDriftEventRow } from '../models/SchemaDriftEvent.js';
+import { createSchemaDriftEvent, rowToSchemaDriftEvent } from '../models/SchemaDriftEvent.js';
 import { getLogger } from '../lib/logger.js';
 
 export class ProgressTracker {
@@ -13,10 +26,22 @@ export class ProgressTracker {
   private updateStatusStmt!: Database.Statement;
   private updateCompleteStmt!: Database.Statement;
   private updateFailedStmt!: Database.Statement;
+  private updatePasswordIndexStmt!: Database.Statement;
+  private updateCsvDialectStmt!: Database.Statement;
+  private updateColumnRuleStmt!: Database.Statement;
   private selectByPathStmt!: Database.Statement;
   private selectByStatusStmt!: Database.Statement;
   private selectAllStmt!: Database.Statement;
   private deleteStmt!: Database.Statement;
+  private upsertEntryStmt!: Database.Statement;
+  private updateEntryCompleteStmt!: Database.Statement;
+  private selectCompletedEntriesStmt!: Database.Statement;
+  private deleteEntriesStmt!: Database.Statement;
+  private insertSchemaStmt!: Database.Statement;
+  private selectLatestSchemaStmt!: Database.Statement;
+  private insertDriftEventStmt!: Database.Statement;
+  private selectDriftEventsStmt!: Database.Statement;
+  private selectDatasetDriftEventsStmt!: Database.Statement;
 
   constructor(dbPath: string) {
     this.logger.info({ dbPath }, 'Initializing ProgressTracker');
@@ -47,7 +72,12 @@ export class ProgressTracker {
         processed_bytes INTEGER,
         checksum TEXT,
         s3_key TEXT,
+        s3_keys TEXT,
         error_message TEXT,
+        error_code TEXT,
+        password_index INTEGER,
+        csv_dialect TEXT,
+        column_rule TEXT,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL
       );
@@ -55,11 +85,83 @@ export class ProgressTracker {
       CREATE INDEX IF NOT EXISTS idx_file_path ON file_progress(file_path);
       CREATE INDEX IF NOT EXISTS idx_status ON file_progress(status);
       CREATE INDEX IF NOT EXISTS idx_updated_at ON file_progress(updated_at);
+
+      -- Archive entries, kept across retries so extraction can resume mid-archive
+      CREATE TABLE IF NOT EXISTS archive_entry_progress (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        archive_path TEXT NOT NULL,
+        archive_checksum TEXT NOT NULL,
+        entry_path TEXT NOT NULL,
+        status TEXT NOT NULL CHECK(status IN ('pending', 'in_progress', 'completed', 'failed')),
+        size_bytes INTEGER,
+        checksum TEXT,
+        s3_key TEXT,
+        s3_keys TEXT,
+        etag TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        UNIQUE(archive_path, entry_path)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_entry_archive_path ON archive_entry_progress(archive_path);
+
+      -- Schema of every converted file, grouped by dataset (the latest is the dataset's current schema)
+      CREATE TABLE IF NOT EXISTS dataset_schemas (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dataset TEXT NOT NULL,
+        source_path TEXT NOT NULL,
+        columns TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_schema_dataset ON dataset_schemas(dataset);
+
+      -- Files whose schema differed from their dataset's previous schema
+      CREATE TABLE IF NOT EXISTS schema_drift_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dataset TEXT NOT NULL,
+        source_path TEXT NOT NULL,
+        changes TEXT NOT NULL,
+        policy TEXT NOT NULL CHECK(policy IN ('accept', 'coerce', 'fail')),
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_drift_dataset ON schema_drift_events(dataset);
     `);
 
+    // Databases created by earlier versions lack newer columns
+    this.addMissingColumns('file_progress', {
+      error_code: 'TEXT',
+      password_index: 'INTEGER',
+      csv_dialect: 'TEXT',
+      column_rule: 'TEXT',
+      s3_keys: 'TEXT',
+    });
+    this.addMissingColumns('archive_entry_progress', {
+      s3_keys: 'TEXT',
+    });
+
     this.logger.debug('Database schema created');
   }
 
+  /**
+   * Add columns that are missing from an existing table
+   * @param table Table name
+   * @param columns Column name → SQL type
+   */
+  private addMissingColumns(table: string, columns: Record<string, string>): void {
+    const existing = new Set(
+      (this.db.pragma(`table_info(${table})`) as { name: string }[]).map((column) => column.name)
+    );
+
+    for (const [name, type] of Object.entries(columns)) {
+      if (!existing.has(name)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+        this.logger.info({ table, column: name }, 'Added missing column');
+      }
+    }
+  }
+
   /**
    * Prepare SQL statements
    */
@@ -79,6 +181,7 @@ export class ProgressTracker {
       UPDATE file_progress
       SET status = @status,
           s3_key = @s3Key,
+          s3_keys = @s3Keys,
           processed_bytes = @processedBytes,
           updated_at = @updatedAt
       WHERE file_path = @filePath
@@ -88,10 +191,29 @@ export class ProgressTracker {
       UPDATE file_progress
       SET status = @status,
           error_message = @errorMessage,
+          error_code = @errorCode,
           updated_at = @updatedAt
       WHERE file_path = @filePath
     `);
 
+    this.updatePasswordIndexStmt = this.db.prepare(`
+      UPDATE file_progress
+      SET password_index = @passwordIndex, updated_at = @updatedAt
+      WHERE file_path = @filePath
+    `);
+
+    this.updateCsvDialectStmt = this.db.prepare(`
+      UPDATE file_progress
+      SET csv_dialect = @csvDialect, updated_at = @updatedAt
+      WHERE file_path = @filePath
+    `);
+
+    this.updateColumnRuleStmt = this.db.prepare(`
+      UPDATE file_progress
+      SET column_rule = @columnRule, updated_at = @updatedAt
+      WHERE file_path = @filePath
+    `);
+
     this.selectByPathStmt = this.db.prepare(`
       SELECT * FROM file_progress WHERE file_path = ?
     `);
@@ -107,6 +229,65 @@ export class ProgressTracker {
     this.deleteStmt = this.db.prepare(`
       DELETE FROM file_progress WHERE file_path = ?
     `);
+
+    // A restarted entry replaces whatever an earlier attempt recorded
+    this.upsertEntryStmt = this.db.prepare(`
+      INSERT INTO archive_entry_progress
+        (archive_path, archive_checksum, entry_path, status, created_at, updated_at)
+      VALUES (@archivePath, @archiveChecksum, @entryPath, @status, @createdAt, @updatedAt)
+      ON CONFLICT(archive_path, entry_path) DO UPDATE SET
+        archive_checksum = excluded.archive_checksum,
+        status = excluded.status,
+        size_bytes = NULL,
+        checksum = NULL,
+        s3_key = NULL,
+        s3_keys = NULL,
+        etag = NULL,
+        updated_at = excluded.updated_at
+    `);
+
+    this.updateEntryCompleteStmt = this.db.prepare(`
+      UPDATE archive_entry_progress
+      SET status = @status,
+          size_bytes = @sizeBytes,
+          checksum = @checksum,
+          s3_key = @s3Key,
+          s3_keys = @s3Keys,
+          etag = @etag,
+          updated_at = @updatedAt
+      WHERE archive_path = @archivePath AND entry_path = @entryPath
+    `);
+
+    this.selectCompletedEntriesStmt = this.db.prepare(`
+      SELECT * FROM archive_entry_progress
+      WHERE archive_path = ? AND archive_checksum = ? AND status = 'completed'
+    `);
+
+    this.deleteEntriesStmt = this.db.prepare(`
+      DELETE FROM archive_entry_progress WHERE archive_path = ?
+    `);
+
+    this.insertSchemaStmt = this.db.prepare(`
+      INSERT INTO dataset_schemas (dataset, source_path, columns, created_at)
+      VALUES (@dataset, @sourcePath, @columns, @createdAt)
+    `);
+
+    this.selectLatestSchemaStmt = this.db.prepare(`
+      SELECT * FROM dataset_schemas WHERE dataset = ? ORDER BY id DESC LIMIT 1
+    `);
+
+    this.insertDriftEventStmt = this.db.prepare(`
+      INSERT INTO schema_drift_events (dataset, source_path, changes, policy, created_at)
+      VALUES (@dataset, @sourcePath, @changes, @policy, @createdAt)
+    `);
+
+    this.selectDriftEventsStmt = this.db.prepare(`
+      SELECT * FROM schema_drift_events ORDER BY id
+    `);
+
+    this.selectDatasetDriftEventsStmt = this.db.prepare(`
+      SELECT * FROM schema_drift_events WHERE dataset = ? ORDER BY id
+    `);
   }
 
   /**
@@ -160,16 +341,18 @@ export class ProgressTracker {
   /**
    * Mark file as completed
    * @param filePath Absolute file path
-   * @param s3Key S3 object key
+   * @param s3Key S3 object key, or the prefix of a file uploaded as several objects
    * @param processedBytes Bytes uploaded
+   * @param s3Keys S3 keys of every object uploaded for the file
    */
-  markComplete(filePath: string, s3Key: string, processedBytes: number): void {
+  markComplete(filePath: string, s3Key: string, processedBytes: number, s3Keys: string[] = [s3Key]): void {
     const now = Math.floor(Date.now() / 1000);
 
     this.updateCompleteStmt.run({
       filePath,
       status: ProcessingStatus.COMPLETED,
       s3Key,
+      s3Keys: JSON.stringify(s3Keys),
       processedBytes,
       updatedAt: now,
     });
@@ -181,18 +364,71 @@ export class ProgressTracker {
    * Mark file as failed
    * @param filePath Absolute file path
    * @param errorMessage Error message
+   * @param errorCode Error classification, if known
    */
-  markFailed(filePath: string, errorMessage: string): void {
+  markFailed(filePath: string, errorMessage: string, errorCode: string | null = null): void {
     const now = Math.floor(Date.now() / 1000);
 
     this.updateFailedStmt.run({
       filePath,
       status: ProcessingStatus.FAILED,
       errorMessage,
+      errorCode,
+      updatedAt: now,
+    });
+
+    this.logger.warn({ filePath, error: errorMessage, errorCode }, 'Marked as failed');
+  }
+
+  /**
+   * Record which configured password decrypted a file
+   * @param filePath Absolute file path
+   * @param passwordIndex Index into the configured ZIP passwords
+   */
+  recordPasswordIndex(filePath: string, passwordIndex: number): void {
+    const now = Math.floor(Date.now() / 1000);
+
+    this.updatePasswordIndexStmt.run({
+      filePath,
+      passwordIndex,
+      updatedAt: now,
+    });
+
+    this.logger.debug({ filePath, passwordIndex }, 'Recorded password index');
+  }
+
+  /**
+   * Record the CSV dialect a file was converted with
+   * @param filePath Absolute file path
+   * @param csvDialect Dialect passed to the CSV reader
+   */
+  recordCsvDialect(filePath: string, csvDialect: CsvDialect): void {
+    const now = Math.floor(Date.now() / 1000);
+
+    this.updateCsvDialectStmt.run({
+      filePath,
+      csvDialect: JSON.stringify(csvDialect),
+      updatedAt: now,
+    });
+
+    this.logger.debug({ filePath, csvDialect }, 'Recorded CSV dialect');
+  }
+
+  /**
+   * Record the column rule a file was converted with
+   * @param filePath Absolute file path
+   * @param columnRule Column rule applied to the file
+   */
+  recordColumnRule(filePath: string, columnRule: ColumnRule): void {
+    const now = Math.floor(Date.now() / 1000);
+
+    this.updateColumnRuleStmt.run({
+      filePath,
+      columnRule: JSON.stringify(columnRule),
       updatedAt: now,
     });
 
-    this.logger.warn({ filePath, error: errorMessage }, 'Marked as failed');
+    this.logger.debug({ filePath, columnRule: columnRule.pattern }, 'Recorded column rule');
   }
 
   /**
@@ -248,11 +484,160 @@ export class ProgressTracker {
       this.logger.info({ filePath, oldChecksum: record.checksum, newChecksum: currentChecksum }, 'File was modified');
       // Reset to pending
       this.deleteStmt.run(filePath);
+      this.deleteEntries(filePath);
     }
 
     return wasModified;
   }
 
+  /**
+   * Record start of an archive entry upload
+   * @param archivePath Absolute archive path
+   * @param archiveChecksum Archive checksum
+   * @param entryPath Normalized entry path
+   * @returns Entry record
+   */
+  recordEntryStart(archivePath: string, archiveChecksum: string, entryPath: string): ArchiveEntryRecord {
+    const record = createArchiveEntryRecord(archivePath, archiveChecksum, entryPath, ProcessingStatus.IN_PROGRESS);
+
+    this.upsertEntryStmt.run({
+      archivePath: record.archivePath,
+      archiveChecksum: record.archiveChecksum,
+      entryPath: record.entryPath,
+      status: record.status,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    });
+
+    return record;
+  }
+
+  /**
+   * Mark archive entry as uploaded
+   * @param archivePath Absolute archive path
+   * @param entryPath Normalized entry path
+   * @param s3Key S3 object key, or the prefix of an entry uploaded as several objects
+   * @param etag ETag returned by S3
+   * @param checksum SHA256 of the uploaded content
+   * @param sizeBytes Uploaded size
+   * @param s3Keys S3 keys of every object uploaded for the entry
+   */
+  markEntryComplete(
+    archivePath: string,
+    entryPath: string,
+    s3Key: string,
+    etag: string | null,
+    checksum: string,
+    sizeBytes: number,
+    s3Keys: string[] = [s3Key]
+  ): void {
+    const now = Math.floor(Date.now() / 1000);
+
+    this.updateEntryCompleteStmt.run({
+      archivePath,
+      entryPath,
+      status: ProcessingStatus.COMPLETED,
+      s3Key,
+      s3Keys: JSON.stringify(s3Keys),
+      etag,
+      checksum,
+      sizeBytes,
+      updatedAt: now,
+    });
+
+    this.logger.debug({ archivePath, entryPath, s3Key }, 'Archive entry marked as completed');
+  }
+
+  /**
+   * Get completed entries of an archive
+   * @param archivePath Absolute archive path
+   * @param archiveChecksum Current archive checksum; entries of other versions are ignored
+   * @returns Completed entry records by entry path
+   */
+  getCompletedEntries(archivePath: string, archiveChecksum: string): Map<string, ArchiveEntryRecord> {
+    const rows = this.selectCompletedEntriesStmt.all(archivePath, archiveChecksum) as ArchiveEntryRecordRow[];
+    return new Map(rows.map((row) => [row.entry_path, rowToArchiveEntryRecord(row)]));
+  }
+
+  /**
+   * Delete all entry records of an archive
+   * @param archivePath Absolute archive path
+   */
+  deleteEntries(archivePath: string): void {
+    this.deleteEntriesStmt.run(archivePath);
+    this.logger.debug({ archivePath }, 'Archive entry records deleted');
+  }
+
+  /**
+   * Record the schema of a converted file
+   * @param dataset Dataset the file belongs to
+   * @param sourcePath Path relative to the watch directory
+   * @param columns Columns of the uploaded Parquet file
+   * @returns Schema record
+   */
+  recordSchema(dataset: string, sourcePath: string, columns: SchemaColumn[]): DatasetSchema {
+    const schema = createDatasetSchema(dataset, sourcePath, columns);
+
+    const result = this.insertSchemaStmt.run({
+      dataset: schema.dataset,
+      sourcePath: schema.sourcePath,
+      columns: JSON.stringify(schema.columns),
+      createdAt: schema.createdAt,
+    });
+
+    this.logger.debug({ dataset, sourcePath }, 'Schema recorded');
+    return { ...schema, id: Number(result.lastInsertRowid) };
+  }
+
+  /**
+   * Get the most recently recorded schema of a dataset
+   * @param dataset Dataset name
+   * @returns Schema record, or null if no file of the dataset was converted yet
+   */
+  getLatestSchema(dataset: string): DatasetSchema | null {
+    const row = this.selectLatestSchemaStmt.get(dataset) as DatasetSchemaRow | undefined;
+    return row ? rowToDatasetSchema(row) : null;
+  }
+
+  /**
+   * Record a file whose schema drifted from its dataset's previous schema
+   * @param dataset Dataset the file belongs to
+   * @param sourcePath Path relative to the watch directory
+   * @param changes Differences from the previous schema
+   * @param policy Policy applied to the file
+   * @returns Drift event
+   */
+  recordSchemaDrift(
+    dataset: string,
+    sourcePath: string,
+    changes: SchemaChange[],
+    policy: SchemaDriftPolicy
+  ): SchemaDriftEvent {
+    const event = createSchemaDriftEvent(dataset, sourcePath, changes, policy);
+
+    const result = this.insertDriftEventStmt.run({
+      dataset: event.dataset,
+      sourcePath: event.sourcePath,
+      changes: JSON.stringify(event.changes),
+      policy: event.policy,
+      createdAt: event.createdAt,
+    });
+
+    return { ...event, id: Number(result.lastInsertRowid) };
+  }
+
+  /**
+   * Get schema drift events, oldest first
+   * @param dataset Only events of this dataset (all datasets if omitted)
+   * @returns Drift events
+   */
+  getSchemaDriftEvents(dataset?: string): SchemaDriftEvent[] {
+    const rows = (dataset === undefined
+      ? this.selectDriftEventsStmt.all()
+      : this.selectDatasetDriftEventsStmt.all(dataset)) as SchemaDriftEventRow[];
+    return rows.map(rowToSchemaDriftEvent);
+  }
+
   /**
    * Delete progress record
    * @param filePath File path
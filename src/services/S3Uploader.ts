@@ -8,6 +8,7 @@ import { UploadStatus } from '../types/index.js';
 import type { S3UploadTask } from '../models/S3UploadTask.js';
 import { createS3UploadTask } from '../models/S3UploadTask.js';
 import { getLogger, createChildLogger } from '../lib/logger.js';
+import { OUTPUT_FORMATS, detectOutputFormat } from '../lib/outputFormat.js';
 import { randomUUID } from 'crypto';
 
 export class S3Uploader {
@@ -38,16 +39,17 @@ export class S3Uploader {
    * @param s3Key S3 object key
    * @param size File size
    * @param maxRetries Maximum retry attempts
+   * @param contentType MIME type (detected from the file path by default)
    * @returns Upload task with result
    */
   async uploadFile(
     filePath: string,
     s3Key: string,
     size: number,
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    contentType: string = this.detectContentType(filePath)
   ): Promise<S3UploadTask> {
     const taskId = randomUUID();
-    const contentType = this.detectContentType(filePath);
     const task = createS3UploadTask(taskId, filePath, s3Key, this.config.bucket, contentType, size);
 
     const logger = createChildLogger({ taskId, s3Key, filePath });
@@ -64,6 +66,8 @@ export class S3Uploader {
         // Upload with multipart support
         const upload = new Upload({
           client: this.client,
+          partSize: this.config.uploadPartSize,
+          queueSize: this.config.uploadQueueSize,
           params: {
             Bucket: this.config.bucket,
             Key: s3Key,
@@ -145,8 +149,11 @@ export class S3Uploader {
     task.status = UploadStatus.UPLOADING;
 
     try {
+      // Memory use is bounded by partSize × queueSize however long the stream is
       const upload = new Upload({
         client: this.client,
+        partSize: this.config.uploadPartSize,
+        queueSize: this.config.uploadQueueSize,
         params: {
           Bucket: this.config.bucket,
           Key: s3Key,
@@ -255,19 +262,31 @@ export class S3Uploader {
   }
 
   /**
-   * Detect content type from file path
-   * @param filePath File path
-   * @returns MIME type
+   * Delete an object, e.g. a part of a conversion that failed after the part was uploaded
+   * @param s3Key S3 object key
    */
-  private detectContentType(filePath: string): string {
-    const mimeType = lookup(filePath);
+  async deleteObject(s3Key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: s3Key,
+    }));
+
+    this.logger.info({ s3Key }, 'Deleted S3 object');
+  }
 
-    // Special handling for Parquet files
-    if (filePath.endsWith('.parquet')) {
-      return 'application/vnd.apache.parquet';
+  /**
+   * Detect content type from file path or S3 key, following the format of converted outputs
+   * @param filePath File path or S3 key
+   * @returns MIME type
+   */
+  detectContentType(filePath: string): string {
+    // Converted outputs, including formats mime-types does not know (.arrows, .ndjson)
+    const outputFormat = detectOutputFormat(filePath);
+    if (outputFormat) {
+      return OUTPUT_FORMATS[outputFormat].contentType;
     }
 
-    return mimeType || 'application/octet-stream';
+    return lookup(filePath) || 'application/octet-stream';
   }
 
   /**
@@ -33,6 +33,37 @@ export enum ProcessingStep {
   PROGRESS_UPDATE = 'progress_update'
 }
 
+export enum FileFormat {
+  ZIP = 'zip',
+  GZIP = 'gzip',
+  BZIP2 = 'bzip2',
+  XZ = 'xz',
+  ZSTD = 'zstd',
+  LZ4 = 'lz4',
+  SEVEN_ZIP = '7z',
+  RAR = 'rar',
+  TAR = 'tar',
+  PARQUET = 'parquet',
+  SQLITE = 'sqlite',
+  UTF16LE = 'utf16le',
+  UTF16BE = 'utf16be',
+  UTF8 = 'utf8'
+}
+
+export enum ArchiveErrorCode {
+  TOOL_UNAVAILABLE = 'tool_unavailable',
+  TOOL_FAILED = 'tool_failed',
+  LIMIT_EXCEEDED = 'limit_exceeded',
+  UNSAFE_PATH = 'unsafe_path',
+  ENCRYPTED = 'encrypted'
+}
+
+export enum ConversionErrorCode {
+  REJECT_LIMIT_EXCEEDED = 'reject_limit_exceeded',
+  SCHEMA_DRIFT = 'schema_drift',
+  NO_RECORD_ELEMENT = 'no_record_element'
+}
+
 // ============================================================================
 // Configuration Types
 // ============================================================================
@@ -44,6 +75,10 @@ export interface S3Config {
   accessKeyId: string;
   secretAccessKey: string;
   forcePathStyle: boolean;
+  /** Size of each multipart upload part held in memory (at least 5 MiB) */
+  uploadPartSize: number;
+  /** Parts uploaded concurrently; a streamed upload buffers up to uploadPartSize × uploadQueueSize */
+  uploadQueueSize: number;
 }
 
 export interface MonitoringConfig {
@@ -51,6 +86,7 @@ export interface MonitoringConfig {
   stabilityThreshold: number;
   pollInterval: number;
   ignoreInitial: boolean;
+  volumeQuietPeriod: number;
 }
 
 export interface ProcessingConfig {
@@ -60,6 +96,135 @@ export interface ProcessingConfig {
   errorDirectory: string;
   progressDbPath: string;
   parquetCompression: 'ZSTD' | 'SNAPPY';
+  /** Rows per Parquet row group */
+  rowGroupSize: number;
+  /** Target maximum size of a Parquet object; larger outputs are split into parts (0 disables splitting) */
+  maxPartBytes: number;
+  /** Upload a converted object while DuckDB writes it, through a named pipe rather than a temporary file */
+  streamParquetOutput: boolean;
+  /** Format database files are converted to unless an outputFormats rule matches */
+  outputFormat: OutputFormat;
+  /** Output formats per path, first matching rule wins over outputFormat */
+  outputFormats: OutputFormatRule[];
+  /** Candidate passwords for encrypted ZIP archives, tried in order */
+  zipPasswords: string[];
+  /** Record elements for XML files, first matching rule wins; auto-detected otherwise */
+  xmlRecordElements: XmlRecordElementRule[];
+  /** CSV dialect overrides, first matching rule wins over the sniffed values */
+  csvDialects: CsvDialectRule[];
+  /** Source encodings of database files, first matching rule wins; detected otherwise */
+  fileEncodings: FileEncodingRule[];
+  /** Write malformed CSV rows to a rejects file instead of failing the whole file */
+  quarantineMalformedRows: boolean;
+  /** Format of the rejects file uploaded next to the Parquet output */
+  rejectsFormat: RejectsFormat;
+  /** Share of rows (0-1) that may be rejected before the file fails anyway */
+  maxRejectRatio: number;
+  /** Datasets grouping files whose schemas are compared, first matching rule wins */
+  datasets: DatasetRule[];
+  /** What to do when a file's schema differs from its dataset's previous schema */
+  schemaDriftPolicy: SchemaDriftPolicy;
+  /** Dataset → columns its Parquet output is Hive-partitioned by (column=value/part-N.parquet) */
+  partitionColumns: Record<string, string[]>;
+  /** Column casts and transformations, first matching rule wins */
+  columnRules: ColumnRule[];
+}
+
+export interface ColumnRule {
+  /** Glob matched against the file's path relative to the watch directory */
+  pattern: string;
+  /** Column → DuckDB type to read it as (e.g. phone → VARCHAR) */
+  cast?: Record<string, string>;
+  /** Column → new name */
+  rename?: Record<string, string>;
+  /** New column → SQL expression over the columns as read */
+  derive?: Record<string, string>;
+  /** Output columns to leave out */
+  drop?: string[];
+  /** Output columns to place first, in this order; the rest keep their order */
+  order?: string[];
+}
+
+export interface DatasetRule {
+  /** Glob matched against the file's path relative to the watch directory */
+  pattern: string;
+  /** Dataset name */
+  dataset: string;
+}
+
+/**
+ * accept: keep the new schema; coerce: cast the file to the previous schema;
+ * fail: fail the file
+ */
+export type SchemaDriftPolicy = 'accept' | 'coerce' | 'fail';
+
+export interface SchemaColumn {
+  /** Column name */
+  name: string;
+  /** DuckDB type (e.g. BIGINT, VARCHAR, DECIMAL(10,2)) */
+  type: string;
+}
+
+export type SchemaChange =
+  | { kind: 'added'; column: string; type: string }
+  | { kind: 'removed'; column: string; previousType: string }
+  | { kind: 'retyped'; column: string; previousType: string; type: string };
+
+export type RejectsFormat = 'parquet' | 'jsonl';
+
+export type OutputFormat = 'parquet' | 'arrow' | 'csv.gz' | 'ndjson';
+
+export interface OutputFormatRule {
+  /** Glob matched against the file's path relative to the watch directory */
+  pattern: string;
+  /** Format to convert matching files to */
+  format: OutputFormat;
+}
+
+export interface FileEncodingRule {
+  /** Glob matched against the file's path relative to the watch directory */
+  pattern: string;
+  /** Canonical encoding name (e.g. windows-1251, shift_jis) */
+  encoding: string;
+}
+
+export interface CsvDialect {
+  /** Field delimiter */
+  delimiter: string;
+  /** Quote character */
+  quote: string;
+  /** Escape character for quotes inside quoted fields (the quote itself for doubled quotes) */
+  escape: string;
+  /** Whether the first row after the skipped lines holds column names */
+  header: boolean;
+  /** Lines before the header (or first row) to skip */
+  skipRows: number;
+}
+
+export interface CsvDialectRule extends Partial<CsvDialect> {
+  /** Glob matched against the file's path relative to the watch directory */
+  pattern: string;
+}
+
+export interface XmlRecordElementRule {
+  /** Glob matched against the file's path relative to the watch directory */
+  pattern: string;
+  /** Name of the element holding one record */
+  element: string;
+}
+
+export interface ArchiveConfig {
+  sevenZipPath: string;
+  unrarPath: string;
+  maxNestingDepth: number;
+  maxEntries: number;
+  maxTotalBytes: number;
+  maxEntryBytes: number;
+  maxCompressionRatio: number;
+  /** Temporary space shared by the entries spooled to disk for conversion, across all jobs */
+  maxSpoolBytes: number;
+  /** Entries of one archive uploaded in parallel (each of the MAX_CONCURRENCY files has its own) */
+  entryConcurrency: number;
 }
 
 export interface LoggingConfig {
@@ -71,6 +236,7 @@ export interface AppConfig {
   s3: S3Config;
   monitoring: MonitoringConfig;
   processing: ProcessingConfig;
+  archive: ArchiveConfig;
   logging: LoggingConfig;
 }
 
@@ -85,7 +251,16 @@ export const ARCHIVE_EXTENSIONS = [
   '.tar.gz',
   '.tgz',
   '.bz2',
-  '.xz'
+  '.tbz2',
+  '.xz',
+  '.txz',
+  '.zst',
+  '.tar.zst',
+  '.tzst',
+  '.lz4',
+  '.tar.lz4',
+  '.7z',
+  '.rar'
 ] as const;
 
 export const DATABASE_EXTENSIONS = [
@@ -93,7 +268,40 @@ export const DATABASE_EXTENSIONS = [
   '.tsv',
   '.json',
   '.xml',
-  '.jsonl'
+  '.jsonl',
+  '.sql'
+] as const;
+
+/** Detected formats that ArchiveExtractor can unpack */
+export const ARCHIVE_FORMATS: readonly FileFormat[] = [
+  FileFormat.ZIP,
+  FileFormat.GZIP,
+  FileFormat.BZIP2,
+  FileFormat.XZ,
+  FileFormat.ZSTD,
+  FileFormat.LZ4,
+  FileFormat.SEVEN_ZIP,
+  FileFormat.RAR,
+  FileFormat.TAR
+];
+
+export const TEXT_FORMATS: readonly FileFormat[] = [
+  FileFormat.UTF8,
+  FileFormat.UTF16LE,
+  FileFormat.UTF16BE
+];
+
+/** Documents stored as ZIP containers, which must not be unpacked */
+export const ZIP_CONTAINER_EXTENSIONS = [
+  '.docx',
+  '.xlsx',
+  '.pptx',
+  '.odt',
+  '.ods',
+  '.odp',
+  '.epub',
+  '.jar',
+  '.apk'
 ] as const;
 
 // ============================================================================
@@ -110,7 +318,29 @@ export function isDatabaseFile(filename: string): boolean {
   return DATABASE_EXTENSIONS.some(ext => lowerName.endsWith(ext));
 }
 
-export function getFileType(filename: string): FileType {
+export function isZipContainerFile(filename: string): boolean {
+  const lowerName = filename.toLowerCase();
+  return ZIP_CONTAINER_EXTENSIONS.some(ext => lowerName.endsWith(ext));
+}
+
+/**
+ * Classify a file by its detected format, falling back to its extension
+ * @param filename File name or path
+ * @param format Format detected from the file's leading bytes, if any
+ * @returns File type
+ */
+export function getFileType(filename: string, format: FileFormat | null = null): FileType {
+  if (format !== null && !isZipContainerFile(filename)) {
+    if (ARCHIVE_FORMATS.includes(format)) {
+      return FileType.ARCHIVE;
+    }
+    if (TEXT_FORMATS.includes(format)) {
+      // Text could be anything; the extension tells CSV from prose
+      return isDatabaseFile(filename) ? FileType.DATABASE : FileType.REGULAR;
+    }
+    return FileType.REGULAR;
+  }
+
   if (isArchiveFile(filename)) {
     return FileType.ARCHIVE;
   }
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
 import { spawn, ChildProcess } from 'child_process';
-import { existsSync, rmSync } from 'fs';
+import { existsSync, rmSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import {
   setupTestDataDir,
@@ -22,6 +22,11 @@ const ERROR_DIR = join(process.cwd(), 'errors');
 const PROGRESS_DB = join(process.cwd(), 'progress.db');
 const S3_BUCKET = 'data-processor-bucket';
 
+// data/metrics.csv (`id,value\n1,100\n2,200`) in a TAR compressed with the zstd CLI
+const METRICS_TAR_ZST =
+  'KLUv/WQAB9UCABLFDxGg7XCS5CxVgQ35pcJEABJDBvqzYPCvWLBkQ1Mopr8+FKHUa9gtvA9/dymG12xovobu818nTAMm9uJyBEWk' +
+  'AgkgkNsd0fuZNArAM1jpBNJcMDIQTpjOErtZ/iM=';
+
 describe('E2E: Data File Processor', () => {
   let appProcess: ChildProcess | null = null;
 
@@ -354,6 +359,26 @@ describe('E2E: Data File Processor', () => {
       await stopApp(appProcess);
       appProcess = null;
     }, 90000);
+
+    it('should extract TAR.ZST and convert CSV contents to Parquet', async () => {
+      // Start application
+      appProcess = await startApp();
+
+      writeFileSync(join(TEST_DATA_DIR, 'metrics.tar.zst'), Buffer.from(METRICS_TAR_ZST, 'base64'));
+
+      // Wait for the CSV inside the archive to arrive as Parquet
+      await waitFor(async () => {
+        const files = await listS3Files(S3_BUCKET);
+        return files.some(f => f.includes('metrics') && f.endsWith('.parquet'));
+      }, 45000);
+
+      const s3Files = await listS3Files(S3_BUCKET);
+      expect(s3Files).toContain('metrics.tar/data/metrics.parquet');
+      expect(s3Files.some(f => f.endsWith('.zst') || f.endsWith('.csv'))).toBe(false);
+
+      await stopApp(appProcess);
+      appProcess = null;
+    }, 90000);
   });
 
   describe('Performance: High Volume', () => {
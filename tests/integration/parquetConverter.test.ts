@@ -0,0 +1,477 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import * as duckdb from 'duckdb';
+import type { CsvDialect, ProcessingConfig, SchemaColumn } from '../../src/types/index.js';
+import { ConversionErrorCode } from '../../src/types/index.js';
+import { ParquetConverter } from '../../src/services/ParquetConverter.js';
+import type { ParquetPart } from '../../src/lib/parts.js';
+import { hasParquetFooter } from '../../src/lib/magic.js';
+import { streamToBuffer } from '../../src/lib/streams.js';
+
+/**
+ * Processing configuration with defaults, as loaded from an empty environment
+ */
+function createConfig(overrides: Partial<ProcessingConfig> = {}): ProcessingConfig {
+  return {
+    maxConcurrency: 1,
+    maxRetries: 0,
+    retryDelay: 0,
+    errorDirectory: './errors',
+    progressDbPath: ':memory:',
+    parquetCompression: 'ZSTD',
+    rowGroupSize: 122880,
+    maxPartBytes: 0,
+    streamParquetOutput: false,
+    outputFormat: 'parquet',
+    outputFormats: [],
+    zipPasswords: [],
+    xmlRecordElements: [],
+    csvDialects: [],
+    fileEncodings: [],
+    quarantineMalformedRows: false,
+    rejectsFormat: 'parquet',
+    maxRejectRatio: 1,
+    datasets: [],
+    schemaDriftPolicy: 'accept',
+    partitionColumns: {},
+    columnRules: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Run a query on a separate DuckDB database, to read outputs back
+ */
+function query(sql: string): Promise<duckdb.TableData> {
+  const db = new duckdb.Database(':memory:');
+
+  return new Promise<duckdb.TableData>((resolve, reject) => {
+    db.all(sql, (err, rows) => (err ? reject(err) : resolve(rows)));
+  }).finally(() => db.close());
+}
+
+// Whether nanoarrow was installed with INSTALL nanoarrow FROM community (as in the Docker image)
+const extensionsDirectory = join(homedir(), '.duckdb', 'extensions');
+const nanoarrowInstalled = existsSync(extensionsDirectory) && readdirSync(extensionsDirectory, { recursive: true })
+  .some((path) => String(path).endsWith('nanoarrow.duckdb_extension'));
+
+describe('ParquetConverter', () => {
+  let directory: string;
+  let csvPath: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'converter-test-'));
+    csvPath = join(directory, 'users.csv');
+    writeFileSync(csvPath, 'id,name\n1,Ada\n2,Grace\n3,Linus\n');
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('output formats', () => {
+    (nanoarrowInstalled ? it : it.skip)('should write an Arrow IPC stream that reads back', async () => {
+      const converter = new ParquetConverter(createConfig({ outputFormat: 'arrow' }));
+      const outputPath = join(directory, 'users.arrows');
+
+      try {
+        await converter.validateConfig();
+        const result = await converter.convertToParquetStream(csvPath, '.csv', 'users.csv');
+        writeFileSync(outputPath, await streamToBuffer(result.stream!));
+        await converter.cleanupTempFile(result.tempFilePath!);
+
+        expect(result.format).toBe('arrow');
+        expect(result.parquetFileName).toMatch(/users\.arrows$/);
+        expect(await query(`LOAD nanoarrow; SELECT id, name FROM read_arrow('${outputPath}') ORDER BY id`)).toEqual([
+          { id: 1n, name: 'Ada' },
+          { id: 2n, name: 'Grace' },
+          { id: 3n, name: 'Linus' },
+        ]);
+      } finally {
+        converter.close();
+      }
+    });
+
+    (nanoarrowInstalled ? it.skip : it)('should refuse to start with arrow when nanoarrow is not installed', async () => {
+      const converter = new ParquetConverter(createConfig({
+        outputFormats: [{ pattern: 'exports/**', format: 'arrow' }],
+      }));
+
+      try {
+        await expect(converter.validateConfig()).rejects.toThrow('nanoarrow extension cannot be loaded');
+      } finally {
+        converter.close();
+      }
+    });
+
+    it('should accept a configuration without arrow outputs', async () => {
+      const converter = new ParquetConverter(createConfig({ outputFormat: 'ndjson' }));
+
+      try {
+        await expect(converter.validateConfig()).resolves.toBeUndefined();
+      } finally {
+        converter.close();
+      }
+    });
+  });
+
+  describe('column rules', () => {
+    it('should accept rules whose casts and expressions bind', async () => {
+      const converter = new ParquetConverter(createConfig({
+        columnRules: [{
+          pattern: 'orders/*.csv',
+          cast: { amount: 'DECIMAL(10,2)', ordered_at: 'TIMESTAMP' },
+          derive: {
+            amount_cents: 'CAST(amount * 100 AS BIGINT)',
+            month: "date_trunc('month', ordered_at)",
+            customer: "lower(trim(\"First Name\")) || ' ' || last_name",
+            // The overload depends on the type of a column not cast by the rule
+            year: "date_part('year', created)",
+          },
+        }],
+      }));
+
+      try {
+        await expect(converter.validateConfig()).resolves.toBeUndefined();
+      } finally {
+        converter.close();
+      }
+    });
+
+    it.each([
+      ['an unknown cast type', { cast: { amount: 'MONEY' } }, 'cast of amount to MONEY'],
+      ['an unknown function', { derive: { total: 'summ(amount)' } }, 'derived column total'],
+      ['a syntax error', { derive: { total: 'amount +' } }, 'derived column total'],
+      ['a type mismatch', { cast: { amount: 'INTEGER' }, derive: { total: 'list_sum(amount)' } }, 'derived column total'],
+    ])('should refuse a rule with %s', async (_case, rule, message) => {
+      const converter = new ParquetConverter(createConfig({ columnRules: [{ pattern: 'orders/*.csv', ...rule }] }));
+
+      try {
+        await expect(converter.validateConfig()).rejects.toThrow(
+          `Invalid COLUMN_RULES_FILE rule for orders/*.csv: ${message}`
+        );
+      } finally {
+        converter.close();
+      }
+    });
+  });
+
+  describe('split outputs', () => {
+    const rowCount = 200000;
+    let largeCsvPath: string;
+
+    beforeAll(() => {
+      largeCsvPath = join(directory, 'events.csv');
+      const rows = Array.from({ length: rowCount }, (_, id) => `${id},event-${id * 7919 % 100003}`);
+      writeFileSync(largeCsvPath, `id,name\n${rows.join('\n')}\n`);
+    });
+
+    it('should hand off each finished part in order and the last part once the conversion ends', async () => {
+      const converter = new ParquetConverter(createConfig({ rowGroupSize: 10000, maxPartBytes: 50000 }));
+      const parts: { name: string; complete: boolean; rows: number; previousDeleted: boolean }[] = [];
+      let previous: ParquetPart | null = null;
+
+      try {
+        const result = await converter.convertToParquetStream(largeCsvPath, '.csv', 'events.csv', async (part) => {
+          const [{ rows }] = await query(`SELECT count(*)::INTEGER AS rows FROM read_parquet('${part.tempFilePath}')`);
+          parts.push({
+            name: part.name,
+            complete: await hasParquetFooter(part.tempFilePath),
+            rows: rows as number,
+            previousDeleted: previous === null || !existsSync(previous.tempFilePath),
+          });
+          previous = part;
+        });
+
+        expect(result.partCount).toBeGreaterThan(2);
+        expect(result.stream).toBeUndefined();
+        expect(parts).toHaveLength(result.partCount);
+        expect(parts.map((part) => part.name)).toEqual(
+          parts.map((_, index) => `part-${String(index).padStart(5, '0')}.parquet`)
+        );
+        expect(parts.every((part) => part.complete && part.previousDeleted)).toBe(true);
+        expect(parts.reduce((total, part) => total + part.rows, 0)).toBe(rowCount);
+        expect(existsSync(previous!.tempFilePath)).toBe(false);
+      } finally {
+        converter.close();
+      }
+    });
+
+    it('should return an output that fits in one part like an unsplit one', async () => {
+      const converter = new ParquetConverter(createConfig({ maxPartBytes: 100 * 1024 * 1024 }));
+      let handedOff = 0;
+
+      try {
+        const result = await converter.convertToParquetStream(csvPath, '.csv', 'users.csv', async () => {
+          handedOff++;
+        });
+
+        expect(result.partCount).toBe(0);
+        expect(handedOff).toBe(0);
+        expect(await hasParquetFooter(result.tempFilePath!)).toBe(true);
+        result.stream!.destroy();
+        await converter.cleanupTempFile(result.tempFilePath!);
+      } finally {
+        converter.close();
+      }
+    });
+
+    it('should stop handing off parts when a part fails to upload', async () => {
+      const converter = new ParquetConverter(createConfig({ rowGroupSize: 10000, maxPartBytes: 50000 }));
+      const names: string[] = [];
+
+      try {
+        await expect(converter.convertToParquetStream(largeCsvPath, '.csv', 'events.csv', async (part) => {
+          names.push(part.name);
+          if (part.index === 1) {
+            throw new Error('Upload failed: SlowDown');
+          }
+        })).rejects.toThrow('Upload failed: SlowDown');
+
+        expect(names).toEqual(['part-00000.parquet', 'part-00001.parquet']);
+      } finally {
+        converter.close();
+      }
+    });
+  });
+
+  describe('streamed outputs', () => {
+    const rowCount = 200000;
+    let largeCsvPath: string;
+
+    beforeAll(() => {
+      largeCsvPath = join(directory, 'clicks.csv');
+      const rows = Array.from({ length: rowCount }, (_, id) => `${id},click-${id * 7919 % 100003}`);
+      writeFileSync(largeCsvPath, `id,name\n${rows.join('\n')}\n`);
+    });
+
+    it('should upload an output of several row groups through the named pipe while it is written', async () => {
+      const converter = new ParquetConverter(createConfig({ rowGroupSize: 10000, streamParquetOutput: true }));
+      const outputPath = join(directory, 'clicks-streamed.parquet');
+      let chunkCount = 0;
+
+      try {
+        const result = await converter.convertToParquetStream(largeCsvPath, '.csv', 'clicks.csv', undefined, {
+          checkSchema: async () => null,
+          upload: async (stream) => {
+            const chunks: Buffer[] = [];
+            for await (const chunk of stream) {
+              chunks.push(chunk as Buffer);
+            }
+            chunkCount = chunks.length;
+            writeFileSync(outputPath, Buffer.concat(chunks));
+          },
+        });
+
+        expect(result).toMatchObject({ streamed: true, partCount: 0 });
+        expect(result.stream).toBeUndefined();
+        expect(result.tempFilePath).toBeUndefined();
+        expect(chunkCount).toBeGreaterThan(1);
+        expect(await hasParquetFooter(outputPath)).toBe(true);
+        expect(await query(
+          `SELECT count(DISTINCT row_group_id)::INTEGER AS row_groups FROM parquet_metadata('${outputPath}')`
+        )).toEqual([{ row_groups: rowCount / 10000 }]);
+        expect(await query(
+          `SELECT count(*)::INTEGER AS rows, sum(id)::BIGINT = ${(rowCount - 1) * rowCount / 2} AS complete ` +
+          `FROM read_parquet('${outputPath}')`
+        )).toEqual([{ rows: rowCount, complete: true }]);
+      } finally {
+        converter.close();
+      }
+    });
+  });
+
+  describe('malformed rows', () => {
+    const dialect: CsvDialect = { delimiter: ',', quote: '"', escape: '"', header: true, skipRows: 0 };
+    let malformedCsvPath: string;
+
+    beforeAll(() => {
+      // Every tenth row has a column too many
+      malformedCsvPath = join(directory, 'payments.csv');
+      const rows = Array.from({ length: 100000 }, (_, id) => `${id},${id * 3}${id % 10 === 5 ? ',refund' : ''}`);
+      writeFileSync(malformedCsvPath, `id,amount\n${rows.join('\n')}\n`);
+    });
+
+    it('should quarantine rows that fail to parse and convert the rest', async () => {
+      const converter = new ParquetConverter(createConfig({ rejectsFormat: 'jsonl', maxRejectRatio: 0.5 }));
+      const outputPath = join(directory, 'payments.parquet');
+
+      try {
+        const rejects = await converter.convertCsvToParquetWithRejects(malformedCsvPath, outputPath, dialect);
+
+        expect(rejects).toMatchObject({ format: 'jsonl', rowCount: 10000 });
+        const [first] = readFileSync(rejects!.tempFilePath, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+        expect(first).toMatchObject({ line: 7, reason: 'TOO MANY COLUMNS', raw_line: '5,15,refund' });
+        expect(await query(`SELECT count(*)::INTEGER AS rows FROM read_parquet('${outputPath}')`)).toEqual([{ rows: 90000 }]);
+        await converter.cleanupTempFile(rejects!.tempFilePath);
+      } finally {
+        converter.close();
+      }
+    });
+
+    it('should return no rejects when every row is read', async () => {
+      const converter = new ParquetConverter(createConfig({ maxRejectRatio: 0 }));
+
+      try {
+        expect(await converter.convertCsvToParquetWithRejects(csvPath, join(directory, 'users.parquet'), dialect))
+          .toBeNull();
+      } finally {
+        converter.close();
+      }
+    });
+
+    it('should fail when the share of rejected rows exceeds MAX_REJECT_RATIO', async () => {
+      const converter = new ParquetConverter(createConfig({ maxRejectRatio: 0.05 }));
+
+      try {
+        await expect(
+          converter.convertCsvToParquetWithRejects(malformedCsvPath, join(directory, 'payments.parquet'), dialect)
+        ).rejects.toMatchObject({ code: ConversionErrorCode.REJECT_LIMIT_EXCEEDED });
+      } finally {
+        converter.close();
+      }
+    });
+
+    it('should fail a split output over MAX_REJECT_RATIO before any part is handed off', async () => {
+      const converter = new ParquetConverter(createConfig({
+        quarantineMalformedRows: true,
+        maxRejectRatio: 0.05,
+        rowGroupSize: 10000,
+        maxPartBytes: 20000,
+      }));
+      let handedOff = 0;
+
+      try {
+        await expect(converter.convertToParquetStream(malformedCsvPath, '.csv', 'payments.csv', async () => {
+          handedOff++;
+        })).rejects.toMatchObject({ code: ConversionErrorCode.REJECT_LIMIT_EXCEEDED });
+        expect(handedOff).toBe(0);
+      } finally {
+        converter.close();
+      }
+    });
+
+    it('should fail a streamed output over MAX_REJECT_RATIO before any byte is written', async () => {
+      const converter = new ParquetConverter(createConfig({
+        quarantineMalformedRows: true,
+        maxRejectRatio: 0.05,
+        streamParquetOutput: true,
+      }));
+      let uploaded: Buffer | null = null;
+      let uploadError: Error | null = null;
+
+      try {
+        await expect(converter.convertToParquetStream(malformedCsvPath, '.csv', 'payments.csv', undefined, {
+          checkSchema: async () => null,
+          upload: async (stream) => {
+            const chunks: Buffer[] = [];
+            stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+            stream.on('error', (error) => {
+              uploadError = error;
+            });
+            await new Promise<void>((resolve) => stream.on('close', resolve));
+            uploaded = Buffer.concat(chunks);
+          },
+        })).rejects.toMatchObject({ code: ConversionErrorCode.REJECT_LIMIT_EXCEEDED });
+
+        expect(uploaded!.length).toBe(0);
+        expect(uploadError).toMatchObject({ code: ConversionErrorCode.REJECT_LIMIT_EXCEEDED });
+      } finally {
+        converter.close();
+      }
+    });
+
+    it('should stream an output under MAX_REJECT_RATIO with each reject listed once', async () => {
+      const converter = new ParquetConverter(createConfig({
+        quarantineMalformedRows: true,
+        rejectsFormat: 'jsonl',
+        maxRejectRatio: 0.5,
+        streamParquetOutput: true,
+      }));
+      const outputPath = join(directory, 'payments-streamed.parquet');
+
+      try {
+        const result = await converter.convertToParquetStream(malformedCsvPath, '.csv', 'payments.csv', undefined, {
+          checkSchema: async () => null,
+          upload: async (stream) => {
+            writeFileSync(outputPath, await streamToBuffer(stream));
+          },
+        });
+
+        expect(result.streamed).toBe(true);
+        expect(result.rejects?.rowCount).toBe(10000);
+        expect(readFileSync(result.rejects!.tempFilePath, 'utf8').trim().split('\n')).toHaveLength(10000);
+        expect(await query(`SELECT count(*)::INTEGER AS rows FROM read_parquet('${outputPath}')`)).toEqual([{ rows: 90000 }]);
+        await converter.cleanupTempFile(result.rejects!.tempFilePath);
+      } finally {
+        converter.close();
+      }
+    });
+  });
+
+  describe('SQL dumps', () => {
+    let dumpPath: string;
+
+    beforeAll(() => {
+      dumpPath = join(directory, 'shop.sql');
+      writeFileSync(dumpPath, [
+        'CREATE TABLE `users` (`id` int NOT NULL, `name` varchar(50));',
+        "INSERT INTO `users` VALUES (1,'Ada'),(2,'Grace');",
+        '',
+      ].join('\n'));
+    });
+
+    it('should write each table in the output format of the dump, checking its schema first', async () => {
+      const converter = new ParquetConverter(createConfig({
+        outputFormats: [{ pattern: 'dumps/*.sql', format: 'ndjson' }],
+      }));
+      const checked: Record<string, SchemaColumn[]> = {};
+
+      try {
+        const tables = converter.convertSqlDumpToParquet(dumpPath, 'dumps/shop.sql', async (table, columns) => {
+          checked[table] = columns;
+          return null;
+        });
+
+        for await (const table of tables) {
+          expect(table).toMatchObject({ table: 'users', rowCount: 2, format: 'ndjson' });
+          expect(table.tempFilePath).toMatch(/\.ndjson$/);
+          expect(readFileSync(table.tempFilePath, 'utf8').trim().split('\n').map((line) => JSON.parse(line))).toEqual([
+            { id: 1, name: 'Ada' },
+            { id: 2, name: 'Grace' },
+          ]);
+        }
+
+        expect(checked).toEqual({
+          users: [{ name: 'id', type: 'INTEGER' }, { name: 'name', type: 'VARCHAR' }],
+        });
+      } finally {
+        converter.close();
+      }
+    });
+
+    it('should leave the schema of Parquet tables to be read back from the file', async () => {
+      const converter = new ParquetConverter(createConfig());
+      let checks = 0;
+
+      try {
+        for await (const table of converter.convertSqlDumpToParquet(dumpPath, 'shop.sql', async () => {
+          checks++;
+          return null;
+        })) {
+          expect(table.format).toBe('parquet');
+          expect(await converter.readParquetSchema(table.tempFilePath)).toEqual([
+            { name: 'id', type: 'INTEGER' },
+            { name: 'name', type: 'VARCHAR' },
+          ]);
+        }
+
+        expect(checks).toBe(0);
+      } finally {
+        converter.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,551 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { gzipSync } from 'zlib';
+import * as tar from 'tar-stream';
+import { compress as lz4Compress } from 'lz4js';
+import { ArchiveErrorCode, FileFormat } from '../../src/types/index.js';
+import { ArchiveExtractor } from '../../src/services/ArchiveExtractor.js';
+import { streamToBuffer } from '../../src/lib/streams.js';
+
+/**
+ * Build an in-memory TAR archive from a path → content map
+ */
+async function createTarBuffer(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const pack = tar.pack();
+
+  pack.entry({ name: 'data/', type: 'directory' });
+  for (const [name, content] of Object.entries(files)) {
+    pack.entry({ name }, content);
+  }
+  pack.finalize();
+
+  return streamToBuffer(pack);
+}
+
+/**
+ * Read every entry of an archive into a path → content map
+ */
+async function readAllEntries(extractor: ArchiveExtractor, filePath: string): Promise<Record<string, string>> {
+  const result: Record<string, string> = {};
+
+  for await (const entry of extractor.extractArchive(filePath)) {
+    result[entry.path] = (await streamToBuffer(entry.stream)).toString();
+  }
+
+  return result;
+}
+
+// tar.bz2 / tar.xz of the `files` fixture below, produced with the bzip2 and xz CLIs
+const TAR_BZ2_FIXTURE =
+  'QlpoOTFBWSZTWQR8BzYAAK//kcsQAGBABf+AMAAwAH5nn0AEAACAAAgwALkhKp6nqm0m0gep6TE9QeoB5R6hjRo0AyZDRiNNA0wEklNqZGgy' +
+  'aNogNpMEGIfm04DyQmYAMZUgFVXrHDBkTEIOJRCGEeYmpKFkc3xLDYJTjAK66ctGEbh504jiQXNTAY1LcBRTj1GPqrvEtE5ihyHyrMSHuKU7' +
+  'Qn8SMo0+pJy3bXrNoOBhPuRGs/VO0hS43GN9Bc4CQfxdyRThQkAR8BzY';
+
+const TAR_XZ_FIXTURE =
+  '/Td6WFoAAATm1rRGBMCwAYBQIQEWAAAAAAAAAAIIjFzgJ/8AqF0AMhhK7pbVZonh7u1PH8/dSJx7X0fcCes/vPW6D9lxcIdqYwCZC0vMmSfs' +
+  'M8xGZHaIv/Zr5rbrcPKXktgj9ixDdqcYDNWF21VDM86L5xnP7wixyX99tcd/2T/JkTSBg/Exlzc3WmN4j9Co5+eyKKD9d7iGMcWFZoeT8xfP' +
+  '+XK6+FvzlmIOhYGjiMMTwdDCslepg/EWb+wp6n+TRHM3yVC8waU6UMko9+MAADMWwPxDjgdsAAHMAYBQAAApu/oZscRn+wIAAAAABFla';
+
+// users.csv (`id,name\n1,Alice\n`) compressed with the bzip2 and xz CLIs
+const CSV_BZ2_FIXTURE = 'QlpoOTFBWSZTWYqDV0oAAAZdAAAQAAQgACAALicgACIADIQNA0MSMiTyEGwd8XckU4UJCKg1dKA=';
+
+const CSV_XZ_FIXTURE =
+  '/Td6WFoAAATm1rRGBMAUECEBFgAAAAAAAAAAAEEgRR8BAA9pZCxuYW1lCjEsQWxpY2UKAPt1XHFnfrzVAAEwELyTd+IftvN9AQAAAAAEWVo=';
+
+// tar.zst / tar.lz4 of the `files` fixture below, produced with the zstd and lz4 CLIs
+const TAR_ZST_FIXTURE =
+  'KLUv/WQADZUEAPLGFhiAqw4A9oeYwbJYUfxAW0ojUhGKJ7CpkgFLjPBYvP35TAAmz0FGUbEQihE0kDioRTBxinrINbWfGzPWHGkAkoGy0V8ZN2Wj' +
+  'rYnXfp9+xtZq3t50Td3Cfw3cdC8UIHApt9ABDsAPzuVX9Zg6InhuwgEigOaoDUw1OxwO87kBLZCIAnAEkHSC1BYABNfZqRcB9nhhsQ==';
+
+const TAR_LZ4_FIXTURE =
+  'BCJNGGRAp8IAAABvZGF0YS8AAQBLkTAwMDc1NSAAMAEADAgAAg0A/wcxNTEyNTMzNDQwMCAwMTAxMzIgADUAAQBQj3VzdGFyADAw5QAwCd0ADwEA' +
+  'lAEAAp91c2Vycy5jc3YAAkY/NjQ0AAIIKzI2AAJ/MjAwNiAAMAAC/1H/CGlkLG5hbWUKMSxBbGljZQoyLEJvYgoAAQD/1wEABK9yZWFkbWUudHh0' +
+  'AARjLDA1AAQ/MTIzAAT/VG9oZWxsbwABAP//////51AAAAAAAAAAAADOQzn6';
+
+// users.csv (`id,name\n1,Alice\n`) compressed with the zstd CLI
+const CSV_ZST_FIXTURE = 'KLUv/SQQgQAAaWQsbmFtZQoxLEFsaWNlCjIP4hU=';
+
+// The header and 20000 `1,Alice` rows, from `lz4 -B4 -BD -BX`: three 64 KiB linked blocks with block checksums
+const CSV_LZ4_LINKED_FIXTURE =
+  'BCJNGFRArhgBAADvaWQsbmFtZQoxLEFsaWMIAP//////////////////////////////////////////////////////////////////////////' +
+  '////////////////////////////////////////////////////////////////////////////////////////////////////////////////' +
+  '////////////////////////////////////////////////////////////////////////////////////////////////////////////////' +
+  '///////////////////////////////////////////aUGxpY2UKsFnsSwoBAAAP+P//////////////////////////////////////////////' +
+  '////////////////////////////////////////////////////////////////////////////////////////////////////////////////' +
+  '////////////////////////////////////////////////////////////////////////////////////////////////////////////////' +
+  '////////////////////////////////////////////////////////////////////////6FBsaWNlClBPdJODAAAAjzEsQWxpY2UKCAD/////' +
+  '////////////////////////////////////////////////////////////////////////////////////////////////////////////////' +
+  '/////////////////////////////////1lQbGljZQoxkaNQAAAAAEn37X4=';
+
+// data/users.csv and data/readme.txt from `files` below, encrypted with `zip -P secret` (ZipCrypto)
+const ZIPCRYPTO_FIXTURE =
+  'UEsDBAoACQAAAEeRU10DO9RcIgAAABYAAAAOAAAAZGF0YS91c2Vycy5jc3bjxSH3XHa7YOwhWtT4nyY37ZT38A/D7COdQavKTJB9djcwUEsHCAM7' +
+  '1FwiAAAAFgAAAFBLAwQKAAkAAABHkVNdhqYQNhEAAAAFAAAADwAAAGRhdGEvcmVhZG1lLnR4dAvUV3ymD+UGB9CwT3GaPUDKUEsHCIamEDYRAAAA' +
+  'BQAAAFBLAQIeAwoACQAAAEeRU10DO9RcIgAAABYAAAAOAAAAAAAAAAEAAACkgQAAAABkYXRhL3VzZXJzLmNzdlBLAQIeAwoACQAAAEeRU12GphA2' +
+  'EQAAAAUAAAAPAAAAAAAAAAEAAACkgV4AAABkYXRhL3JlYWRtZS50eHRQSwUGAAAAAAIAAgB5AAAArAAAAAAA';
+
+// data/readme.txt stored in the clear, then data/users.csv encrypted with `zip -P secret` (ZipCrypto)
+const MIXED_ZIPCRYPTO_FIXTURE =
+  'UEsDBAoAAAAAAAAAU12GphA2BQAAAAUAAAAPAAAAZGF0YS9yZWFkbWUudHh0aGVsbG9QSwMECgAJAAAAAABTXQM71FwiAAAAFgAAAA4AAABkYXRh' +
+  'L3VzZXJzLmNzdoCUfPN7qAvClGQGq5ZszQgMfFKRLb6ygXp33C91AvCgg0ZQSwcIAzvUXCIAAAAWAAAAUEsBAh4DCgAAAAAAAABTXYamEDYFAAAA' +
+  'BQAAAA8AAAAAAAAAAQAAAKSBAAAAAGRhdGEvcmVhZG1lLnR4dFBLAQIeAwoACQAAAAAAU10DO9RcIgAAABYAAAAOAAAAAAAAAAEAAACkgTIAAABk' +
+  'YXRhL3VzZXJzLmNzdlBLBQYAAAAAAgACAHkAAACQAAAAAAA=';
+
+// data/users.csv (the header and 200 `1,Alice` rows, deflated) and data/readme.txt, from the zip CLI
+const ZIP_FIXTURE =
+  'UEsDBBQAAgAIAAWSU13UQV+5HAAAAEgGAAAOAAAAZGF0YS91c2Vycy5jc3bLTNHJS8xN5TLUcczJTB6lR+lRepQepUdp0mgAUEsDBAoAAgAAAAWS' +
+  'U12GphA2BQAAAAUAAAAPAAAAZGF0YS9yZWFkbWUudHh0aGVsbG9QSwECHgMUAAIACAAFklNd1EFfuRwAAABIBgAADgAAAAAAAAABAAAApIEAAAAA' +
+  'ZGF0YS91c2Vycy5jc3ZQSwECHgMKAAIAAAAFklNdhqYQNgUAAAAFAAAADwAAAAAAAAABAAAApIFIAAAAZGF0YS9yZWFkbWUudHh0UEsFBgAAAAAC' +
+  'AAIAeQAAAHoAAAAAAA==';
+
+describe('ArchiveExtractor', () => {
+  const archiveConfig = {
+    sevenZipPath: 'streamleak-missing-7z',
+    unrarPath: 'streamleak-missing-unrar',
+    maxNestingDepth: 5,
+    maxEntries: 1000,
+    maxTotalBytes: 1024 * 1024 * 1024,
+    maxEntryBytes: 1024 * 1024 * 1024,
+    maxCompressionRatio: 100,
+    maxSpoolBytes: 20 * 1024 * 1024 * 1024,
+    entryConcurrency: 1,
+  };
+  const extractor = new ArchiveExtractor(archiveConfig);
+  const files = {
+    'data/users.csv': 'id,name\n1,Alice\n2,Bob\n',
+    'data/readme.txt': 'hello',
+  };
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'archive-extractor-'));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('extractTar', () => {
+    it('should yield file entries from a plain TAR archive', async () => {
+      const archivePath = join(tempDir, 'plain.tar');
+      writeFileSync(archivePath, await createTarBuffer(files));
+
+      expect(await readAllEntries(extractor, archivePath)).toEqual(files);
+    });
+
+    it('should yield file entries from a TAR.GZ archive with sizes', async () => {
+      const archivePath = join(tempDir, 'compressed.tgz');
+      writeFileSync(archivePath, gzipSync(await createTarBuffer(files)));
+
+      const sizes: Record<string, number | undefined> = {};
+      for await (const entry of extractor.extractArchive(archivePath)) {
+        sizes[entry.path] = entry.size;
+        entry.stream.resume();
+      }
+
+      expect(sizes).toEqual({ 'data/users.csv': 22, 'data/readme.txt': 5 });
+    });
+
+    it('should yield file entries from a TAR.BZ2 archive', async () => {
+      const archivePath = join(tempDir, 'compressed.tar.bz2');
+      writeFileSync(archivePath, Buffer.from(TAR_BZ2_FIXTURE, 'base64'));
+
+      expect(await readAllEntries(extractor, archivePath)).toEqual(files);
+    });
+
+    it.each([
+      ['compressed.tar.zst', TAR_ZST_FIXTURE],
+      ['compressed.tar.lz4', TAR_LZ4_FIXTURE],
+    ])('should yield file entries from %s', async (name, fixture) => {
+      const archivePath = join(tempDir, name);
+      writeFileSync(archivePath, Buffer.from(fixture, 'base64'));
+
+      expect(await readAllEntries(extractor, archivePath)).toEqual(files);
+    });
+
+    it('should yield file entries from a TAR.XZ archive', async () => {
+      const archivePath = join(tempDir, 'compressed.tar.xz');
+      writeFileSync(archivePath, Buffer.from(TAR_XZ_FIXTURE, 'base64'));
+
+      expect(await readAllEntries(extractor, archivePath)).toEqual(files);
+    });
+
+    it.each(['broken.tar.bz2', 'broken.txz'])('should reject corrupted archive %s', async (name) => {
+      const archivePath = join(tempDir, name);
+      writeFileSync(archivePath, Buffer.from('definitely not compressed'));
+
+      await expect(readAllEntries(extractor, archivePath)).rejects.toThrow();
+    });
+
+    it('should detect misnamed archives by content', async () => {
+      const archivePath = join(tempDir, 'export.dat');
+      writeFileSync(archivePath, gzipSync(await createTarBuffer(files)));
+
+      expect(await readAllEntries(extractor, archivePath)).toEqual(files);
+    });
+
+    it('should reject corrupted compressed archives', async () => {
+      const archivePath = join(tempDir, 'corrupted.tar.gz');
+      writeFileSync(archivePath, Buffer.from('definitely not gzip'));
+
+      await expect(readAllEntries(extractor, archivePath)).rejects.toThrow();
+    });
+  });
+
+  describe('single compressed files', () => {
+    const csv = 'id,name\n1,Alice\n';
+
+    it.each([
+      ['users.csv.gz', gzipSync(csv)],
+      ['users.csv.bz2', Buffer.from(CSV_BZ2_FIXTURE, 'base64')],
+      ['users.csv.xz', Buffer.from(CSV_XZ_FIXTURE, 'base64')],
+      ['users.csv.zst', Buffer.from(CSV_ZST_FIXTURE, 'base64')],
+      ['users.csv.lz4', Buffer.from(lz4Compress(Buffer.from(csv)))],
+    ])('should yield %s as a single entry under its inner name', async (name, content) => {
+      const filePath = join(tempDir, name);
+      writeFileSync(filePath, content);
+
+      const entries = [];
+      for await (const entry of extractor.extractArchive(filePath)) {
+        entries.push({ ...entry, content: (await streamToBuffer(entry.stream)).toString() });
+      }
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        path: 'users.csv',
+        content: csv,
+        compressedFile: true,
+        format: FileFormat.UTF8,
+      });
+      expect(await extractor.isSingleCompressedFile(filePath)).toBe(true);
+    });
+
+    it('should decode LZ4 frames whose blocks reference earlier blocks', async () => {
+      const filePath = join(tempDir, 'linked.csv.lz4');
+      writeFileSync(filePath, Buffer.from(CSV_LZ4_LINKED_FIXTURE, 'base64'));
+
+      expect(await readAllEntries(extractor, filePath)).toEqual({
+        'linked.csv': `id,name\n${'1,Alice\n'.repeat(20000)}`,
+      });
+    });
+
+    it('should decode every frame of a multi-frame zstd file', async () => {
+      const filePath = join(tempDir, 'frames.csv.zst');
+      const frame = Buffer.from(CSV_ZST_FIXTURE, 'base64');
+      writeFileSync(filePath, Buffer.concat([frame, frame]));
+
+      expect(await readAllEntries(extractor, filePath)).toEqual({ 'frames.csv': csv + csv });
+    });
+
+    it.each([
+      ['truncated.csv.zst', Buffer.from(CSV_ZST_FIXTURE, 'base64')],
+      ['truncated.csv.lz4', Buffer.from(CSV_LZ4_LINKED_FIXTURE, 'base64')],
+    ])('should reject truncated input in %s', async (name, content) => {
+      const filePath = join(tempDir, name);
+      writeFileSync(filePath, content.subarray(0, content.length - 6));
+
+      await expect(readAllEntries(extractor, filePath)).rejects.toThrow();
+    });
+
+    it('should still extract TAR archives compressed under a plain .gz name', async () => {
+      const archivePath = join(tempDir, 'bundle.gz');
+      writeFileSync(archivePath, gzipSync(await createTarBuffer(files)));
+
+      expect(await readAllEntries(extractor, archivePath)).toEqual(files);
+      expect(await extractor.isSingleCompressedFile(archivePath)).toBe(false);
+    });
+
+    it('should decompress compressed entries inside archives in place', async () => {
+      const archivePath = join(tempDir, 'with-compressed.tar');
+      writeFileSync(archivePath, await createTarBuffer({ 'data/users.csv.gz': gzipSync(csv) }));
+
+      expect(await readAllEntries(extractor, archivePath)).toEqual({ 'data/users.csv': csv });
+    });
+
+    it('should not treat archives or uncompressed files as single compressed files', async () => {
+      const archivePath = join(tempDir, 'single-check.tar');
+      writeFileSync(archivePath, await createTarBuffer(files));
+
+      expect(await extractor.isSingleCompressedFile(archivePath)).toBe(false);
+    });
+  });
+
+  describe('ZIP archives', () => {
+    const zipFiles = {
+      'data/users.csv': `id,name\n${'1,Alice\n'.repeat(200)}`,
+      'data/readme.txt': 'hello',
+    };
+
+    it('should read local ZIP files from the central directory with uncompressed sizes', async () => {
+      const archivePath = join(tempDir, 'directory.zip');
+      writeFileSync(archivePath, Buffer.from(ZIP_FIXTURE, 'base64'));
+
+      const entries = [];
+      for await (const entry of extractor.extractArchive(archivePath)) {
+        entries.push(entry);
+      }
+
+      expect(entries.map(({ path, size, randomAccess }) => ({ path, size, randomAccess }))).toEqual([
+        { path: 'data/users.csv', size: 1608, randomAccess: true },
+        { path: 'data/readme.txt', size: 5, randomAccess: true },
+      ]);
+
+      // Entries are independent, so they can be read in any order once listed
+      const contents = await Promise.all(entries.reverse().map((entry) => streamToBuffer(entry.stream)));
+      expect(contents.map(String)).toEqual([zipFiles['data/readme.txt'], zipFiles['data/users.csv']]);
+    });
+
+    it('should stream nested ZIP archives with uncompressed sizes', async () => {
+      const archivePath = join(tempDir, 'nested-zip.tar');
+      writeFileSync(archivePath, await createTarBuffer({ 'export.zip': Buffer.from(ZIP_FIXTURE, 'base64') }));
+
+      const sizes: Record<string, number | undefined> = {};
+      for await (const entry of extractor.extractArchive(archivePath)) {
+        expect(entry.randomAccess).toBeFalsy();
+        sizes[entry.path] = entry.size;
+        entry.stream.resume();
+      }
+
+      expect(sizes).toEqual({ 'export/data/users.csv': 1608, 'export/data/readme.txt': 5 });
+    });
+
+    it('should fall back to streaming when the central directory is missing', async () => {
+      const archivePath = join(tempDir, 'truncated.zip');
+      const zip = Buffer.from(ZIP_FIXTURE, 'base64');
+      writeFileSync(archivePath, zip.subarray(0, zip.indexOf('PK\x01\x02', 0, 'latin1')));
+
+      expect(await readAllEntries(extractor, archivePath)).toEqual(zipFiles);
+    });
+  });
+
+  describe('split archives', () => {
+    /**
+     * Write a buffer as volumes of roughly equal size and return their paths
+     */
+    function writeVolumes(buffer: Buffer, names: string[]): string[] {
+      const volumeSize = Math.ceil(buffer.length / names.length);
+
+      return names.map((name, index) => {
+        const volumePath = join(tempDir, name);
+        writeFileSync(volumePath, buffer.subarray(index * volumeSize, (index + 1) * volumeSize));
+        return volumePath;
+      });
+    }
+
+    /**
+     * Read every entry of a split archive into a path → content map
+     */
+    async function readVolumeEntries(setPath: string, volumes: string[]): Promise<Record<string, string>> {
+      const result: Record<string, string> = {};
+
+      for await (const entry of extractor.extractArchive(setPath, volumes)) {
+        result[entry.path] = (await streamToBuffer(entry.stream)).toString();
+      }
+
+      return result;
+    }
+
+    it('should extract pieces of a TAR.GZ cut with split -b as one archive', async () => {
+      const tarGz = gzipSync(await createTarBuffer(files));
+      const volumes = writeVolumes(tarGz, ['dump.tar.gz.aa', 'dump.tar.gz.ab', 'dump.tar.gz.ac']);
+
+      expect(await readVolumeEntries(join(tempDir, 'dump.tar.gz'), volumes)).toEqual(files);
+    });
+
+    it('should extract spanned ZIP volumes past their spanning marker', async () => {
+      const spanned = Buffer.concat([Buffer.from('PK\x07\x08', 'latin1'), Buffer.from(ZIP_FIXTURE, 'base64')]);
+      const volumes = writeVolumes(spanned, ['spanned.z01', 'spanned.zip']);
+
+      expect(await readVolumeEntries(join(tempDir, 'spanned.zip'), volumes)).toEqual({
+        'data/users.csv': `id,name\n${'1,Alice\n'.repeat(200)}`,
+        'data/readme.txt': 'hello',
+      });
+    });
+
+    it('should recognize single compressed files split into numbered pieces', async () => {
+      const volumes = writeVolumes(gzipSync('id,name\n1,Alice\n'), ['users.csv.gz.001', 'users.csv.gz.002']);
+      const setPath = join(tempDir, 'users.csv.gz');
+
+      expect(await extractor.isSingleCompressedFile(setPath, volumes)).toBe(true);
+      expect(await readVolumeEntries(setPath, volumes)).toEqual({ 'users.csv': 'id,name\n1,Alice\n' });
+    });
+  });
+
+  describe('encrypted ZIP archives', () => {
+    let archivePath: string;
+
+    beforeAll(() => {
+      archivePath = join(tempDir, 'encrypted.zip');
+      writeFileSync(archivePath, Buffer.from(ZIPCRYPTO_FIXTURE, 'base64'));
+    });
+
+    it('should decrypt with the first matching password and report its index', async () => {
+      const withPasswords = new ArchiveExtractor(archiveConfig, ['wrong', 'secret', 'also-wrong']);
+      const result: Record<string, string> = {};
+      const indexes = new Set<number | undefined>();
+
+      for await (const entry of withPasswords.extractArchive(archivePath)) {
+        result[entry.path] = (await streamToBuffer(entry.stream)).toString();
+        indexes.add(entry.passwordIndex);
+      }
+
+      expect(result).toEqual(files);
+      expect([...indexes]).toEqual([1]);
+    });
+
+    it('should decrypt encrypted archives nested in other archives', async () => {
+      const outerPath = join(tempDir, 'outer-encrypted.tar');
+      writeFileSync(outerPath, await createTarBuffer({ 'dump.zip': Buffer.from(ZIPCRYPTO_FIXTURE, 'base64') }));
+
+      const entries = await readAllEntries(new ArchiveExtractor(archiveConfig, ['secret']), outerPath);
+
+      expect(entries['dump/data/users.csv']).toBe(files['data/users.csv']);
+    });
+
+    it('should decrypt an archive whose first entry is not encrypted', async () => {
+      const mixedPath = join(tempDir, 'mixed.zip');
+      writeFileSync(mixedPath, Buffer.from(MIXED_ZIPCRYPTO_FIXTURE, 'base64'));
+
+      const entries = await readAllEntries(new ArchiveExtractor(archiveConfig, ['secret']), mixedPath);
+
+      expect(entries).toEqual(files);
+    });
+
+    it('should decrypt a nested archive whose first entry is not encrypted', async () => {
+      const outerPath = join(tempDir, 'outer-mixed.tar');
+      writeFileSync(outerPath, await createTarBuffer({ 'dump.zip': Buffer.from(MIXED_ZIPCRYPTO_FIXTURE, 'base64') }));
+
+      const entries = await readAllEntries(new ArchiveExtractor(archiveConfig, ['secret']), outerPath);
+
+      expect(entries['dump/data/readme.txt']).toBe(files['data/readme.txt']);
+      expect(entries['dump/data/users.csv']).toBe(files['data/users.csv']);
+    });
+
+    it('should fail a partly encrypted archive with an encrypted error when no passwords are configured', async () => {
+      const mixedPath = join(tempDir, 'mixed-unconfigured.zip');
+      writeFileSync(mixedPath, Buffer.from(MIXED_ZIPCRYPTO_FIXTURE, 'base64'));
+
+      await expect(readAllEntries(extractor, mixedPath)).rejects.toMatchObject({
+        code: ArchiveErrorCode.ENCRYPTED,
+      });
+    });
+
+    it('should fail with an encrypted error when no password matches', async () => {
+      const withPasswords = new ArchiveExtractor(archiveConfig, ['wrong', 'guess']);
+
+      await expect(readAllEntries(withPasswords, archivePath)).rejects.toMatchObject({
+        code: ArchiveErrorCode.ENCRYPTED,
+        message: expect.not.stringContaining('guess'),
+      });
+    });
+
+    it('should fail with an encrypted error when no passwords are configured', async () => {
+      await expect(readAllEntries(extractor, archivePath)).rejects.toMatchObject({
+        code: ArchiveErrorCode.ENCRYPTED,
+      });
+    });
+  });
+
+  describe('external tool backends', () => {
+    it.each([
+      ['dump.7z', Buffer.from([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c, 0x00, 0x04])],
+      ['dump.rar', Buffer.from('Rar!\x1a\x07\x01\x00', 'latin1')],
+    ])('should classify a missing tool for %s', async (name, signature) => {
+      const archivePath = join(tempDir, name);
+      writeFileSync(archivePath, signature);
+
+      await expect(readAllEntries(extractor, archivePath)).rejects.toMatchObject({
+        name: 'ArchiveError',
+        code: ArchiveErrorCode.TOOL_UNAVAILABLE,
+      });
+    });
+  });
+
+  describe('nested archives', () => {
+    let archivePath: string;
+
+    beforeAll(async () => {
+      const innermost = gzipSync(await createTarBuffer({ 'data/deep.txt': 'deep' }));
+      const inner = await createTarBuffer({ 'data/inner.txt': 'inner', 'data/innermost.tgz': innermost });
+      const outer = await createTarBuffer({ 'data/outer.txt': 'outer', 'data/inner.tar': inner });
+
+      archivePath = join(tempDir, 'outer.tar.gz');
+      writeFileSync(archivePath, gzipSync(outer));
+    });
+
+    it('should report the detected format of each entry', async () => {
+      const formats: Record<string, string | null | undefined> = {};
+      for await (const entry of extractor.extractArchive(archivePath)) {
+        formats[entry.path] = entry.format;
+        entry.stream.resume();
+      }
+
+      expect(formats['data/outer.txt']).toBe(FileFormat.UTF8);
+    });
+
+    it('should expand nested archives under their own directory', async () => {
+      expect(await readAllEntries(extractor, archivePath)).toEqual({
+        'data/outer.txt': 'outer',
+        'data/inner/data/inner.txt': 'inner',
+        'data/inner/data/innermost/data/deep.txt': 'deep',
+      });
+    });
+
+    it('should keep archives beyond the depth limit as opaque entries', async () => {
+      const shallow = new ArchiveExtractor({ ...archiveConfig, maxNestingDepth: 1 });
+      const entries = await readAllEntries(shallow, archivePath);
+
+      expect(Object.keys(entries).sort()).toEqual([
+        'data/inner/data/inner.txt',
+        'data/inner/data/innermost.tgz',
+        'data/outer.txt',
+      ]);
+    });
+
+    it('should abort when the total entry count exceeds the limit', async () => {
+      const limited = new ArchiveExtractor({ ...archiveConfig, maxEntries: 3 });
+
+      await expect(readAllEntries(limited, archivePath)).rejects.toMatchObject({
+        code: ArchiveErrorCode.LIMIT_EXCEEDED,
+      });
+    });
+  });
+
+  describe('safeguards', () => {
+    it('should abort on entries that traverse outside the archive', async () => {
+      const archivePath = join(tempDir, 'traversal.tar');
+      writeFileSync(archivePath, await createTarBuffer({ 'data/ok.txt': 'ok', '../../other-prefix/x': 'evil' }));
+
+      await expect(readAllEntries(extractor, archivePath)).rejects.toMatchObject({
+        code: ArchiveErrorCode.UNSAFE_PATH,
+      });
+    });
+
+    it('should abort when an entry exceeds the per-entry size limit', async () => {
+      const limited = new ArchiveExtractor({ ...archiveConfig, maxEntryBytes: 10 });
+      const archivePath = join(tempDir, 'large-entry.tar');
+      writeFileSync(archivePath, await createTarBuffer({ 'data/large.txt': 'x'.repeat(11) }));
+
+      await expect(readAllEntries(limited, archivePath)).rejects.toMatchObject({
+        code: ArchiveErrorCode.LIMIT_EXCEEDED,
+      });
+    });
+
+    it('should abort when the total uncompressed size exceeds the limit', async () => {
+      const limited = new ArchiveExtractor({ ...archiveConfig, maxTotalBytes: 15 });
+      const archivePath = join(tempDir, 'large-total.tar');
+      writeFileSync(archivePath, await createTarBuffer({ 'data/a.txt': 'x'.repeat(10), 'data/b.txt': 'y'.repeat(10) }));
+
+      await expect(readAllEntries(limited, archivePath)).rejects.toThrow('total uncompressed size');
+    });
+
+    it('should abort when the compression ratio exceeds the limit', async () => {
+      const archivePath = join(tempDir, 'bomb.tar.gz');
+      writeFileSync(archivePath, gzipSync(await createTarBuffer({ 'data/zeros.bin': Buffer.alloc(8 * 1024 * 1024) })));
+
+      await expect(readAllEntries(extractor, archivePath)).rejects.toThrow('compression ratio');
+    });
+  });
+});
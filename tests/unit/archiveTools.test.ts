@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  parseSevenZipListing,
+  parseUnrarListing,
+  streamSevenZipContents,
+  testSevenZipPassword,
+} from '../../src/lib/archiveTools.js';
+import { streamToBuffer } from '../../src/lib/streams.js';
+
+describe('Archive tool listings', () => {
+  describe('parseSevenZipListing', () => {
+    it('should parse entries after the archive properties block', () => {
+      const output = [
+        '7-Zip (a) [64] 16.02 : Copyright (c) 1999-2016 Igor Pavlov : 2016-05-21',
+        '',
+        'Listing archive: dump.7z',
+        '',
+        '--',
+        'Path = dump.7z',
+        'Type = 7z',
+        'Physical Size = 18700',
+        '',
+        '----------',
+        'Path = data',
+        'Size = 0',
+        'Attributes = D_ drwxr-xr-x',
+        '',
+        'Path = data/users.csv',
+        'Size = 588895',
+        'Modified = 2016-05-21 10:00:00.1234567',
+        'Attributes = A_ -rw-r--r--',
+        'Encrypted = -',
+        '',
+        'Path = data/a=b.txt',
+        'Size = 6',
+        'Attributes = A_ -rw-r--r--',
+        '',
+      ].join('\n');
+
+      expect(parseSevenZipListing(output)).toEqual([
+        { path: 'data', size: 0, isDirectory: true },
+        { path: 'data/users.csv', size: 588895, isDirectory: false, modifiedAt: new Date(2016, 4, 21, 10, 0, 0) },
+        { path: 'data/a=b.txt', size: 6, isDirectory: false },
+      ]);
+    });
+  });
+
+  describe('parseUnrarListing', () => {
+    it('should parse file and directory entries', () => {
+      const output = [
+        'UNRAR 6.21 freeware      Copyright (c) 1993-2023 Alexander Roshal',
+        '',
+        'Archive: dump.rar',
+        'Details: RAR 5',
+        '',
+        '        Name: data/users.csv',
+        '        Type: File',
+        '        Size: 1234',
+        '       mtime: 2025-11-15 10:30:00,000000000',
+        '',
+        '        Name: data',
+        '        Type: Directory',
+        '',
+      ].join('\n');
+
+      expect(parseUnrarListing(output)).toEqual([
+        { path: 'data/users.csv', size: 1234, isDirectory: false, modifiedAt: new Date(2025, 10, 15, 10, 30, 0) },
+        { path: 'data', size: 0, isDirectory: true },
+      ]);
+    });
+  });
+});
+
+describe('7-Zip passwords', () => {
+  let directory: string;
+  let toolPath: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'archive-tools-test-'));
+    toolPath = join(directory, 'fake-7z');
+    // Records its arguments, answers its password prompt from stdin and accepts only "secret"
+    writeFileSync(toolPath, [
+      '#!/bin/sh',
+      `echo "$@" > ${join(directory, 'args')}`,
+      'IFS= read -r password',
+      'if [ "$password" != secret ]; then echo "Wrong password" >&2; exit 2; fi',
+      'printf content',
+    ].join('\n'));
+    chmodSync(toolPath, 0o755);
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const recordedArgs = () => readFileSync(join(directory, 'args'), 'utf8');
+
+  it('should send a tested password on stdin rather than the command line', async () => {
+    expect(await testSevenZipPassword(toolPath, 'dump.zip', 'wrong', 'data/users.csv')).toBe(false);
+    expect(recordedArgs()).not.toContain('wrong');
+
+    expect(await testSevenZipPassword(toolPath, 'dump.zip', 'secret', 'data/users.csv')).toBe(true);
+    expect(recordedArgs()).not.toContain('secret');
+  });
+
+  it('should send the extraction password on stdin rather than the command line', async () => {
+    const { stream, done } = streamSevenZipContents(toolPath, 'dump.zip', 'secret');
+
+    expect((await streamToBuffer(stream)).toString()).toBe('content');
+    await done;
+    expect(recordedArgs()).toBe('x -so -y -- dump.zip\n');
+  });
+});
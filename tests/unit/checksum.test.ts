@@ -1,5 +1,6 @@
 import { describe, it, expect } from '@jest/globals';
-import { calculateBufferChecksum } from '../../src/lib/checksum.js';
+import { Readable } from 'stream';
+import { calculateBufferChecksum, calculateStreamCrc32, createChecksumStream } from '../../src/lib/checksum.js';
 
 describe('Checksum utilities', () => {
   describe('calculateBufferChecksum', () => {
@@ -40,4 +41,37 @@ describe('Checksum utilities', () => {
       expect(checksum).toHaveLength(64);
     });
   });
+
+  describe('createChecksumStream', () => {
+    it('should pass content through and report its checksum and size', async () => {
+      const { stream, digest } = createChecksumStream();
+      const chunks: Buffer[] = [];
+
+      for await (const chunk of Readable.from([Buffer.from('test '), Buffer.from('content')]).pipe(stream)) {
+        chunks.push(chunk as Buffer);
+      }
+
+      expect(Buffer.concat(chunks).toString()).toBe('test content');
+      expect(digest()).toEqual({
+        checksum: calculateBufferChecksum(Buffer.from('test content')),
+        sizeBytes: 12,
+      });
+    });
+  });
+
+  describe('calculateStreamCrc32', () => {
+    it('should match the standard CRC-32 check value', async () => {
+      expect(await calculateStreamCrc32(Readable.from([Buffer.from('123456789')]))).toBe(0xcbf43926);
+    });
+
+    it('should be independent of chunk boundaries', async () => {
+      const chunks = [Buffer.from('1234'), Buffer.from('56789')];
+
+      expect(await calculateStreamCrc32(Readable.from(chunks))).toBe(0xcbf43926);
+    });
+
+    it('should return 0 for an empty stream', async () => {
+      expect(await calculateStreamCrc32(Readable.from([]))).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildColumnProjection } from '../../src/lib/columnRules.js';
+
+describe('Column rules', () => {
+  describe('buildColumnProjection', () => {
+    const columns = ['id', 'phone', 'first', 'last', 'notes'];
+
+    it('should select every column unchanged for an empty rule', () => {
+      expect(buildColumnProjection(['id', 'na"me'], { pattern: '*.csv' }))
+        .toBe('"id" AS "id", "na""me" AS "na""me"');
+    });
+
+    it('should cast, rename, derive, drop and reorder columns', () => {
+      const projection = buildColumnProjection(columns, {
+        pattern: 'customers_*.csv',
+        cast: { id: 'VARCHAR', phone: 'VARCHAR' },
+        rename: { id: 'customer_id' },
+        derive: { full_name: "first || ' ' || last" },
+        drop: ['notes', 'first', 'last'],
+        order: ['full_name'],
+      });
+
+      expect(projection).toBe(
+        `(first || ' ' || last) AS "full_name", CAST("id" AS VARCHAR) AS "customer_id", CAST("phone" AS VARCHAR) AS "phone"`
+      );
+    });
+
+    it('should reject rules referring to missing columns', () => {
+      expect(() => buildColumnProjection(columns, { pattern: 'a.csv', cast: { email: 'VARCHAR' } }))
+        .toThrow('refers to missing column email');
+      expect(() => buildColumnProjection(columns, { pattern: 'a.csv', drop: ['email'] }))
+        .toThrow('drops missing column email');
+      expect(() => buildColumnProjection(columns, { pattern: 'a.csv', drop: ['notes'], order: ['notes'] }))
+        .toThrow('orders missing column notes');
+    });
+
+    it('should reject duplicate and empty outputs', () => {
+      expect(() => buildColumnProjection(columns, { pattern: 'a.csv', rename: { first: 'last' } }))
+        .toThrow('produces column last more than once');
+      expect(() => buildColumnProjection(['id'], { pattern: 'a.csv', drop: ['id'] }))
+        .toThrow('drops every column');
+    });
+  });
+});
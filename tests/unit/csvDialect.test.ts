@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { sniffCsvDialect, sniffCsvFile } from '../../src/lib/csvDialect.js';
+
+describe('CSV dialect sniffing', () => {
+  describe('sniffCsvDialect', () => {
+    it('should detect a plain comma-separated file with a header', () => {
+      expect(sniffCsvDialect('id,name,score\n1,Alice,9.5\n2,Bob,7\n')).toEqual({
+        delimiter: ',',
+        quote: '"',
+        escape: '"',
+        header: true,
+        skipRows: 0,
+      });
+    });
+
+    it('should prefer semicolons over decimal commas', () => {
+      const dialect = sniffCsvDialect('id;price;city\n1;10,50;Oslo\n2;3,25;Bergen\n3;7,00;Tromsø\n');
+
+      expect(dialect.delimiter).toBe(';');
+      expect(dialect.header).toBe(true);
+    });
+
+    it('should detect tabs and pipes', () => {
+      expect(sniffCsvDialect('a\tb\n1\t2\n3\t4\n').delimiter).toBe('\t');
+      expect(sniffCsvDialect('a|b|c\n1|x, y|2\n3|z|4\n').delimiter).toBe('|');
+    });
+
+    it('should ignore delimiters inside quoted fields spanning lines', () => {
+      const dialect = sniffCsvDialect('id,comment\n1,"first; with\nline break"\n2,"second; ok"\n3,plain\n');
+
+      expect(dialect.delimiter).toBe(',');
+      expect(dialect.header).toBe(true);
+    });
+
+    it('should detect single quotes and backslash escapes', () => {
+      const dialect = sniffCsvDialect("id,name\n1,'O\\'Brien'\n2,'Smith'\n3,'Jones'\n");
+
+      expect(dialect.quote).toBe("'");
+      expect(dialect.escape).toBe('\\');
+    });
+
+    it('should detect doubled quotes as the escape', () => {
+      expect(sniffCsvDialect('id,quote\n1,"He said ""hi"""\n2,""\n').escape).toBe('"');
+    });
+
+    it('should detect a missing header row', () => {
+      expect(sniffCsvDialect('1;Alice;2024-01-02\n2;Bob;2024-02-03\n').header).toBe(false);
+      expect(sniffCsvDialect('Alice;NO;1999\nBob;SE;2001\n').header).toBe(false);
+    });
+
+    it('should skip title lines before the table', () => {
+      const dialect = sniffCsvDialect('Sales report\nGenerated 2024-05-01\n\nregion,units\nnorth,10\nsouth,12\n');
+
+      expect(dialect).toMatchObject({ delimiter: ',', header: true, skipRows: 2 });
+    });
+
+    it('should fall back to a comma for single-column files', () => {
+      expect(sniffCsvDialect('name\nAlice\nBob\n')).toMatchObject({ delimiter: ',', header: true });
+    });
+  });
+
+  describe('sniffCsvFile', () => {
+    let workDirectory: string;
+
+    beforeEach(() => {
+      workDirectory = mkdtempSync(join(tmpdir(), 'csv-dialect-test-'));
+    });
+
+    afterEach(() => {
+      rmSync(workDirectory, { recursive: true, force: true });
+    });
+
+    it('should sniff from the start of a file larger than the sample', async () => {
+      const filePath = join(workDirectory, 'large.csv');
+      const rows = Array.from({ length: 10000 }, (_, index) => `${index}|item ${index}|${index * 3}`);
+      writeFileSync(filePath, `\uFEFFid|label|total\n${rows.join('\n')}\n`);
+
+      await expect(sniffCsvFile(filePath)).resolves.toEqual({
+        delimiter: '|',
+        quote: '"',
+        escape: '"',
+        header: true,
+        skipRows: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import { Readable } from 'stream';
+import { detectEncoding, normalizeEncoding, createUtf8Transcoder } from '../../src/lib/encoding.js';
+import { streamToBuffer } from '../../src/lib/streams.js';
+
+/**
+ * Encode text as Windows-1251 (ASCII and Russian letters only)
+ */
+function encodeWindows1251(text: string): Buffer {
+  return Buffer.from([...text].map((char) => {
+    if (char === 'ё') return 0xb8;
+    if (char === 'Ё') return 0xa8;
+    const code = char.charCodeAt(0);
+    return code >= 0x410 && code <= 0x44f ? code - 0x410 + 0xc0 : code;
+  }));
+}
+
+// "id,名前,都市\n1,こんにちは,東京\n" in Shift-JIS
+const SHIFT_JIS_CSV = Buffer.from([
+  0x69, 0x64, 0x2c, 0x96, 0xbc, 0x91, 0x4f, 0x2c, 0x93, 0x73, 0x8e, 0x73, 0x0a,
+  0x31, 0x2c, 0x82, 0xb1, 0x82, 0xf1, 0x82, 0xc9, 0x82, 0xbf, 0x82, 0xcd, 0x2c, 0x93, 0x8c, 0x8b, 0x9e, 0x0a,
+]);
+
+describe('Encoding detection', () => {
+  describe('detectEncoding', () => {
+    it('should detect byte order marks', () => {
+      expect(detectEncoding(Buffer.from('\uFEFFid,name\n', 'utf8'))).toBe('utf-8');
+      expect(detectEncoding(Buffer.from('\uFEFFid,name\n', 'utf16le'))).toBe('utf-16le');
+      expect(detectEncoding(Buffer.from('\uFEFFid,name\n', 'utf16le').swap16())).toBe('utf-16be');
+    });
+
+    it('should detect UTF-16 without a byte order mark', () => {
+      expect(detectEncoding(Buffer.from('id,name\n1,Zoë\n', 'utf16le'))).toBe('utf-16le');
+      expect(detectEncoding(Buffer.from('id,name\n1,Zoë\n', 'utf16le').swap16())).toBe('utf-16be');
+    });
+
+    it('should detect UTF-8, including a character split at the end of the sample', () => {
+      const text = Buffer.from('id,city\n1,Tromsø\n2,Zürich\n', 'utf8');
+
+      expect(detectEncoding(text)).toBe('utf-8');
+      expect(detectEncoding(Buffer.from('plain ascii\n'))).toBe('utf-8');
+      expect(detectEncoding(text.subarray(0, text.indexOf('ø') + 1), true)).toBe('utf-8');
+    });
+
+    it('should detect Latin-1 text', () => {
+      expect(detectEncoding(Buffer.from('id,city\n1,Tromsø\n2,Zürich\n3,Besançon\n', 'latin1'))).toBe('windows-1252');
+    });
+
+    it('should detect Windows-1251 text', () => {
+      expect(detectEncoding(encodeWindows1251('id,имя,город\n1,Пётр,Москва\n2,Анна,Санкт-Петербург\n')))
+        .toBe('windows-1251');
+    });
+
+    it('should detect Shift-JIS text', () => {
+      expect(detectEncoding(SHIFT_JIS_CSV)).toBe('shift_jis');
+    });
+  });
+
+  describe('normalizeEncoding', () => {
+    it('should map labels to canonical names', () => {
+      expect(normalizeEncoding('latin1')).toBe('windows-1252');
+      expect(normalizeEncoding('cp1251')).toBe('windows-1251');
+      expect(normalizeEncoding('SJIS')).toBe('shift_jis');
+    });
+
+    it('should reject unknown encodings', () => {
+      expect(() => normalizeEncoding('klingon')).toThrow('encoding is not supported');
+    });
+  });
+
+  describe('createUtf8Transcoder', () => {
+    it('should transcode characters split across chunks', async () => {
+      const chunks = [...SHIFT_JIS_CSV].map((byte) => Buffer.from([byte]));
+
+      const output = await streamToBuffer(Readable.from(chunks).pipe(createUtf8Transcoder('shift_jis')));
+
+      expect(output.toString('utf8')).toBe('id,名前,都市\n1,こんにちは,東京\n');
+    });
+
+    it('should drop the byte order mark', async () => {
+      const input = Buffer.from('\uFEFFid\n1\n', 'utf16le');
+
+      const output = await streamToBuffer(Readable.from([input]).pipe(createUtf8Transcoder('utf-16le')));
+
+      expect(output.toString('utf8')).toBe('id\n1\n');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { FileMonitor } from '../../src/services/FileMonitor.js';
+import type { FileMetadata } from '../../src/models/FileMetadata.js';
+
+describe('FileMonitor', () => {
+  let directory: string;
+  let monitor: FileMonitor;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'file-monitor-test-'));
+    monitor = new FileMonitor({
+      watchPath: directory,
+      stabilityThreshold: 50,
+      pollInterval: 10,
+      ignoreInitial: false,
+      volumeQuietPeriod: 50,
+    });
+  });
+
+  afterEach(async () => {
+    await monitor.stop();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Start the monitor and collect the files it releases
+   */
+  function collectReadyFiles(count: number): Promise<FileMetadata[]> {
+    const files: FileMetadata[] = [];
+
+    return new Promise((resolve, reject) => {
+      monitor.on('error', reject);
+      monitor.on('fileReady', (metadata) => {
+        files.push(metadata);
+        if (files.length === count) {
+          resolve(files);
+        }
+      });
+      monitor.start();
+    });
+  }
+
+  describe('split archives', () => {
+    it('should release split -b pieces running from .aa as one archive', async () => {
+      writeFileSync(join(directory, 'dump.tar.gz.aa'), 'first');
+      writeFileSync(join(directory, 'dump.tar.gz.ab'), 'second');
+
+      const [file] = await collectReadyFiles(1);
+
+      expect(file).toMatchObject({
+        path: join(directory, 'dump.tar.gz'),
+        size: 11,
+        volumes: [join(directory, 'dump.tar.gz.aa'), join(directory, 'dump.tar.gz.ab')],
+      });
+    });
+
+    it('should release a file only named like a split -b piece as an ordinary file', async () => {
+      writeFileSync(join(directory, 'data.zip.js'), 'console.log(1);');
+
+      const [file] = await collectReadyFiles(1);
+
+      expect(file.path).toBe(join(directory, 'data.zip.js'));
+      expect(file.volumes).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,625 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createReadStream, existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import * as tar from 'tar-stream';
+import type { AppConfig, RejectsFormat, SchemaColumn } from '../../src/types/index.js';
+import { FileType, ProcessingStatus } from '../../src/types/index.js';
+import { createFileMetadata, type FileMetadata } from '../../src/models/FileMetadata.js';
+import { createS3UploadTask, type S3UploadTask } from '../../src/models/S3UploadTask.js';
+import { MANIFEST_FILE_NAME } from '../../src/models/ArchiveManifest.js';
+import { FileProcessor } from '../../src/services/FileProcessor.js';
+import { S3Uploader } from '../../src/services/S3Uploader.js';
+import { ProgressTracker } from '../../src/services/ProgressTracker.js';
+import { ArchiveExtractor } from '../../src/services/ArchiveExtractor.js';
+import type { ParquetConverter } from '../../src/services/ParquetConverter.js';
+import type { ParquetPart } from '../../src/lib/parts.js';
+import { calculateFileChecksum } from '../../src/lib/checksum.js';
+import { streamToBuffer } from '../../src/lib/streams.js';
+
+/**
+ * Configuration with defaults, as loaded from an empty environment
+ */
+function createConfig(directory: string): AppConfig {
+  return {
+    s3: {
+      endpoint: 'http://localhost:9000',
+      region: 'us-east-1',
+      bucket: 'test-bucket',
+      accessKeyId: 'test',
+      secretAccessKey: 'test',
+      forcePathStyle: true,
+      uploadPartSize: 8 * 1024 * 1024,
+      uploadQueueSize: 4,
+    },
+    monitoring: {
+      watchPath: directory,
+      stabilityThreshold: 0,
+      pollInterval: 100,
+      ignoreInitial: false,
+      volumeQuietPeriod: 0,
+    },
+    processing: {
+      maxConcurrency: 1,
+      maxRetries: 0,
+      retryDelay: 0,
+      errorDirectory: join(directory, 'errors'),
+      progressDbPath: ':memory:',
+      parquetCompression: 'ZSTD',
+      rowGroupSize: 122880,
+      maxPartBytes: 0,
+      streamParquetOutput: false,
+      outputFormat: 'parquet',
+      outputFormats: [],
+      zipPasswords: [],
+      xmlRecordElements: [],
+      csvDialects: [],
+      fileEncodings: [],
+      quarantineMalformedRows: false,
+      rejectsFormat: 'parquet',
+      maxRejectRatio: 1,
+      datasets: [],
+      schemaDriftPolicy: 'accept',
+      partitionColumns: {},
+      columnRules: [],
+    },
+    archive: {
+      sevenZipPath: '7z',
+      unrarPath: 'unrar',
+      maxNestingDepth: 3,
+      maxEntries: 10000,
+      maxTotalBytes: 10 * 1024 * 1024 * 1024,
+      maxEntryBytes: 1024 * 1024 * 1024,
+      maxCompressionRatio: 1000,
+      maxSpoolBytes: 20 * 1024 * 1024 * 1024,
+      entryConcurrency: 1,
+    },
+    logging: { level: 'error', pretty: false },
+  };
+}
+
+/**
+ * S3Uploader keeping objects in memory, recording each upload and delete in order
+ */
+class MemoryS3Uploader extends S3Uploader {
+  readonly objects = new Map<string, { body: Buffer; contentType: string }>();
+  readonly events: string[] = [];
+  /** Keys whose stored object does not match what was uploaded */
+  readonly corrupted = new Set<string>();
+
+  async uploadFile(
+    filePath: string,
+    s3Key: string,
+    _size: number,
+    _maxRetries?: number,
+    contentType: string = this.detectContentType(filePath)
+  ): Promise<S3UploadTask> {
+    return this.uploadStream(Readable.from([await readFile(filePath)]), s3Key, contentType, filePath);
+  }
+
+  async uploadStream(
+    stream: Readable,
+    s3Key: string,
+    contentType: string,
+    sourceId: string = 'stream'
+  ): Promise<S3UploadTask> {
+    const body = await streamToBuffer(stream);
+    const task = createS3UploadTask(s3Key, sourceId, s3Key, 'test-bucket', contentType, body.length);
+    task.etag = `"${s3Key}"`;
+
+    this.objects.set(s3Key, { body, contentType });
+    this.events.push(`upload ${s3Key}`);
+    return task;
+  }
+
+  async verifyUpload(s3Key: string, expectedETag: string | null): Promise<boolean> {
+    return this.objects.has(s3Key) && !this.corrupted.has(s3Key) &&
+      (expectedETag === null || expectedETag === `"${s3Key}"`);
+  }
+
+  async deleteObject(s3Key: string): Promise<void> {
+    this.objects.delete(s3Key);
+    this.events.push(`delete ${s3Key}`);
+  }
+}
+
+// data/users.csv (`id,name\n1,Alice\n2,Bob\n`) and data/readme.txt, stored by the zip CLI
+const ZIP_FIXTURE =
+  'UEsDBAoAAAAAAAAAU10DO9RcFgAAABYAAAAOAAAAZGF0YS91c2Vycy5jc3ZpZCxuYW1lCjEsQWxpY2UKMixCb2IKUEsDBAoAAAAAAAAAU12GphA2' +
+  'BQAAAAUAAAAPAAAAZGF0YS9yZWFkbWUudHh0aGVsbG9QSwECHgMKAAAAAAAAAFNdAzvUXBYAAAAWAAAADgAAAAAAAAAAAAAApIEAAAAAZGF0YS91' +
+  'c2Vycy5jc3ZQSwECHgMKAAAAAAAAAFNdhqYQNgUAAAAFAAAADwAAAAAAAAAAAAAApIFCAAAAZGF0YS9yZWFkbWUudHh0UEsFBgAAAAACAAIAeQAA' +
+  'AHQAAAAAAA==';
+
+/**
+ * Build an in-memory TAR archive from a path → content map
+ */
+async function createTarBuffer(files: Record<string, string>): Promise<Buffer> {
+  const pack = tar.pack();
+
+  for (const [name, content] of Object.entries(files)) {
+    pack.entry({ name }, content);
+  }
+  pack.finalize();
+
+  return streamToBuffer(pack);
+}
+
+describe('FileProcessor', () => {
+  let directory: string;
+  let config: AppConfig;
+  let s3Uploader: MemoryS3Uploader;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'file-processor-test-'));
+    config = createConfig(directory);
+    s3Uploader = new MemoryS3Uploader(config.s3);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Write a file into the watch directory and describe it like FileMonitor does
+   */
+  function createFile(relativePath: string, content: string | Buffer, type: FileType): FileMetadata {
+    const path = join(directory, relativePath);
+    writeFileSync(path, content);
+    const extension = relativePath.slice(relativePath.lastIndexOf('.'));
+    return createFileMetadata(path, relativePath, Buffer.byteLength(content), type, extension, new Date());
+  }
+
+  describe('split outputs', () => {
+    /**
+     * Converter handing off parts like a split conversion, failing after the given number
+     */
+    function createSplittingConverter(partCount: number, failAfter?: number): ParquetConverter {
+      const converter = {
+        async convertToParquetStream(
+          _inputPath: string,
+          _fileType: string,
+          _relativePath: string,
+          onPart: (part: ParquetPart) => Promise<void>
+        ) {
+          for (let index = 0; index < partCount; index++) {
+            if (index === failAfter) {
+              throw new Error('Conversion Error: Could not convert string "n/a" to INT64');
+            }
+            const tempFilePath = join(directory, `part-${index}.parquet`);
+            writeFileSync(tempFilePath, `PAR1part ${index}PAR1`);
+            await onPart({ index, name: `part-${String(index).padStart(5, '0')}.parquet`, tempFilePath });
+          }
+
+          return { partCount, streamed: false, format: 'parquet', parquetFileName: 'events.parquet', encoding: 'utf-8' };
+        },
+        async readParquetSchema(): Promise<SchemaColumn[]> {
+          return [{ name: 'id', type: 'BIGINT' }];
+        },
+        async cleanupTempFile(): Promise<void> {},
+      };
+
+      return converter as unknown as ParquetConverter;
+    }
+
+    it('should record every uploaded part', async () => {
+      const tracker = new ProgressTracker(':memory:');
+      const processor = new FileProcessor(config, s3Uploader, tracker, createSplittingConverter(2));
+      const file = createFile('events.csv', 'id\n1\n2\n', FileType.DATABASE);
+
+      try {
+        await processor.processFile(file);
+
+        expect(tracker.checkIsProcessed(file.path)).toMatchObject({
+          status: ProcessingStatus.COMPLETED,
+          s3Key: 'events/',
+          s3Keys: ['events/part-00000.parquet', 'events/part-00001.parquet'],
+        });
+      } finally {
+        tracker.close();
+      }
+    });
+
+    it('should delete the parts already uploaded when the conversion fails', async () => {
+      const tracker = new ProgressTracker(':memory:');
+      const processor = new FileProcessor(config, s3Uploader, tracker, createSplittingConverter(3, 2));
+      const file = createFile('events.csv', 'id\n1\nn/a\n', FileType.DATABASE);
+
+      try {
+        await processor.processFile(file);
+
+        expect(s3Uploader.events).toEqual([
+          'upload events/part-00000.parquet',
+          'upload events/part-00001.parquet',
+          'delete events/part-00000.parquet',
+          'delete events/part-00001.parquet',
+        ]);
+        expect(s3Uploader.objects.size).toBe(0);
+        expect(tracker.checkIsProcessed(file.path)?.status).toBe(ProcessingStatus.FAILED);
+        expect(existsSync(file.path)).toBe(false);
+        expect(readdirSync(config.processing.errorDirectory)).toHaveLength(1);
+      } finally {
+        tracker.close();
+      }
+    });
+
+    describe('archive resume', () => {
+      const parts = ['export/events/part-00000.parquet', 'export/events/part-00001.parquet'];
+
+      /**
+       * Record the split events.csv entry of export.tar as uploaded by an earlier attempt
+       */
+      async function createResumableArchive(tracker: ProgressTracker): Promise<FileMetadata> {
+        const file = createFile('export.tar', await createTarBuffer({ 'events.csv': 'id\n1\n2\n' }), FileType.ARCHIVE);
+        tracker.recordEntryStart(file.path, await calculateFileChecksum(file.path), 'events.csv');
+        tracker.markEntryComplete(file.path, 'events.csv', 'export/events/', null, 'abc', 8, parts);
+        return file;
+      }
+
+      it('should skip a split entry whose parts are all still in S3', async () => {
+        const tracker = new ProgressTracker(':memory:');
+        const processor = new FileProcessor(
+          config, s3Uploader, tracker, createSplittingConverter(2), new ArchiveExtractor(config.archive)
+        );
+
+        try {
+          const file = await createResumableArchive(tracker);
+          for (const key of parts) {
+            await s3Uploader.uploadStream(Readable.from(['PAR1rowsPAR1']), key, 'application/vnd.apache.parquet');
+          }
+          s3Uploader.events.length = 0;
+
+          await processor.processFile(file);
+
+          expect(s3Uploader.events).toEqual([`upload export/${MANIFEST_FILE_NAME}`]);
+          expect(tracker.checkIsProcessed(file.path)).toMatchObject({
+            status: ProcessingStatus.COMPLETED,
+            s3Keys: [...parts, `export/${MANIFEST_FILE_NAME}`],
+          });
+        } finally {
+          tracker.close();
+        }
+      });
+
+      it('should convert a split entry again when one of its parts is missing', async () => {
+        const tracker = new ProgressTracker(':memory:');
+        const processor = new FileProcessor(
+          config, s3Uploader, tracker, createSplittingConverter(2), new ArchiveExtractor(config.archive)
+        );
+
+        try {
+          const file = await createResumableArchive(tracker);
+          await s3Uploader.uploadStream(Readable.from(['PAR1rowsPAR1']), parts[0], 'application/vnd.apache.parquet');
+          s3Uploader.events.length = 0;
+
+          await processor.processFile(file);
+
+          expect(s3Uploader.events).toEqual([...parts.map((key) => `upload ${key}`), `upload export/${MANIFEST_FILE_NAME}`]);
+          expect(tracker.getCompletedEntries(file.path, file.checksum!).get('events.csv')?.s3Keys).toEqual(parts);
+        } finally {
+          tracker.close();
+        }
+      });
+    });
+  });
+
+  describe('rejects', () => {
+    /**
+     * Converter quarantining one row, writing a single output or the given number of parts
+     */
+    function createRejectingConverter(rejectsFormat: RejectsFormat, partCount = 0): ParquetConverter {
+      const converter = {
+        async convertToParquetStream(
+          _inputPath: string,
+          _fileType: string,
+          _relativePath: string,
+          onPart: (part: ParquetPart) => Promise<void>
+        ) {
+          const rejectsPath = join(directory, `rejects.${rejectsFormat}`);
+          writeFileSync(rejectsPath, '{"line":3,"raw_line":"2,n/a"}\n');
+          const rejects = { tempFilePath: rejectsPath, format: rejectsFormat, rowCount: 1 };
+
+          for (let index = 0; index < partCount; index++) {
+            const tempFilePath = join(directory, `part-${index}.parquet`);
+            writeFileSync(tempFilePath, `PAR1part ${index}PAR1`);
+            await onPart({ index, name: `part-${String(index).padStart(5, '0')}.parquet`, tempFilePath });
+          }
+          if (partCount > 0) {
+            return { partCount, streamed: false, format: 'parquet', parquetFileName: 'events.parquet', encoding: 'utf-8', rejects };
+          }
+
+          const tempFilePath = join(directory, 'output.parquet');
+          writeFileSync(tempFilePath, 'PAR1rowsPAR1');
+          return {
+            stream: createReadStream(tempFilePath),
+            tempFilePath,
+            partCount: 0,
+            streamed: false,
+            format: 'parquet',
+            parquetFileName: 'users.parquet',
+            encoding: 'utf-8',
+            rejects,
+          };
+        },
+        async readParquetSchema(): Promise<SchemaColumn[]> {
+          return [{ name: 'id', type: 'BIGINT' }];
+        },
+        async cleanupTempFile(): Promise<void> {},
+      };
+
+      return converter as unknown as ParquetConverter;
+    }
+
+    it('should upload the rejects next to the output', async () => {
+      const tracker = new ProgressTracker(':memory:');
+      const processor = new FileProcessor(config, s3Uploader, tracker, createRejectingConverter('parquet'));
+      const file = createFile('users.csv', 'id,amount\n1,3\n2,n/a\n', FileType.DATABASE);
+
+      try {
+        await processor.processFile(file);
+
+        expect(s3Uploader.events).toEqual(['upload users.parquet', 'upload users.rejects.parquet']);
+        expect(s3Uploader.objects.get('users.rejects.parquet')?.contentType).toBe('application/vnd.apache.parquet');
+        expect(tracker.checkIsProcessed(file.path)).toMatchObject({
+          status: ProcessingStatus.COMPLETED,
+          s3Key: 'users.parquet',
+          s3Keys: ['users.parquet', 'users.rejects.parquet'],
+        });
+      } finally {
+        tracker.close();
+      }
+    });
+
+    it('should name JSON Lines rejects after their format', async () => {
+      const tracker = new ProgressTracker(':memory:');
+      const processor = new FileProcessor(config, s3Uploader, tracker, createRejectingConverter('jsonl'));
+      const file = createFile('users.csv', 'id,amount\n1,3\n2,n/a\n', FileType.DATABASE);
+
+      try {
+        await processor.processFile(file);
+
+        expect(s3Uploader.objects.get('users.rejects.jsonl')).toEqual({
+          body: Buffer.from('{"line":3,"raw_line":"2,n/a"}\n'),
+          contentType: 'application/x-ndjson',
+        });
+      } finally {
+        tracker.close();
+      }
+    });
+
+    it('should upload the rejects of a split output next to its parts prefix', async () => {
+      const tracker = new ProgressTracker(':memory:');
+      const processor = new FileProcessor(config, s3Uploader, tracker, createRejectingConverter('parquet', 2));
+      const file = createFile('events.csv', 'id\n1\nn/a\n', FileType.DATABASE);
+
+      try {
+        await processor.processFile(file);
+
+        expect(tracker.checkIsProcessed(file.path)).toMatchObject({
+          status: ProcessingStatus.COMPLETED,
+          s3Key: 'events/',
+          s3Keys: ['events/part-00000.parquet', 'events/part-00001.parquet', 'events.rejects.parquet'],
+        });
+      } finally {
+        tracker.close();
+      }
+    });
+  });
+
+  describe('SQL dumps', () => {
+    it('should delete the tables already uploaded when a later table fails', async () => {
+      const converter = {
+        async *convertSqlDumpToParquet() {
+          const tempFilePath = join(directory, 'users.parquet');
+          writeFileSync(tempFilePath, 'PAR1usersPAR1');
+          yield { table: 'users', tempFilePath, rowCount: 2, format: 'parquet' };
+          throw new Error('Conversion Error: Could not convert string "n/a" to INT32');
+        },
+        async readParquetSchema(): Promise<SchemaColumn[]> {
+          return [{ name: 'id', type: 'INTEGER' }];
+        },
+        async cleanupTempFile(): Promise<void> {},
+      };
+      const tracker = new ProgressTracker(':memory:');
+      const processor = new FileProcessor(config, s3Uploader, tracker, converter as unknown as ParquetConverter);
+      const file = createFile('shop.sql', 'CREATE TABLE users (id INT);', FileType.DATABASE);
+
+      try {
+        await processor.processFile(file);
+
+        expect(s3Uploader.events).toEqual(['upload shop/users.parquet', 'delete shop/users.parquet']);
+        expect(s3Uploader.objects.size).toBe(0);
+        expect(tracker.checkIsProcessed(file.path)?.status).toBe(ProcessingStatus.FAILED);
+      } finally {
+        tracker.close();
+      }
+    });
+  });
+
+  describe('archives', () => {
+    /**
+     * Converter turning a CSV into a single Parquet file whose content is the CSV it read
+     */
+    function createConverter(): ParquetConverter {
+      const converter = {
+        async convertToParquetStream(inputPath: string) {
+          const tempFilePath = join(directory, `${basename(inputPath)}.parquet`);
+          writeFileSync(tempFilePath, `PAR1${readFileSync(inputPath, 'utf8')}PAR1`);
+
+          return {
+            stream: createReadStream(tempFilePath),
+            tempFilePath,
+            partCount: 0,
+            streamed: false,
+            format: 'parquet',
+            parquetFileName: 'users.parquet',
+            encoding: 'utf-8',
+          };
+        },
+        async readParquetSchema(): Promise<SchemaColumn[]> {
+          return [{ name: 'id', type: 'BIGINT' }, { name: 'name', type: 'VARCHAR' }];
+        },
+        async cleanupTempFile(path: string): Promise<void> {
+          rmSync(path, { force: true });
+        },
+      };
+
+      return converter as unknown as ParquetConverter;
+    }
+
+    it('should convert a CSV entry of a ZIP archive under the archive\'s prefix', async () => {
+      const tracker = new ProgressTracker(':memory:');
+      const processor = new FileProcessor(
+        config, s3Uploader, tracker, createConverter(), new ArchiveExtractor(config.archive)
+      );
+      const file = createFile('export.zip', Buffer.from(ZIP_FIXTURE, 'base64'), FileType.ARCHIVE);
+
+      try {
+        await processor.processFile(file);
+
+        expect(s3Uploader.objects.get('export/data/users.parquet')).toEqual({
+          body: Buffer.from('PAR1id,name\n1,Alice\n2,Bob\nPAR1'),
+          contentType: 'application/vnd.apache.parquet',
+        });
+        expect(s3Uploader.objects.get('export/data/readme.txt')?.body.toString()).toBe('hello');
+        expect(s3Uploader.objects.has('export/data/users.csv')).toBe(false);
+        expect(tracker.checkIsProcessed(file.path)).toMatchObject({
+          status: ProcessingStatus.COMPLETED,
+          s3Keys: expect.arrayContaining(['export/data/users.parquet', 'export/data/readme.txt']),
+        });
+        expect(tracker.getCompletedEntries(file.path, file.checksum!).get('data/users.csv')).toMatchObject({
+          s3Key: 'export/data/users.parquet',
+          s3Keys: ['export/data/users.parquet'],
+          etag: '"export/data/users.parquet"',
+        });
+      } finally {
+        tracker.close();
+      }
+    });
+
+    it.each(['export/data/users.parquet', 'export/data/readme.txt'])(
+      'should not record an entry whose upload of %s fails verification',
+      async (s3Key) => {
+        const tracker = new ProgressTracker(':memory:');
+        const processor = new FileProcessor(
+          config, s3Uploader, tracker, createConverter(), new ArchiveExtractor(config.archive)
+        );
+        const file = createFile('export.zip', Buffer.from(ZIP_FIXTURE, 'base64'), FileType.ARCHIVE);
+        s3Uploader.corrupted.add(s3Key);
+
+        try {
+          await processor.processFile(file);
+
+          expect(tracker.checkIsProcessed(file.path)?.status).toBe(ProcessingStatus.FAILED);
+          const completed = tracker.getCompletedEntries(file.path, file.checksum!);
+          expect([...completed.values()].map((entry) => entry.s3Key)).not.toContain(s3Key);
+        } finally {
+          tracker.close();
+        }
+      }
+    );
+
+    it('should upload at most ARCHIVE_ENTRY_CONCURRENCY entries at once, whatever MAX_CONCURRENCY is', async () => {
+      config.processing.maxConcurrency = 8;
+      config.archive.entryConcurrency = 1;
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const uploadStream = s3Uploader.uploadStream.bind(s3Uploader);
+      s3Uploader.uploadStream = async (...args) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        try {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          return await uploadStream(...args);
+        } finally {
+          inFlight--;
+        }
+      };
+      const tracker = new ProgressTracker(':memory:');
+      const processor = new FileProcessor(
+        config, s3Uploader, tracker, createConverter(), new ArchiveExtractor(config.archive)
+      );
+      const file = createFile('export.zip', Buffer.from(ZIP_FIXTURE, 'base64'), FileType.ARCHIVE);
+
+      try {
+        await processor.processFile(file);
+
+        expect(tracker.checkIsProcessed(file.path)?.status).toBe(ProcessingStatus.COMPLETED);
+        expect(maxInFlight).toBe(1);
+      } finally {
+        tracker.close();
+      }
+    });
+
+    it('should reject an entry too large to spool within MAX_SPOOL_BYTES', async () => {
+      config.archive.maxSpoolBytes = 10;
+      const tracker = new ProgressTracker(':memory:');
+      const processor = new FileProcessor(
+        config, s3Uploader, tracker, createConverter(), new ArchiveExtractor(config.archive)
+      );
+      const file = createFile('export.zip', Buffer.from(ZIP_FIXTURE, 'base64'), FileType.ARCHIVE);
+
+      try {
+        await processor.processFile(file);
+
+        expect(tracker.checkIsProcessed(file.path)?.status).toBe(ProcessingStatus.FAILED);
+        expect(s3Uploader.objects.has('export/data/users.parquet')).toBe(false);
+      } finally {
+        tracker.close();
+      }
+    });
+
+    it('should upload the manifest of every entry once the entries are uploaded', async () => {
+      const tracker = new ProgressTracker(':memory:');
+      const processor = new FileProcessor(
+        config, s3Uploader, tracker, createConverter(), new ArchiveExtractor(config.archive)
+      );
+      const archive = Buffer.from(ZIP_FIXTURE, 'base64');
+      const file = createFile('export.zip', archive, FileType.ARCHIVE);
+      const sha256 = (content: string | Buffer) => createHash('sha256').update(content).digest('hex');
+
+      try {
+        await processor.processFile(file);
+
+        expect(s3Uploader.events).toEqual([
+          'upload export/data/users.parquet',
+          'upload export/data/readme.txt',
+          `upload export/${MANIFEST_FILE_NAME}`,
+        ]);
+
+        const manifest = s3Uploader.objects.get(`export/${MANIFEST_FILE_NAME}`)!;
+        expect(manifest.contentType).toBe('application/json');
+        expect(JSON.parse(manifest.body.toString())).toEqual({
+          archive: 'export.zip',
+          archiveChecksum: sha256(archive),
+          archiveSize: archive.length,
+          complete: true,
+          entryCount: 2,
+          entries: [
+            {
+              path: 'data/users.csv',
+              size: 22,
+              checksum: sha256('id,name\n1,Alice\n2,Bob\n'),
+              modifiedAt: expect.any(String),
+              s3Key: 'export/data/users.parquet',
+              status: 'converted',
+            },
+            {
+              path: 'data/readme.txt',
+              size: 5,
+              checksum: sha256('hello'),
+              modifiedAt: expect.any(String),
+              s3Key: 'export/data/readme.txt',
+              status: 'uploaded',
+            },
+          ],
+          createdAt: expect.any(String),
+        });
+        expect(tracker.checkIsProcessed(file.path)?.s3Keys).toContain(`export/${MANIFEST_FILE_NAME}`);
+      } finally {
+        tracker.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from '@jest/globals';
+import { gzipSync } from 'zlib';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { FileFormat } from '../../src/types/index.js';
+import { detectFormat, hasParquetFooter, resolveContentType } from '../../src/lib/magic.js';
+
+describe('Magic number detection', () => {
+  describe('detectFormat', () => {
+    it.each([
+      ['ZIP', Buffer.from('PK\x03\x04\x14\x00', 'latin1'), FileFormat.ZIP],
+      ['gzip', gzipSync('id,name\n'), FileFormat.GZIP],
+      ['bzip2', Buffer.from('BZh91AY&SY', 'latin1'), FileFormat.BZIP2],
+      ['xz', Buffer.from([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00, 0x00, 0x04]), FileFormat.XZ],
+      ['zstd', Buffer.from([0x28, 0xb5, 0x2f, 0xfd, 0x04, 0x00]), FileFormat.ZSTD],
+      ['LZ4', Buffer.from([0x04, 0x22, 0x4d, 0x18, 0x64, 0x40]), FileFormat.LZ4],
+      ['7z', Buffer.from([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c, 0x00, 0x04]), FileFormat.SEVEN_ZIP],
+      ['RAR', Buffer.from('Rar!\x1a\x07\x01\x00', 'latin1'), FileFormat.RAR],
+      ['Parquet', Buffer.from('PAR1\x15\x04', 'latin1'), FileFormat.PARQUET],
+      ['SQLite', Buffer.from('SQLite format 3\0\x10\x00', 'latin1'), FileFormat.SQLITE],
+    ])('should detect %s signatures', (_name, header, expected) => {
+      expect(detectFormat(header)).toBe(expected);
+    });
+
+    it('should detect ustar TAR headers at offset 257', () => {
+      const header = Buffer.alloc(512);
+      header.write('data/users.csv', 0, 'latin1');
+      header.write('ustar\x0000', 257, 'latin1');
+
+      expect(detectFormat(header)).toBe(FileFormat.TAR);
+    });
+
+    it('should detect pre-POSIX TAR headers by their checksum', () => {
+      const header = Buffer.alloc(512);
+      header.write('users.csv', 0, 'latin1');
+      header.write('0000644\0', 100, 'latin1');
+      header.fill(0x20, 148, 156);
+      const checksum = header.reduce((sum, byte) => sum + byte, 0);
+      header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'latin1');
+
+      expect(detectFormat(header)).toBe(FileFormat.TAR);
+
+      header[0] = 'x'.charCodeAt(0);
+      expect(detectFormat(header)).toBeNull();
+    });
+
+    it('should detect UTF-16 text with and without a byte order mark', () => {
+      const text = 'id,name\n1,Alice\n';
+
+      expect(detectFormat(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')]))).toBe(FileFormat.UTF16LE);
+      expect(detectFormat(Buffer.from(text, 'utf16le'))).toBe(FileFormat.UTF16LE);
+      expect(detectFormat(Buffer.from(text, 'utf16le').swap16())).toBe(FileFormat.UTF16BE);
+    });
+
+    it('should detect UTF-8 text, including a truncated multi-byte character', () => {
+      expect(detectFormat(Buffer.from('id,name\n1,Zoë\n'))).toBe(FileFormat.UTF8);
+      expect(detectFormat(Buffer.from('name\nZoë').subarray(0, -1))).toBe(FileFormat.UTF8);
+    });
+
+    it('should return null for unknown binary data and empty input', () => {
+      expect(detectFormat(Buffer.from([0x00, 0x01, 0x02, 0x03, 0xff, 0x10]))).toBeNull();
+      expect(detectFormat(Buffer.from('café au lait', 'latin1'))).toBeNull();
+      expect(detectFormat(Buffer.alloc(0))).toBeNull();
+    });
+  });
+
+  describe('resolveContentType', () => {
+    it('should prefer the detected format over the extension', () => {
+      expect(resolveContentType('export.dat', FileFormat.ZIP, 'application/octet-stream')).toBe('application/zip');
+      expect(resolveContentType('users.csv', FileFormat.GZIP, 'text/csv')).toBe('application/gzip');
+    });
+
+    it('should fall back to the extension for text and ZIP-based documents', () => {
+      expect(resolveContentType('users.csv', FileFormat.UTF8, 'text/csv')).toBe('text/csv');
+      expect(resolveContentType('notes.dat', FileFormat.UTF8, 'application/octet-stream')).toBe('text/plain');
+      expect(resolveContentType('report.docx', FileFormat.ZIP, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'))
+        .toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    });
+  });
+
+  describe('hasParquetFooter', () => {
+    it('should tell finished Parquet files from ones still being written', async () => {
+      const directory = mkdtempSync(join(tmpdir(), 'magic-test-'));
+
+      try {
+        const finished = join(directory, 'part-0.parquet');
+        const writing = join(directory, 'part-1.parquet');
+        const pages = Buffer.concat([Buffer.from('PAR1\x15\x04', 'latin1'), Buffer.alloc(8)]);
+        writeFileSync(finished, Buffer.concat([pages, Buffer.from('\x08\x00\x00\x00PAR1', 'latin1')]));
+        writeFileSync(writing, pages);
+
+        await expect(hasParquetFooter(finished)).resolves.toBe(true);
+        await expect(hasParquetFooter(writing)).resolves.toBe(false);
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { detectOutputFormat, isOutputFormat, resolveOutputFormat } from '../../src/lib/outputFormat.js';
+
+describe('Output formats', () => {
+  describe('resolveOutputFormat', () => {
+    const rules = [
+      { pattern: 'legacy/**', format: 'csv.gz' as const },
+      { pattern: '*.jsonl', format: 'ndjson' as const },
+    ];
+
+    it('should use the first matching rule', () => {
+      expect(resolveOutputFormat('legacy/2026/orders.csv', rules, 'parquet')).toBe('csv.gz');
+      expect(resolveOutputFormat('events/clicks.jsonl', rules, 'parquet')).toBe('ndjson');
+    });
+
+    it('should fall back to the default format', () => {
+      expect(resolveOutputFormat('exports/users.csv', rules, 'parquet')).toBe('parquet');
+      expect(resolveOutputFormat('exports/users.csv', [], 'arrow')).toBe('arrow');
+    });
+  });
+
+  describe('detectOutputFormat', () => {
+    it.each([
+      ['data/users.parquet', 'parquet'],
+      ['data/users.arrows', 'arrow'],
+      ['data/users.CSV.GZ', 'csv.gz'],
+      ['data/users.ndjson', 'ndjson'],
+    ])('should detect %s', (s3Key, expected) => {
+      expect(detectOutputFormat(s3Key)).toBe(expected);
+    });
+
+    it('should not treat other files as outputs', () => {
+      expect(detectOutputFormat('data/users.csv')).toBeNull();
+      expect(detectOutputFormat('data/archive.tar.gz')).toBeNull();
+    });
+  });
+
+  it('should only accept known format names', () => {
+    expect(isOutputFormat('csv.gz')).toBe(true);
+    expect(isOutputFormat('feather')).toBe(false);
+    expect(isOutputFormat('toString')).toBe(false);
+  });
+});
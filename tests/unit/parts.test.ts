@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { appendFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { handOffParts, handOffPartitions, type ParquetPart } from '../../src/lib/parts.js';
+
+const POLL_INTERVAL = 10;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Parquet parts', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'parts-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Start a part the way DuckDB does: leading magic and rows, footer still to come
+   */
+  function startPart(index: number): void {
+    writeFileSync(join(directory, `part-${index}.parquet`), `PAR1rows of part ${index}`);
+  }
+
+  /**
+   * Finish a part by writing its footer
+   */
+  function finishPart(index: number): void {
+    appendFileSync(join(directory, `part-${index}.parquet`), 'footerPAR1');
+  }
+
+  describe('handOffParts', () => {
+    it('should hand off finished parts while the conversion runs and the last part once it ends', async () => {
+      let converting = true;
+      const conversion = (async () => {
+        startPart(0);
+        await sleep(5 * POLL_INTERVAL);
+        finishPart(0);
+        startPart(1);
+        await sleep(5 * POLL_INTERVAL);
+        finishPart(1);
+        startPart(2);
+        await sleep(5 * POLL_INTERVAL);
+        finishPart(2);
+        converting = false;
+      })();
+      const handedOff: { part: ParquetPart; content: string; converting: boolean }[] = [];
+
+      const count = await handOffParts(conversion, directory, async (part) => {
+        handedOff.push({ part, content: readFileSync(part.tempFilePath, 'utf8'), converting });
+      }, POLL_INTERVAL);
+
+      expect(count).toBe(3);
+      expect(handedOff.map(({ part }) => part.name)).toEqual([
+        'part-00000.parquet',
+        'part-00001.parquet',
+        'part-00002.parquet',
+      ]);
+      // Polled parts are only handed off once their footer is written
+      expect(handedOff.every(({ content }) => content.endsWith('PAR1'))).toBe(true);
+      expect(handedOff.map(({ converting }) => converting)).toEqual([true, true, false]);
+      expect(handedOff.some(({ part }) => existsSync(part.tempFilePath))).toBe(false);
+    });
+
+    it('should leave a single part in the directory', async () => {
+      const conversion = (async () => {
+        startPart(0);
+        finishPart(0);
+      })();
+      let handedOff = 0;
+
+      const count = await handOffParts(conversion, directory, async () => {
+        handedOff++;
+      }, POLL_INTERVAL);
+
+      expect(count).toBe(0);
+      expect(handedOff).toBe(0);
+      expect(existsSync(join(directory, 'part-0.parquet'))).toBe(true);
+    });
+
+    it('should wait for the conversion to stop before failing with the callback\'s error', async () => {
+      let converting = true;
+      const conversion = (async () => {
+        startPart(0);
+        finishPart(0);
+        startPart(1);
+        await sleep(5 * POLL_INTERVAL);
+        converting = false;
+        throw new Error('Conversion Error: aborted');
+      })();
+
+      await expect(handOffParts(conversion, directory, async () => {
+        throw new Error('Upload failed: SlowDown');
+      }, POLL_INTERVAL)).rejects.toThrow('Upload failed: SlowDown');
+      expect(converting).toBe(false);
+    });
+
+    it('should fail with the conversion\'s error', async () => {
+      const conversion = (async () => {
+        startPart(0);
+        finishPart(0);
+        startPart(1);
+        throw new Error('Conversion Error: could not convert');
+      })();
+
+      await expect(handOffParts(conversion, directory, async () => undefined, POLL_INTERVAL))
+        .rejects.toThrow('Conversion Error: could not convert');
+    });
+  });
+
+  describe('handOffPartitions', () => {
+    it('should hand off partition files in path order and delete them', async () => {
+      for (const path of ['year=2026/month=10', 'year=2025/month=12', 'year=2026/month=09']) {
+        mkdirSync(join(directory, path), { recursive: true });
+        writeFileSync(join(directory, path, 'part-0.parquet'), 'PAR1rowsPAR1');
+      }
+      const names: string[] = [];
+
+      const count = await handOffPartitions(directory, async (part) => {
+        names.push(`${part.index}:${part.name}`);
+      });
+
+      expect(count).toBe(3);
+      expect(names).toEqual([
+        '0:year=2025/month=12/part-0.parquet',
+        '1:year=2026/month=09/part-0.parquet',
+        '2:year=2026/month=10/part-0.parquet',
+      ]);
+      expect(existsSync(join(directory, 'year=2026/month=10/part-0.parquet'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { ArchiveErrorCode } from '../../src/types/index.js';
+import { normalizeEntryPath, matchesGlob, getDecompressedPath } from '../../src/lib/paths.js';
+
+describe('Path utilities', () => {
+  describe('normalizeEntryPath', () => {
+    it('should normalize separators, dot segments and trailing slashes', () => {
+      expect(normalizeEntryPath('data/users.csv')).toBe('data/users.csv');
+      expect(normalizeEntryPath('./data//users.csv')).toBe('data/users.csv');
+      expect(normalizeEntryPath('data\\exports\\users.csv')).toBe('data/exports/users.csv');
+      expect(normalizeEntryPath('data/exports/')).toBe('data/exports');
+    });
+
+    it.each([
+      ['../../other-prefix/x', 'parent directory'],
+      ['data/../../x', 'parent directory'],
+      ['..\\x', 'parent directory'],
+      ['/etc/passwd', 'absolute'],
+      ['C:\\Windows\\system.ini', 'absolute'],
+      ['./', 'empty'],
+      ['data/\0.csv', 'NUL byte'],
+    ])('should reject %j', (entryPath, reason) => {
+      expect(() => normalizeEntryPath(entryPath)).toThrow(reason);
+
+      try {
+        normalizeEntryPath(entryPath);
+      } catch (error) {
+        expect(error).toMatchObject({ code: ArchiveErrorCode.UNSAFE_PATH });
+      }
+    });
+  });
+
+  describe('matchesGlob', () => {
+    it.each([
+      ['orders/2024.xml', 'orders/*.xml'],
+      ['orders\\2024.xml', 'orders/*.xml'],
+      ['exports/a/b/feed.xml', 'exports/**/*.xml'],
+      ['exports/feed.xml', 'exports/**/*.xml'],
+      ['deep/dir/feed.xml', 'feed.xml'],
+      ['deep/dir/feed-1.xml', 'feed-?.xml'],
+    ])('should match %s against %s', (filePath, pattern) => {
+      expect(matchesGlob(filePath, pattern)).toBe(true);
+    });
+
+    it.each([
+      ['orders/2024/q1.xml', 'orders/*.xml'],
+      ['other/orders/2024.xml', 'orders/*.xml'],
+      ['feed.xml.bak', '*.xml'],
+      ['feedXxml', 'feed.xml'],
+    ])('should not match %s against %s', (filePath, pattern) => {
+      expect(matchesGlob(filePath, pattern)).toBe(false);
+    });
+  });
+
+  describe('getDecompressedPath', () => {
+    it('should strip compression extensions', () => {
+      expect(getDecompressedPath('users.csv.gz')).toBe('users.csv');
+      expect(getDecompressedPath('exports/report.pdf.bz2')).toBe('exports/report.pdf');
+      expect(getDecompressedPath('events.JSONL.XZ')).toBe('events.JSONL');
+      expect(getDecompressedPath('users.csv.zst')).toBe('users.csv');
+      expect(getDecompressedPath('users.csv.lz4')).toBe('users.csv');
+    });
+
+    it('should map short compressed TAR extensions to .tar', () => {
+      expect(getDecompressedPath('backup.tgz')).toBe('backup.tar');
+      expect(getDecompressedPath('backup.tbz2')).toBe('backup.tar');
+      expect(getDecompressedPath('backup.txz')).toBe('backup.tar');
+      expect(getDecompressedPath('backup.tzst')).toBe('backup.tar');
+    });
+
+    it('should leave other paths unchanged', () => {
+      expect(getDecompressedPath('users.csv')).toBe('users.csv');
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { ProcessingStatus } from '../../src/types/index.js';
+import { ProgressTracker } from '../../src/services/ProgressTracker.js';
+
+describe('ProgressTracker', () => {
+  let tracker: ProgressTracker;
+
+  beforeEach(() => {
+    tracker = new ProgressTracker(':memory:');
+  });
+
+  afterEach(() => {
+    tracker.close();
+  });
+
+  describe('archive entries', () => {
+    const archivePath = '/data/export.tar.gz';
+
+    it('should return completed entries of the same archive version', () => {
+      tracker.recordEntryStart(archivePath, 'sha-1', 'data/users.csv');
+      tracker.markEntryComplete(archivePath, 'data/users.csv', 'export.tar/data/users.csv', '"etag"', 'abc', 42);
+      tracker.recordEntryStart(archivePath, 'sha-1', 'data/orders.csv');
+
+      const completed = tracker.getCompletedEntries(archivePath, 'sha-1');
+
+      expect([...completed.keys()]).toEqual(['data/users.csv']);
+      expect(completed.get('data/users.csv')).toMatchObject({
+        status: ProcessingStatus.COMPLETED,
+        s3Key: 'export.tar/data/users.csv',
+        etag: '"etag"',
+        checksum: 'abc',
+        sizeBytes: 42,
+        s3Keys: ['export.tar/data/users.csv'],
+      });
+    });
+
+    it('should keep every object of an entry uploaded under a prefix', () => {
+      const parts = ['export.tar/data/events/part-00000.parquet', 'export.tar/data/events/part-00001.parquet'];
+      tracker.recordEntryStart(archivePath, 'sha-1', 'data/events.csv');
+      tracker.markEntryComplete(archivePath, 'data/events.csv', 'export.tar/data/events/', null, 'abc', 42, parts);
+
+      expect(tracker.getCompletedEntries(archivePath, 'sha-1').get('data/events.csv')).toMatchObject({
+        s3Key: 'export.tar/data/events/',
+        s3Keys: parts,
+      });
+    });
+
+    it('should ignore entries recorded for a different archive checksum', () => {
+      tracker.recordEntryStart(archivePath, 'sha-1', 'data/users.csv');
+      tracker.markEntryComplete(archivePath, 'data/users.csv', 'export.tar/data/users.csv', null, 'abc', 42);
+
+      expect(tracker.getCompletedEntries(archivePath, 'sha-2').size).toBe(0);
+    });
+
+    it('should reset a completed entry when it is uploaded again', () => {
+      tracker.recordEntryStart(archivePath, 'sha-1', 'data/users.csv');
+      tracker.markEntryComplete(archivePath, 'data/users.csv', 'export.tar/data/users.csv', null, 'abc', 42);
+      tracker.recordEntryStart(archivePath, 'sha-1', 'data/users.csv');
+
+      expect(tracker.getCompletedEntries(archivePath, 'sha-1').size).toBe(0);
+    });
+
+    it('should keep entries when the archive record is deleted for retry', () => {
+      tracker.recordStart(archivePath, 100, 'sha-1');
+      tracker.recordEntryStart(archivePath, 'sha-1', 'data/users.csv');
+      tracker.markEntryComplete(archivePath, 'data/users.csv', 'export.tar/data/users.csv', null, 'abc', 42);
+
+      tracker.delete(archivePath);
+
+      expect(tracker.getCompletedEntries(archivePath, 'sha-1').size).toBe(1);
+    });
+
+    it('should drop entries when the archive was modified', () => {
+      tracker.recordStart(archivePath, 100, 'sha-1');
+      tracker.recordEntryStart(archivePath, 'sha-1', 'data/users.csv');
+      tracker.markEntryComplete(archivePath, 'data/users.csv', 'export.tar/data/users.csv', null, 'abc', 42);
+
+      expect(tracker.detectModifiedFiles(archivePath, 'sha-2')).toBe(true);
+      expect(tracker.getCompletedEntries(archivePath, 'sha-1').size).toBe(0);
+    });
+  });
+
+  describe('CSV dialect', () => {
+    it('should store the dialect a file was converted with', () => {
+      const filePath = '/data/users.csv';
+      const csvDialect = { delimiter: ';', quote: '"', escape: '\\', header: false, skipRows: 2 };
+
+      tracker.recordStart(filePath, 100, 'sha-1');
+      expect(tracker.checkIsProcessed(filePath)?.csvDialect).toBeNull();
+
+      tracker.recordCsvDialect(filePath, csvDialect);
+
+      expect(tracker.checkIsProcessed(filePath)?.csvDialect).toEqual(csvDialect);
+    });
+  });
+
+  describe('column rules', () => {
+    it('should store the column rule a file was converted with', () => {
+      const filePath = '/data/customers_2026-10.csv';
+      const columnRule = { pattern: 'customers_*.csv', cast: { phone: 'VARCHAR' }, drop: ['notes'] };
+
+      tracker.recordStart(filePath, 100, 'sha-1');
+      expect(tracker.checkIsProcessed(filePath)?.columnRule).toBeNull();
+
+      tracker.recordColumnRule(filePath, columnRule);
+
+      expect(tracker.checkIsProcessed(filePath)?.columnRule).toEqual(columnRule);
+    });
+  });
+
+  describe('S3 keys', () => {
+    it('should store every key uploaded for a file', () => {
+      const filePath = '/data/orders.csv';
+      const s3Keys = ['orders/year=2025/part-0.parquet', 'orders/year=2026/part-0.parquet'];
+
+      tracker.recordStart(filePath, 100, 'sha-1');
+      tracker.markComplete(filePath, 'orders/', 100, s3Keys);
+
+      const record = tracker.checkIsProcessed(filePath);
+      expect(record?.s3Key).toBe('orders/');
+      expect(record?.s3Keys).toEqual(s3Keys);
+    });
+
+    it('should default to the single key of the file', () => {
+      const filePath = '/data/users.csv';
+
+      tracker.recordStart(filePath, 100, 'sha-1');
+      tracker.markComplete(filePath, 'users.parquet', 100);
+
+      expect(tracker.checkIsProcessed(filePath)?.s3Keys).toEqual(['users.parquet']);
+    });
+  });
+
+  describe('schema registry', () => {
+    it('should return the latest schema of a dataset', () => {
+      tracker.recordSchema('customers', 'customers_2026-09.csv', [{ name: 'id', type: 'BIGINT' }]);
+      tracker.recordSchema('orders', 'orders_2026-10.csv', [{ name: 'total', type: 'DOUBLE' }]);
+      tracker.recordSchema('customers', 'customers_2026-10.csv', [
+        { name: 'id', type: 'BIGINT' },
+        { name: 'email', type: 'VARCHAR' },
+      ]);
+
+      expect(tracker.getLatestSchema('customers')).toMatchObject({
+        sourcePath: 'customers_2026-10.csv',
+        columns: [{ name: 'id', type: 'BIGINT' }, { name: 'email', type: 'VARCHAR' }],
+      });
+      expect(tracker.getLatestSchema('invoices')).toBeNull();
+    });
+
+    it('should list drift events by dataset', () => {
+      const changes = [{ kind: 'added' as const, column: 'email', type: 'VARCHAR' }];
+
+      tracker.recordSchemaDrift('customers', 'customers_2026-10.csv', changes, 'accept');
+      tracker.recordSchemaDrift('orders', 'orders_2026-10.csv', [], 'fail');
+
+      expect(tracker.getSchemaDriftEvents()).toHaveLength(2);
+      expect(tracker.getSchemaDriftEvents('customers')).toEqual([
+        expect.objectContaining({ sourcePath: 'customers_2026-10.csv', changes, policy: 'accept' }),
+      ]);
+    });
+  });
+});
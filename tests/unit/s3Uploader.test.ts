@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { PassThrough } from 'stream';
+import { S3Client } from '@aws-sdk/client-s3';
+import type { S3Config } from '../../src/types/index.js';
+import { S3Uploader } from '../../src/services/S3Uploader.js';
+
+const MiB = 1024 * 1024;
+
+const config: S3Config = {
+  endpoint: 'http://localhost:9000',
+  region: 'us-east-1',
+  bucket: 'test-bucket',
+  accessKeyId: 'test',
+  secretAccessKey: 'test',
+  forcePathStyle: true,
+  uploadPartSize: 5 * MiB,
+  uploadQueueSize: 1,
+};
+
+describe('S3Uploader', () => {
+  let commands: string[];
+
+  beforeEach(() => {
+    commands = [];
+    jest.spyOn(S3Client.prototype, 'send').mockImplementation((async (command: object) => {
+      const name = command.constructor.name;
+      commands.push(name);
+      if (name === 'CreateMultipartUploadCommand') {
+        return { UploadId: 'upload-1' };
+      }
+      if (name === 'UploadPartCommand') {
+        return { ETag: `"part-${commands.length}"` };
+      }
+      return { ETag: '"object"' };
+    }) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('uploadStream', () => {
+    it('should complete the multipart upload once the stream ends', async () => {
+      const uploader = new S3Uploader(config);
+      const stream = new PassThrough();
+      stream.end(Buffer.alloc(6 * MiB));
+
+      const task = await uploader.uploadStream(stream, 'data/users.parquet', 'application/vnd.apache.parquet');
+
+      expect(task.etag).toBe('"object"');
+      expect(commands).toContain('CompleteMultipartUploadCommand');
+      expect(commands).not.toContain('AbortMultipartUploadCommand');
+    });
+
+    it('should abort the multipart upload when the stream fails', async () => {
+      const uploader = new S3Uploader(config);
+      const stream = new PassThrough();
+      stream.write(Buffer.alloc(6 * MiB));
+      setTimeout(() => stream.destroy(new Error('Conversion Error: could not convert')), 50);
+
+      await expect(
+        uploader.uploadStream(stream, 'data/users.parquet', 'application/vnd.apache.parquet')
+      ).rejects.toThrow('Conversion Error: could not convert');
+      expect(commands).toContain('UploadPartCommand');
+      expect(commands).toContain('AbortMultipartUploadCommand');
+      expect(commands).not.toContain('CompleteMultipartUploadCommand');
+    });
+  });
+});
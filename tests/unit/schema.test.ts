@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { compareSchemas, describeSchemaChange, resolveDataset } from '../../src/lib/schema.js';
+
+describe('Schema drift', () => {
+  describe('resolveDataset', () => {
+    const rules = [
+      { pattern: 'customers_*.csv', dataset: 'customers' },
+      { pattern: 'exports/**/orders-*.csv', dataset: 'orders' },
+    ];
+
+    it('should use the first matching rule', () => {
+      expect(resolveDataset('incoming/customers_2026-10.csv', rules)).toBe('customers');
+      expect(resolveDataset('exports/eu/orders-2026-10.csv', rules)).toBe('orders');
+    });
+
+    it('should fall back to the path without its extension', () => {
+      expect(resolveDataset('exports/eu/invoices.csv', rules)).toBe('exports/eu/invoices');
+      expect(resolveDataset('shop.sqlite', [])).toBe('shop');
+    });
+  });
+
+  describe('compareSchemas', () => {
+    const previous = [
+      { name: 'id', type: 'BIGINT' },
+      { name: 'name', type: 'VARCHAR' },
+      { name: 'signup', type: 'DATE' },
+    ];
+
+    it('should report no changes for the same columns in any order', () => {
+      expect(compareSchemas(previous, [...previous].reverse())).toEqual([]);
+    });
+
+    it('should report added, retyped and removed columns', () => {
+      const changes = compareSchemas(previous, [
+        { name: 'id', type: 'VARCHAR' },
+        { name: 'name', type: 'VARCHAR' },
+        { name: 'email', type: 'VARCHAR' },
+      ]);
+
+      expect(changes).toEqual([
+        { kind: 'retyped', column: 'id', previousType: 'BIGINT', type: 'VARCHAR' },
+        { kind: 'added', column: 'email', type: 'VARCHAR' },
+        { kind: 'removed', column: 'signup', previousType: 'DATE' },
+      ]);
+      expect(changes.map(describeSchemaChange)).toEqual([
+        'id retyped from BIGINT to VARCHAR',
+        'email added as VARCHAR',
+        'signup (DATE) removed',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { ArchiveErrorCode } from '../../src/types/index.js';
+import { SpoolBudget } from '../../src/lib/spoolBudget.js';
+
+describe('SpoolBudget', () => {
+  it('should grant reservations that fit at once', async () => {
+    const budget = new SpoolBudget(100);
+
+    const releaseFirst = await budget.reserve(60, 'users.csv');
+    const releaseSecond = await budget.reserve(40, 'orders.csv');
+
+    releaseFirst();
+    releaseSecond();
+  });
+
+  it('should make a reservation that does not fit wait until space is released', async () => {
+    const budget = new SpoolBudget(100);
+    const release = await budget.reserve(80, 'users.csv');
+    let granted = false;
+
+    const waiting = budget.reserve(50, 'orders.csv').then((releaseWaiting) => {
+      granted = true;
+      return releaseWaiting;
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(granted).toBe(false);
+
+    release();
+    (await waiting)();
+    expect(granted).toBe(true);
+  });
+
+  it('should grant waiting reservations in order', async () => {
+    const budget = new SpoolBudget(100);
+    const release = await budget.reserve(100, 'users.csv');
+    const order: string[] = [];
+
+    const large = budget.reserve(90, 'large.csv').then((releaseLarge) => {
+      order.push('large');
+      return releaseLarge;
+    });
+    const small = budget.reserve(10, 'small.csv').then((releaseSmall) => {
+      order.push('small');
+      return releaseSmall;
+    });
+
+    release();
+    await Promise.all([large, small]);
+
+    expect(order).toEqual(['large', 'small']);
+  });
+
+  it('should ignore a second release', async () => {
+    const budget = new SpoolBudget(100);
+    const release = await budget.reserve(100, 'users.csv');
+    release();
+    release();
+
+    await budget.reserve(100, 'orders.csv');
+    let granted = false;
+    void budget.reserve(1, 'extra.csv').then(() => {
+      granted = true;
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(granted).toBe(false);
+  });
+
+  it('should reject content that could never fit', async () => {
+    const budget = new SpoolBudget(100);
+
+    await expect(budget.reserve(101, 'Archive entry data/users.csv')).rejects.toMatchObject({
+      code: ArchiveErrorCode.LIMIT_EXCEEDED,
+      message: expect.stringContaining('MAX_SPOOL_BYTES'),
+    });
+  });
+});
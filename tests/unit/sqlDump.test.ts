@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Readable } from 'stream';
+import { mapSqlType, parseSqlDump, spoolSqlDump, type SqlDumpEvent } from '../../src/lib/sqlDump.js';
+
+const MYSQL_DUMP = `-- MySQL dump 10.13
+/*!40101 SET NAMES utf8mb4 */;
+DROP TABLE IF EXISTS \`users\`;
+CREATE TABLE \`users\` (
+  \`id\` int unsigned NOT NULL AUTO_INCREMENT,
+  \`name\` varchar(255) DEFAULT NULL,
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`balance\` decimal(10,2) DEFAULT NULL,
+  \`created\` datetime DEFAULT NULL,
+  PRIMARY KEY (\`id\`),
+  KEY \`idx_name\` (\`name\`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+LOCK TABLES \`users\` WRITE;
+INSERT INTO \`users\` VALUES (1,'O\\'Brien, Pat',1,12.50,'2024-01-02 03:04:05'),(2,'Line\\nBreak; (x)',0,NULL,'0000-00-00 00:00:00');
+INSERT INTO \`users\` VALUES (3,'Semi;colon -- not a comment',1,-1.00,NULL);
+UNLOCK TABLES;
+`;
+
+const POSTGRES_DUMP = `--
+-- PostgreSQL database dump
+--
+
+SET standard_conforming_strings = on;
+
+CREATE FUNCTION public.touch() RETURNS trigger
+    LANGUAGE plpgsql
+    AS $$
+BEGIN
+  INSERT INTO audit VALUES ('not; a row');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TABLE public.orders (
+    id bigint NOT NULL,
+    note text,
+    amount numeric(12,4),
+    tags text[],
+    placed_at timestamp with time zone DEFAULT now()
+);
+
+COPY public.orders (id, note, amount, tags, placed_at) FROM stdin;
+1\tfirst\\torder\t10.5000\t{a,b}\t2024-05-01 10:00:00+00
+2\t\\N\t\\N\t\\N\t\\N
+\\.
+
+INSERT INTO public.orders (note, id) VALUES ('back\\slash', 3);
+`;
+
+/**
+ * Collect every event parsed from a dump
+ */
+async function parse(dump: string): Promise<SqlDumpEvent[]> {
+  const events: SqlDumpEvent[] = [];
+  for await (const event of parseSqlDump(Readable.from([dump]))) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('SQL dump parsing', () => {
+  describe('mapSqlType', () => {
+    it.each([
+      ['int unsigned NOT NULL', 'UINTEGER'],
+      ['bigint', 'BIGINT'],
+      ['tinyint(1)', 'BOOLEAN'],
+      ['tinyint(4)', 'TINYINT'],
+      ['decimal(10,2)', 'DECIMAL(10,2)'],
+      ['numeric(65,10)', 'DOUBLE'],
+      ['double precision', 'DOUBLE'],
+      ['varchar(255)', 'VARCHAR'],
+      ['datetime', 'TIMESTAMP'],
+      ['timestamp with time zone', 'TIMESTAMPTZ'],
+      ['date', 'DATE'],
+      ['uuid', 'UUID'],
+      ['text[]', 'VARCHAR'],
+      ['geometry', 'VARCHAR'],
+    ])('should map %s to %s', (definition, type) => {
+      expect(mapSqlType(definition)).toBe(type);
+    });
+  });
+
+  describe('parseSqlDump', () => {
+    it('should read MySQL tables and multi-row inserts', async () => {
+      const events = await parse(MYSQL_DUMP);
+
+      expect(events[0]).toEqual({
+        kind: 'table',
+        table: {
+          name: 'users',
+          columns: [
+            { name: 'id', type: 'UINTEGER' },
+            { name: 'name', type: 'VARCHAR' },
+            { name: 'active', type: 'BOOLEAN' },
+            { name: 'balance', type: 'DECIMAL(10,2)' },
+            { name: 'created', type: 'TIMESTAMP' },
+          ],
+        },
+      });
+
+      const rows = events.flatMap((event) => (event.kind === 'rows' ? event.rows : []));
+      expect(rows).toEqual([
+        ['1', "O'Brien, Pat", '1', '12.50', '2024-01-02 03:04:05'],
+        ['2', 'Line\nBreak; (x)', '0', null, '0000-00-00 00:00:00'],
+        ['3', 'Semi;colon -- not a comment', '1', '-1.00', null],
+      ]);
+    });
+
+    it('should read PostgreSQL COPY blocks and skip function bodies', async () => {
+      const events = await parse(POSTGRES_DUMP);
+
+      expect(events.filter((event) => event.kind === 'table')).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        kind: 'table',
+        table: {
+          name: 'orders',
+          columns: [
+            { name: 'id', type: 'BIGINT' },
+            { name: 'note', type: 'VARCHAR' },
+            { name: 'amount', type: 'DECIMAL(12,4)' },
+            { name: 'tags', type: 'VARCHAR' },
+            { name: 'placed_at', type: 'TIMESTAMPTZ' },
+          ],
+        },
+      });
+
+      expect(events.slice(1)).toEqual([
+        {
+          kind: 'rows',
+          table: 'orders',
+          columns: ['id', 'note', 'amount', 'tags', 'placed_at'],
+          rows: [
+            ['1', 'first\torder', '10.5000', '{a,b}', '2024-05-01 10:00:00+00'],
+            ['2', null, null, null, null],
+          ],
+        },
+        // standard_conforming_strings keeps backslashes literal
+        { kind: 'rows', table: 'orders', columns: ['note', 'id'], rows: [['back\\slash', '3']] },
+      ]);
+    });
+
+    it('should keep non-default schemas in the table name', async () => {
+      const events = await parse('INSERT INTO "sales"."Q1 Totals" VALUES (1, \'x\');\n');
+
+      expect(events).toEqual([
+        { kind: 'rows', table: 'sales.Q1 Totals', columns: null, rows: [['1', 'x']] },
+      ]);
+    });
+  });
+
+  describe('spoolSqlDump', () => {
+    let workDirectory: string;
+
+    beforeEach(() => {
+      workDirectory = mkdtempSync(join(tmpdir(), 'sql-dump-test-'));
+    });
+
+    afterEach(() => {
+      rmSync(workDirectory, { recursive: true, force: true });
+    });
+
+    it('should write one CSV per table with normalized values', async () => {
+      const tables = await spoolSqlDump(Readable.from([MYSQL_DUMP]), workDirectory);
+
+      expect(tables).toHaveLength(1);
+      expect(tables[0]).toMatchObject({ name: 'users', rowCount: 3 });
+      expect(readFileSync(tables[0].csvPath, 'utf-8')).toBe(
+        '"1","O\'Brien, Pat","true","12.50","2024-01-02 03:04:05"\n' +
+        '"2","Line\nBreak; (x)","false",\\N,\\N\n' +
+        '"3","Semi;colon -- not a comment","true","-1.00",\\N\n'
+      );
+    });
+
+    it('should reorder listed columns to the table definition', async () => {
+      const tables = await spoolSqlDump(Readable.from([POSTGRES_DUMP]), workDirectory);
+
+      expect(tables[0]).toMatchObject({ name: 'orders', rowCount: 3 });
+      expect(readFileSync(tables[0].csvPath, 'utf-8').split('\n')[2]).toBe('"3","back\\slash",\\N,\\N,\\N');
+    });
+
+    it('should name columns of tables without a definition', async () => {
+      const tables = await spoolSqlDump(
+        Readable.from(['INSERT INTO logs VALUES (1, \'a\'), (2, \'b\');\n']),
+        workDirectory
+      );
+
+      expect(tables).toEqual([
+        expect.objectContaining({
+          name: 'logs',
+          rowCount: 2,
+          columns: [
+            { name: 'column0', type: null },
+            { name: 'column1', type: null },
+          ],
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createWriteStream, mkdtempSync, rmSync, statSync } from 'fs';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import type { Readable } from 'stream';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createFifo, openFifo, streamThroughFifo, streamToBuffer } from '../../src/lib/streams.js';
+
+describe('Named pipes', () => {
+  let directory: string;
+  let fifoPath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'fifo-test-'));
+    fifoPath = join(directory, 'output.parquet');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should create a pipe', async () => {
+    await createFifo(fifoPath);
+
+    expect(statSync(fifoPath).isFIFO()).toBe(true);
+  });
+
+  it('should wait for a writer that opens the pipe later', async () => {
+    await createFifo(fifoPath);
+    const content = streamToBuffer(await openFifo(fifoPath));
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const writer = createWriteStream(fifoPath);
+    writer.write('PAR1');
+    writer.end('rows');
+
+    expect((await content).toString()).toBe('PAR1rows');
+  });
+
+  it('should fail the writer once the reader is destroyed', async () => {
+    await createFifo(fifoPath);
+    const reader = await openFifo(fifoPath);
+    const writer = createWriteStream(fifoPath);
+    const failed = new Promise<NodeJS.ErrnoException>((resolve) => writer.on('error', resolve));
+
+    await new Promise((resolve) => writer.once('open', resolve));
+    reader.destroy();
+    writer.write(Buffer.alloc(1024 * 1024));
+
+    expect((await failed).code).toBe('EPIPE');
+  });
+
+  describe('streamThroughFifo', () => {
+    /**
+     * Write chunks into the pipe like DuckDB does, optionally failing once they are written
+     */
+    function writeToPipe(chunks: (string | Buffer)[], error?: Error): () => Promise<void> {
+      return async () => {
+        const writer = createWriteStream(fifoPath);
+        await once(writer, 'open');
+        for (const chunk of chunks) {
+          writer.write(chunk);
+        }
+        writer.end();
+        await finished(writer);
+        if (error) {
+          throw error;
+        }
+      };
+    }
+
+    it('should end the consumer\'s stream once the writer succeeded', async () => {
+      await createFifo(fifoPath);
+      let content: Buffer | null = null;
+
+      await streamThroughFifo(writeToPipe(['PAR1', 'rows']), fifoPath, async (stream) => {
+        content = await streamToBuffer(stream);
+      });
+
+      expect(content!.toString()).toBe('PAR1rows');
+    });
+
+    it('should fail the consumer\'s stream instead of ending it when the writer fails', async () => {
+      await createFifo(fifoPath);
+      const events: string[] = [];
+
+      const streaming = streamThroughFifo(
+        writeToPipe(['PAR1'], new Error('Conversion Error: could not convert')),
+        fifoPath,
+        async (stream: Readable) => {
+          stream.on('end', () => events.push('end'));
+          await streamToBuffer(stream).catch((error: Error) => {
+            events.push('error');
+            throw error;
+          });
+        }
+      );
+
+      await expect(streaming).rejects.toThrow('Conversion Error: could not convert');
+      expect(events).toEqual(['error']);
+    });
+
+    it('should stop the writer when the consumer fails', async () => {
+      await createFifo(fifoPath);
+      let writerError: NodeJS.ErrnoException | null = null;
+
+      const write = async (): Promise<void> => {
+        const writer = createWriteStream(fifoPath);
+        writer.on('error', (error) => {
+          writerError ??= error;
+        });
+        // Keep writing until the closed pipe fails the writer
+        while (!writer.destroyed) {
+          if (!writer.write(Buffer.alloc(64 * 1024))) {
+            await new Promise<void>((resolve) => {
+              writer.once('drain', () => resolve());
+              writer.once('close', () => resolve());
+            });
+          }
+        }
+        throw writerError;
+      };
+
+      // Like a multipart upload, which reads its first part before sending anything
+      const streaming = streamThroughFifo(write, fifoPath, async (stream) => {
+        await new Promise((resolve) => stream.once('data', resolve));
+        throw new Error('Upload failed: AccessDenied');
+      });
+
+      await expect(streaming).rejects.toThrow('Upload failed: AccessDenied');
+      expect(writerError!.code).toBe('EPIPE');
+    });
+  });
+});
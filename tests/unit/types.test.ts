@@ -1,6 +1,7 @@
 import { describe, it, expect } from '@jest/globals';
 import {
   FileType,
+  FileFormat,
   isArchiveFile,
   isDatabaseFile,
   getFileType,
@@ -17,6 +18,8 @@ describe('Type utilities', () => {
       expect(isArchiveFile('test.tar')).toBe(true);
       expect(isArchiveFile('test.tar.gz')).toBe(true);
       expect(isArchiveFile('test.tgz')).toBe(true);
+      expect(isArchiveFile('test.tar.zst')).toBe(true);
+      expect(isArchiveFile('test.tar.lz4')).toBe(true);
     });
 
     it('should not identify non-archive files', () => {
@@ -40,6 +43,10 @@ describe('Type utilities', () => {
       expect(isDatabaseFile('test.xml')).toBe(true);
     });
 
+    it('should identify SQL dumps', () => {
+      expect(isDatabaseFile('dump.sql')).toBe(true);
+    });
+
     it('should not identify non-database files', () => {
       expect(isDatabaseFile('test.txt')).toBe(false);
       expect(isDatabaseFile('test.zip')).toBe(false);
@@ -61,5 +68,24 @@ describe('Type utilities', () => {
       expect(getFileType('test.txt')).toBe(FileType.REGULAR);
       expect(getFileType('test.pdf')).toBe(FileType.REGULAR);
     });
+
+    it('should prefer the detected format over the extension', () => {
+      expect(getFileType('export.dat', FileFormat.ZIP)).toBe(FileType.ARCHIVE);
+      expect(getFileType('users.csv', FileFormat.GZIP)).toBe(FileType.ARCHIVE);
+      expect(getFileType('users.csv', FileFormat.ZSTD)).toBe(FileType.ARCHIVE);
+      expect(getFileType('users.zip', FileFormat.UTF8)).toBe(FileType.REGULAR);
+      expect(getFileType('data.csv', FileFormat.PARQUET)).toBe(FileType.REGULAR);
+    });
+
+    it('should use the extension to classify detected text', () => {
+      expect(getFileType('users.csv', FileFormat.UTF8)).toBe(FileType.DATABASE);
+      expect(getFileType('users.json', FileFormat.UTF16LE)).toBe(FileType.DATABASE);
+      expect(getFileType('notes.txt', FileFormat.UTF8)).toBe(FileType.REGULAR);
+    });
+
+    it('should not unpack ZIP-based documents', () => {
+      expect(getFileType('report.docx', FileFormat.ZIP)).toBe(FileType.REGULAR);
+      expect(getFileType('sheet.xlsx', FileFormat.ZIP)).toBe(FileType.REGULAR);
+    });
   });
 });
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { parseVolumeName, findMissingVolumes, readZipDiskNumber } from '../../src/lib/volumes.js';
+
+/**
+ * Build an end of central directory record for the given disk number
+ */
+function createEndOfCentralDirectory(diskNumber: number): Buffer {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(0x06054b50, 0);
+  record.writeUInt16LE(diskNumber, 4);
+  record.writeUInt16LE(diskNumber, 6);
+  return record;
+}
+
+describe('Volume utilities', () => {
+  describe('parseVolumeName', () => {
+    it.each([
+      ['/data/dump.zip.001', '/data/dump.zip', 'numbered', 1],
+      ['/data/dump.7z.012', '/data/dump.7z', 'numbered', 12],
+      ['/data/dump.tar.gz.00', '/data/dump.tar.gz', 'numbered', 0],
+      ['/data/dump.tar.gz.aa', '/data/dump.tar.gz', 'lettered', 0],
+      ['/data/dump.tar.gz.bc', '/data/dump.tar.gz', 'lettered', 28],
+      ['/data/dump.z01', '/data/dump.zip', 'zip-split', 1],
+      ['/data/dump.Z02', '/data/dump.zip', 'zip-split', 2],
+      ['/data/dump.part1.rar', '/data/dump.rar', 'rar-parts', 1],
+      ['/data/dump.part03.rar', '/data/dump.rar', 'rar-parts', 3],
+    ])('should recognize %s', (filePath, setPath, scheme, number) => {
+      expect(parseVolumeName(filePath)).toEqual({ setPath, scheme, number });
+    });
+
+    it.each([
+      '/data/dump.zip',
+      '/data/dump.tar.gz',
+      '/data/dump.rar',
+      '/data/report.001',
+      '/data/backup.tar.2024',
+      '/data/backup.tar.gz.20240101',
+      '/data/dump.20240101',
+      '/data/notes.md',
+      '/data/users.csv',
+    ])('should not treat %s as a volume', (filePath) => {
+      expect(parseVolumeName(filePath)).toBeNull();
+    });
+  });
+
+  describe('findMissingVolumes', () => {
+    it('should accept contiguous sets from the scheme\'s first number', () => {
+      expect(findMissingVolumes('numbered', [2, 1, 3])).toEqual([]);
+      expect(findMissingVolumes('numbered', [0, 1])).toEqual([]);
+      expect(findMissingVolumes('lettered', [0, 1, 2])).toEqual([]);
+      expect(findMissingVolumes('rar-parts', [1, 2])).toEqual([]);
+    });
+
+    it('should report gaps and missing leading volumes', () => {
+      expect(findMissingVolumes('numbered', [1, 3])).toEqual([2]);
+      expect(findMissingVolumes('lettered', [1, 2])).toEqual([0]);
+      expect(findMissingVolumes('rar-parts', [2])).toEqual([1]);
+    });
+
+    it('should check up to the last volume when it is known', () => {
+      expect(findMissingVolumes('zip-split', [1, 3], 3)).toEqual([2]);
+      expect(findMissingVolumes('zip-split', [1, 2, 3], 3)).toEqual([]);
+    });
+  });
+
+  describe('readZipDiskNumber', () => {
+    let tempDir: string;
+
+    beforeAll(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'volumes-'));
+    });
+
+    afterAll(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should read the disk number of the end of central directory record', async () => {
+      const filePath = join(tempDir, 'spanned.zip');
+      writeFileSync(filePath, Buffer.concat([Buffer.alloc(100), createEndOfCentralDirectory(2)]));
+
+      expect(await readZipDiskNumber(filePath)).toBe(2);
+    });
+
+    it('should return 0 for unsplit ZIPs and null without a record', async () => {
+      const plainPath = join(tempDir, 'plain.zip');
+      writeFileSync(plainPath, Buffer.concat([Buffer.alloc(100), createEndOfCentralDirectory(0)]));
+      const truncatedPath = join(tempDir, 'truncated.zip');
+      writeFileSync(truncatedPath, Buffer.alloc(100));
+
+      expect(await readZipDiskNumber(plainPath)).toBe(0);
+      expect(await readZipDiskNumber(truncatedPath)).toBeNull();
+    });
+  });
+});
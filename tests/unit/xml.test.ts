@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Readable } from 'stream';
+import { ConversionErrorCode } from '../../src/types/index.js';
+import { analyzeXml, findRecordPath, spoolXmlRecords } from '../../src/lib/xml.js';
+
+const ORDERS_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<export xmlns:x="urn:example">
+  <meta><generated>2024-05-01</generated></meta>
+  <orders>
+    <order id="1" status="open">
+      <customer><name>Zoë</name><address country="NO"><city>Bergen</city></address></customer>
+      <price currency="EUR">10.50</price>
+      <tag>new</tag>
+      <tag>gift</tag>
+      <item sku="A-1"><qty>2</qty></item>
+      <item sku="B-2"><qty>1</qty></item>
+      <x:note><![CDATA[Leave at <door>]]></x:note>
+    </order>
+    <order id="2" status="closed">
+      <customer><name>007</name></customer>
+      <price currency="EUR">3</price>
+      <tag>repeat</tag>
+      <item sku="C-3"/>
+      <x:note/>
+    </order>
+  </orders>
+</export>
+`;
+
+/**
+ * Read a stream of the given text in small chunks, to exercise chunk boundaries
+ */
+function chunked(text: string, size: number = 7): Readable {
+  const buffer = Buffer.from(text);
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < buffer.length; offset += size) {
+    chunks.push(buffer.subarray(offset, offset + size));
+  }
+  return Readable.from(chunks);
+}
+
+describe('XML records', () => {
+  describe('analyzeXml', () => {
+    it('should record which paths repeat and which have structure', async () => {
+      const structure = await analyzeXml(chunked(ORDERS_XML));
+
+      expect(structure.get('/export')).toEqual({ count: 1, repeats: false, structured: true });
+      expect(structure.get('/export/orders/order')).toEqual({ count: 2, repeats: true, structured: true });
+      expect(structure.get('/export/orders/order/tag')).toEqual({ count: 3, repeats: true, structured: false });
+      expect(structure.get('/export/orders/order/item')).toEqual({ count: 3, repeats: true, structured: true });
+      expect(structure.get('/export/orders/order/note')).toEqual({ count: 2, repeats: false, structured: false });
+    });
+
+    it('should reject malformed documents', async () => {
+      await expect(analyzeXml(Readable.from(['<rows><row></rows>']))).rejects.toThrow();
+    });
+  });
+
+  describe('findRecordPath', () => {
+    it('should pick the shallowest repeating element', async () => {
+      const structure = await analyzeXml(Readable.from([ORDERS_XML]));
+
+      expect(findRecordPath(structure)).toBe('/export/orders/order');
+    });
+
+    it('should prefer the more frequent element at the same depth', async () => {
+      const structure = await analyzeXml(Readable.from([
+        '<root><meta><a/><a/></meta><rows><row/><row/><row/></rows></root>',
+      ]));
+
+      expect(findRecordPath(structure)).toBe('/root/rows/row');
+    });
+
+    it('should use the configured element name', async () => {
+      const structure = await analyzeXml(Readable.from([ORDERS_XML]));
+
+      expect(findRecordPath(structure, 'customer')).toBe('/export/orders/order/customer');
+      expect(() => findRecordPath(structure, 'invoice')).toThrow('XML record element <invoice> not found');
+    });
+
+    it('should refuse a document without a repeating element', async () => {
+      const structure = await analyzeXml(Readable.from(['<config><a>1</a><b>2</b></config>']));
+
+      expect(() => findRecordPath(structure)).toThrow(expect.objectContaining({
+        code: ConversionErrorCode.NO_RECORD_ELEMENT,
+        message: expect.stringContaining('<config> has no repeating element'),
+      }));
+    });
+  });
+
+  describe('spoolXmlRecords', () => {
+    let workDirectory: string;
+
+    beforeEach(() => {
+      workDirectory = mkdtempSync(join(tmpdir(), 'xml-test-'));
+    });
+
+    afterEach(() => {
+      rmSync(workDirectory, { recursive: true, force: true });
+    });
+
+    it('should flatten records into JSON lines', async () => {
+      const structure = await analyzeXml(chunked(ORDERS_XML));
+      const outputPath = join(workDirectory, 'records.ndjson');
+
+      const recordCount = await spoolXmlRecords(chunked(ORDERS_XML), structure, '/export/orders/order', outputPath);
+
+      expect(recordCount).toBe(2);
+      const lines = readFileSync(outputPath, 'utf-8').trimEnd().split('\n');
+      expect(lines).toHaveLength(2);
+
+      expect(JSON.parse(lines[0])).toEqual({
+        id: 1,
+        status: 'open',
+        customer_name: 'Zoë',
+        customer_address_country: 'NO',
+        customer_address_city: 'Bergen',
+        price_currency: 'EUR',
+        price: 10.5,
+        tag: ['new', 'gift'],
+        item: [{ sku: 'A-1', qty: 2 }, { sku: 'B-2', qty: 1 }],
+        note: 'Leave at <door>',
+      });
+
+      // Leading zeros stay text, and single repeats are still lists
+      expect(JSON.parse(lines[1])).toEqual({
+        id: 2,
+        status: 'closed',
+        customer_name: '007',
+        price_currency: 'EUR',
+        price: 3,
+        tag: ['repeat'],
+        item: [{ sku: 'C-3' }],
+        note: null,
+      });
+    });
+
+    it('should keep the text of large integers as written', async () => {
+      const xml = '<rows><row><id>12345678901234567890</id></row><row><id>1</id></row></rows>';
+      const structure = await analyzeXml(Readable.from([xml]));
+      const outputPath = join(workDirectory, 'records.ndjson');
+
+      await spoolXmlRecords(Readable.from([xml]), structure, '/rows/row', outputPath);
+
+      expect(readFileSync(outputPath, 'utf-8')).toBe('{"id":12345678901234567890}\n{"id":1}\n');
+    });
+  });
+});